@@ -1,6 +1,3 @@
-import { CloudType } from "./commands/utils/clusters";
-import AksClusterTreeItem from "./tree/aksClusterTreeItem";
-
 export interface PartialList<T> extends Array<T> {
     nextLink?: string;
 }
@@ -20,16 +17,6 @@ export function parseResource(armId: string): { resourceGroupName: string | unde
     return { resourceGroupName, name };
 }
 
-export function getCloudType(target: AksClusterTreeItem): CloudType {
-    const location = target.resource.location;
-
-    if (location && location.includes("usgov")) {
-        return CloudType.USGov;
-    }
-
-    return CloudType.Public;
-}
-
 function bitAfter(bits: string[], after: string): string | undefined {
     const afterIndex = bits.indexOf(after);
     return bits[afterIndex + 1];
@@ -0,0 +1,119 @@
+import * as vscode from 'vscode';
+import * as k8s from 'vscode-kubernetes-tools-api';
+import { IActionContext } from "@microsoft/vscode-azext-utils";
+import { getAksClusterTreeItem } from '../utils/clusters';
+import { getExtensionPath, longRunning } from '../utils/host';
+import { Errorable, failed } from '../utils/errorable';
+import AksClusterTreeItem from '../../tree/aksClusterTreeItem';
+import { createWebView, getRenderedContent, getResourceUri } from '../utils/webviews';
+import {
+    ActivityLogOperation,
+    activityLogStatuses,
+    activityLogTimeRanges,
+    groupActivityLogEvents,
+    listActivityLogEvents
+} from './helpers/activityloghelper';
+
+const defaultTimeRangeHours = 24;
+
+interface ActivityLogFilters {
+    readonly hours: number;
+    readonly status?: string;
+}
+
+export default async function aksActivityLog(
+    context: IActionContext,
+    target: any
+): Promise<void> {
+    const cloudExplorer = await k8s.extension.cloudExplorer.v1;
+
+    const cluster = getAksClusterTreeItem(target, cloudExplorer);
+    if (failed(cluster)) {
+        vscode.window.showErrorMessage(cluster.error);
+        return;
+    }
+
+    const extensionPath = getExtensionPath();
+    if (failed(extensionPath)) {
+        vscode.window.showErrorMessage(extensionPath.error);
+        return;
+    }
+
+    const clusterName = cluster.result.name;
+    const initialFilters: ActivityLogFilters = { hours: defaultTimeRangeHours };
+    const operations = await loadOperations(cluster.result, initialFilters);
+    if (failed(operations)) {
+        vscode.window.showErrorMessage(operations.error);
+        return;
+    }
+
+    const webviewPanel = createWebView('AKS Activity Log', `AKS activity log for: ${clusterName}`);
+    const webview = webviewPanel.webview;
+
+    let isDisposed = false;
+    webviewPanel.onDidDispose(() => { isDisposed = true; });
+
+    webview.onDidReceiveMessage(
+        async (message) => {
+            if (message.command !== "applyFilters") {
+                return;
+            }
+
+            const filters: ActivityLogFilters = { hours: Number(message.hours) || defaultTimeRangeHours, status: message.status || undefined };
+            const updatedOperations = await loadOperations(cluster.result, filters);
+            if (failed(updatedOperations)) {
+                vscode.window.showErrorMessage(updatedOperations.error);
+                return;
+            }
+
+            if (!isDisposed) {
+                webview.html = getWebviewContent(clusterName, updatedOperations.result, filters, extensionPath.result);
+            }
+        },
+        undefined
+    );
+
+    webview.html = getWebviewContent(clusterName, operations.result, initialFilters, extensionPath.result);
+}
+
+async function loadOperations(
+    cluster: AksClusterTreeItem,
+    filters: ActivityLogFilters
+): Promise<Errorable<ActivityLogOperation[]>> {
+    const to = new Date();
+    const from = new Date(to.getTime() - filters.hours * 60 * 60 * 1000);
+    const events = await longRunning(`Loading ${cluster.name} activity log.`, () => listActivityLogEvents(cluster, from, to));
+    if (failed(events)) {
+        return events;
+    }
+
+    return { succeeded: true, result: groupActivityLogEvents(events.result, filters.status) };
+}
+
+function getWebviewContent(
+    clusterName: string,
+    operations: ActivityLogOperation[],
+    filters: ActivityLogFilters,
+    vscodeExtensionPath: string
+): string {
+    const styleUri = getResourceUri(vscodeExtensionPath, 'common', 'detector.css');
+    const templateUri = getResourceUri(vscodeExtensionPath, 'aksactivitylog', 'activitylog.html');
+    const data = {
+        cssuri: styleUri,
+        name: clusterName,
+        timeRanges: activityLogTimeRanges.map((r) => ({ ...r, selected: r.hours === filters.hours })),
+        statuses: activityLogStatuses.map((s) => ({ value: s, selected: s === filters.status })),
+        operations: operations.map((o) => ({
+            ...o,
+            isFailed: o.status === "Failed",
+            startTime: formatTime(o.startTime),
+            events: o.events.map((e) => ({ ...e, time: formatTime(e.time) }))
+        }))
+    };
+
+    return getRenderedContent(templateUri, data);
+}
+
+function formatTime(date: Date): string {
+    return `${date.toISOString().substring(0, 19).replace("T", " ")} UTC`;
+}
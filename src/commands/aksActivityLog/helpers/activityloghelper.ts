@@ -0,0 +1,104 @@
+import * as amon from '@azure/arm-monitor';
+import AksClusterTreeItem from '../../../tree/aksClusterTreeItem';
+import { listAll } from '../../../azure-api-utils';
+import { getCloudEnvironment } from '../../utils/clouds';
+import { Errorable } from '../../utils/errorable';
+
+export interface ActivityLogTimeRange {
+    readonly label: string;
+    readonly hours: number;
+}
+
+// The activity log is retained for 90 days.
+export const activityLogTimeRanges: ActivityLogTimeRange[] = [
+    { label: "Last hour", hours: 1 },
+    { label: "Last 6 hours", hours: 6 },
+    { label: "Last 24 hours", hours: 24 },
+    { label: "Last 7 days", hours: 7 * 24 },
+    { label: "Last 30 days", hours: 30 * 24 },
+    { label: "Last 90 days", hours: 90 * 24 }
+];
+
+export const activityLogStatuses = ["Started", "Accepted", "Succeeded", "Failed"];
+
+export interface ActivityLogEvent {
+    readonly time: Date;
+    readonly status: string;
+    readonly subStatus: string;
+    readonly level: string;
+}
+
+// The events of one operation on the cluster, which share a correlation ID.
+export interface ActivityLogOperation {
+    readonly correlationId: string;
+    readonly operationName: string;
+    readonly caller: string;
+    // The status of the latest event.
+    readonly status: string;
+    readonly startTime: Date;
+    readonly lastTime: Date;
+    readonly events: ActivityLogEvent[];
+}
+
+export function getActivityLogFilter(resourceId: string, from: Date, to: Date): string {
+    return `eventTimestamp ge '${from.toISOString()}' and eventTimestamp le '${to.toISOString()}' and resourceUri eq '${resourceId}'`;
+}
+
+export async function listActivityLogEvents(
+    target: AksClusterTreeItem,
+    from: Date,
+    to: Date
+): Promise<Errorable<amon.MonitorManagementModels.EventData[]>> {
+    try {
+        const client = new amon.MonitorManagementClient(target.subscription.credentials, target.subscription.subscriptionId, { baseUri: getCloudEnvironment(target.subscription).resourceManagerEndpointUrl });
+        const events = await listAll(client.activityLogs, client.activityLogs.list(getActivityLogFilter(target.armId, from, to)));
+        return { succeeded: true, result: events };
+    } catch (ex) {
+        return { succeeded: false, error: `Error retrieving the activity log of ${target.name}: ${ex}` };
+    }
+}
+
+// Groups the events into operations, most recent first, keeping only operations whose latest status is
+// `status` (or all operations if `status` is undefined).
+export function groupActivityLogEvents(
+    events: amon.MonitorManagementModels.EventData[],
+    status?: string
+): ActivityLogOperation[] {
+    const groups = new Map<string, amon.MonitorManagementModels.EventData[]>();
+    for (const event of events) {
+        const key = event.correlationId || event.operationId || event.eventDataId || "";
+        groups.set(key, [...(groups.get(key) || []), event]);
+    }
+
+    const operations: ActivityLogOperation[] = [];
+    groups.forEach((groupEvents, correlationId) => {
+        const sorted = groupEvents
+            .map((e) => ({ data: e, time: new Date(e.eventTimestamp || 0) }))
+            .sort((a, b) => a.time.getTime() - b.time.getTime());
+
+        const first = sorted[0];
+        const last = sorted[sorted.length - 1];
+        operations.push({
+            correlationId,
+            operationName: getDisplayValue(last.data.operationName) || "Unknown operation",
+            caller: sorted.map((e) => e.data.caller).find((c) => c) || "Unknown caller",
+            status: last.data.status?.value || "Unknown",
+            startTime: first.time,
+            lastTime: last.time,
+            events: sorted.map((e) => ({
+                time: e.time,
+                status: e.data.status?.value || "",
+                subStatus: getDisplayValue(e.data.subStatus) || "",
+                level: e.data.level || ""
+            }))
+        });
+    });
+
+    return operations
+        .filter((o) => !status || o.status === status)
+        .sort((a, b) => b.lastTime.getTime() - a.lastTime.getTime());
+}
+
+function getDisplayValue(value: amon.MonitorManagementModels.LocalizableString | undefined): string | undefined {
+    return value?.localizedValue || value?.value;
+}
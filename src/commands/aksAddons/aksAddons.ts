@@ -0,0 +1,214 @@
+import * as vscode from 'vscode';
+import * as k8s from 'vscode-kubernetes-tools-api';
+import { IActionContext } from "@microsoft/vscode-azext-utils";
+import { getAksClusterTreeItem, getProvisioningState } from '../utils/clusters';
+import { getExtensionPath, longRunning } from '../utils/host';
+import { Errorable, failed } from '../utils/errorable';
+import AksClusterTreeItem from '../../tree/aksClusterTreeItem';
+import { createWebView, getRenderedContent, getResourceUri } from '../utils/webviews';
+import { trackOperation } from '../utils/operations';
+import {
+    AddonDefinition,
+    addonDefinitions,
+    AddonParameter,
+    AddonState,
+    beginSetAddonEnabled,
+    getClusterAddonStates,
+    listLogAnalyticsWorkspaces
+} from './helpers/addonhelper';
+
+export default async function aksAddons(
+    context: IActionContext,
+    target: any
+): Promise<void> {
+    const cloudExplorer = await k8s.extension.cloudExplorer.v1;
+
+    const cluster = getAksClusterTreeItem(target, cloudExplorer);
+    if (failed(cluster)) {
+        vscode.window.showErrorMessage(cluster.error);
+        return;
+    }
+
+    const extensionPath = getExtensionPath();
+    if (failed(extensionPath)) {
+        vscode.window.showErrorMessage(extensionPath.error);
+        return;
+    }
+
+    const clusterName = cluster.result.name;
+    const addons = await longRunning(`Loading ${clusterName} add-ons.`, () => getClusterAddonStates(cluster.result));
+    if (failed(addons)) {
+        vscode.window.showErrorMessage(addons.error);
+        return;
+    }
+
+    const webviewPanel = createWebView('AKS Add-ons', `AKS add-ons for: ${clusterName}`);
+    const webview = webviewPanel.webview;
+
+    // Add-on operations keep running (and report their outcome) if the panel is closed,
+    // so only touch the webview while it is still open.
+    let isDisposed = false;
+    webviewPanel.onDidDispose(() => { isDisposed = true; });
+
+    webview.onDidReceiveMessage(
+        async (message) => {
+            const result = await onReceiveMessage(cluster.result, message.command, message.id);
+            if (failed(result)) {
+                vscode.window.showErrorMessage(result.error);
+            } else if (result.result) {
+                vscode.window.showInformationMessage(result.result);
+            }
+
+            if (isDisposed) {
+                return;
+            }
+
+            // Re-render even if the operation was cancelled, to restore the buttons hidden while it ran.
+            const updatedAddons = await getClusterAddonStates(cluster.result);
+            if (failed(updatedAddons)) {
+                vscode.window.showErrorMessage(updatedAddons.error);
+                return;
+            }
+
+            if (!isDisposed) {
+                webview.html = getWebviewContent(clusterName, updatedAddons.result, extensionPath.result);
+            }
+        },
+        undefined
+    );
+
+    webview.html = getWebviewContent(clusterName, addons.result, extensionPath.result);
+}
+
+// Returns the message to show on success, or undefined if the user cancelled.
+async function onReceiveMessage(
+    cluster: AksClusterTreeItem,
+    command: string,
+    id: string
+): Promise<Errorable<string | undefined>> {
+    const definition = addonDefinitions.find((d) => d.id === id);
+    if (!definition) {
+        return { succeeded: false, error: `Unknown add-on ${id}.` };
+    }
+
+    switch (command) {
+        case 'enableAddon': {
+            const parameters = await getAddonParameters(cluster, definition);
+            if (failed(parameters)) {
+                return parameters;
+            }
+
+            if (!parameters.result) {
+                return { succeeded: true, result: undefined };
+            }
+
+            return await setAddonEnabled(cluster, definition, true, parameters.result);
+        }
+        case 'disableAddon': {
+            const answer = await vscode.window.showWarningMessage(
+                `Disable ${definition.displayName} on cluster ${cluster.name}?`,
+                { modal: true },
+                "Disable");
+
+            if (answer !== "Disable") {
+                return { succeeded: true, result: undefined };
+            }
+
+            return await setAddonEnabled(cluster, definition, false, {});
+        }
+        default:
+            return { succeeded: false, error: `Invalid ${command} triggered.` };
+    }
+}
+
+async function setAddonEnabled(
+    cluster: AksClusterTreeItem,
+    definition: AddonDefinition,
+    enabled: boolean,
+    parameters: { [key: string]: string }
+): Promise<Errorable<string>> {
+    const action = enabled ? "Enabling" : "Disabling";
+    const result = await trackOperation(
+        `${action} ${definition.displayName} on cluster ${cluster.name}.`,
+        (options) => beginSetAddonEnabled(cluster, definition, enabled, parameters, options),
+        async () => `Cluster is ${await getProvisioningState(cluster)}.`
+    );
+
+    if (failed(result)) {
+        return { succeeded: false, error: `Error ${action.toLowerCase()} ${definition.displayName} on cluster ${cluster.name}: ${result.error}` };
+    }
+
+    return { succeeded: true, result: `${definition.displayName} ${enabled ? "enabled" : "disabled"} on cluster ${cluster.name}.` };
+}
+
+// Prompts for the parameters required to enable the add-on, returning undefined if the user cancelled.
+async function getAddonParameters(
+    cluster: AksClusterTreeItem,
+    definition: AddonDefinition
+): Promise<Errorable<{ [key: string]: string } | undefined>> {
+    const parameters: { [key: string]: string } = {};
+    for (const parameter of definition.parameters) {
+        switch (parameter) {
+            case AddonParameter.LogAnalyticsWorkspace: {
+                const workspaces = await longRunning(`Listing Log Analytics workspaces.`, () => listLogAnalyticsWorkspaces(cluster));
+                if (failed(workspaces)) {
+                    return workspaces;
+                }
+
+                if (workspaces.result.length === 0) {
+                    return { succeeded: false, error: `${definition.displayName} requires a Log Analytics workspace, and there are none in subscription ${cluster.subscription.subscriptionDisplayName}.` };
+                }
+
+                const workspace = await vscode.window.showQuickPick(
+                    workspaces.result.map((w) => ({ label: w.name, description: w.location, id: w.id })),
+                    { placeHolder: `Log Analytics workspace for ${definition.displayName}` });
+
+                if (!workspace) {
+                    return { succeeded: true, result: undefined };
+                }
+
+                parameters[parameter] = workspace.id;
+                break;
+            }
+            case AddonParameter.SecretRotation: {
+                const rotation = await vscode.window.showQuickPick(
+                    [
+                        { label: "Disable secret rotation", value: "false" },
+                        { label: "Enable secret rotation", value: "true", description: "Periodically updates mounted secrets from Key Vault" }
+                    ],
+                    { placeHolder: `Secret rotation for ${definition.displayName}` });
+
+                if (!rotation) {
+                    return { succeeded: true, result: undefined };
+                }
+
+                parameters[parameter] = rotation.value;
+                break;
+            }
+        }
+    }
+
+    return { succeeded: true, result: parameters };
+}
+
+function getWebviewContent(
+    clusterName: string,
+    addons: AddonState[],
+    vscodeExtensionPath: string
+): string {
+    const styleUri = getResourceUri(vscodeExtensionPath, 'common', 'detector.css');
+    const templateUri = getResourceUri(vscodeExtensionPath, 'aksaddons', 'addons.html');
+    const data = {
+        cssuri: styleUri,
+        name: clusterName,
+        addons: addons.map((a) => ({
+            id: a.definition.id,
+            displayName: a.definition.displayName,
+            description: a.definition.description,
+            isEnabled: a.isEnabled,
+            configuration: Object.keys(a.configuration).map((key) => ({ key, value: a.configuration[key] }))
+        }))
+    };
+
+    return getRenderedContent(templateUri, data);
+}
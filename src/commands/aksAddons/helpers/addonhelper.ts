@@ -0,0 +1,146 @@
+import { ManagedCluster } from '@azure/arm-containerservice';
+import { ResourceManagementClient } from '@azure/arm-resources';
+import AksClusterTreeItem from '../../../tree/aksClusterTreeItem';
+import { listAll } from '../../../azure-api-utils';
+import { beginUpdateManagedCluster, getManagedCluster } from '../../utils/clusters';
+import { getCloudEnvironment } from '../../utils/clouds';
+import { Errorable, failed } from '../../utils/errorable';
+import { OperationPoller, OperationResponseOptions } from '../../utils/operations';
+
+export enum AddonParameter {
+    LogAnalyticsWorkspace = "logAnalyticsWorkspaceResourceID",
+    SecretRotation = "enableSecretRotation"
+}
+
+export interface AddonDefinition {
+    readonly id: string;
+    readonly displayName: string;
+    readonly description: string;
+    // Parameters that must be supplied when enabling the add-on.
+    readonly parameters: AddonParameter[];
+    isEnabled(cluster: ManagedCluster): boolean;
+    getConfiguration(cluster: ManagedCluster): { [key: string]: string };
+    setEnabled(cluster: ManagedCluster, enabled: boolean, parameters: { [key: string]: string }): void;
+}
+
+export interface AddonState {
+    readonly definition: AddonDefinition;
+    readonly isEnabled: boolean;
+    readonly configuration: { [key: string]: string };
+}
+
+export interface LogAnalyticsWorkspace {
+    readonly id: string;
+    readonly name: string;
+    readonly location: string;
+}
+
+// https://docs.microsoft.com/en-us/azure/aks/integrations
+export const addonDefinitions: AddonDefinition[] = [
+    addonProfile("monitoring", "omsagent", "Monitoring",
+        "Container insights collects logs and performance metrics of the cluster into a Log Analytics workspace.",
+        [AddonParameter.LogAnalyticsWorkspace]),
+    addonProfile("azure-policy", "azurepolicy", "Azure Policy",
+        "Applies and enforces Azure Policy definitions on the cluster using Gatekeeper.",
+        []),
+    addonProfile("azure-keyvault-secrets-provider", "azureKeyvaultSecretsProvider", "Azure Key Vault Secrets Provider",
+        "Mounts secrets, keys and certificates from Azure Key Vault into pods using the Secrets Store CSI Driver.",
+        [AddonParameter.SecretRotation]),
+    addonProfile("open-service-mesh", "openServiceMesh", "Open Service Mesh",
+        "Installs the Open Service Mesh service mesh on the cluster.",
+        []),
+    addonProfile("http_application_routing", "httpApplicationRouting", "HTTP Application Routing",
+        "Configures an ingress controller with automatic public DNS names. Not recommended for production clusters; use web application routing instead.",
+        []),
+    featureProfile("web_application_routing", "Web Application Routing",
+        "Installs a managed NGINX ingress controller that integrates with Azure DNS and Azure Key Vault.",
+        (cluster) => cluster.ingressProfile?.webAppRouting?.enabled,
+        (cluster, enabled) => {
+            cluster.ingressProfile = { ...cluster.ingressProfile, webAppRouting: { ...cluster.ingressProfile?.webAppRouting, enabled } };
+        }),
+    featureProfile("keda", "KEDA",
+        "Installs the Kubernetes Event-driven Autoscaler, which scales workloads based on external events.",
+        (cluster) => cluster.workloadAutoScalerProfile?.keda?.enabled,
+        (cluster, enabled) => {
+            cluster.workloadAutoScalerProfile = { ...cluster.workloadAutoScalerProfile, keda: { ...cluster.workloadAutoScalerProfile?.keda, enabled } };
+        })
+];
+
+export function getAddonStates(cluster: ManagedCluster): AddonState[] {
+    return addonDefinitions.map((definition) => ({
+        definition,
+        isEnabled: definition.isEnabled(cluster),
+        configuration: definition.getConfiguration(cluster)
+    }));
+}
+
+export async function getClusterAddonStates(target: AksClusterTreeItem): Promise<Errorable<AddonState[]>> {
+    const cluster = await getManagedCluster(target);
+    if (failed(cluster)) {
+        return { succeeded: false, error: `Error retrieving add-ons of ${target.name}: ${cluster.error}` };
+    }
+
+    return { succeeded: true, result: getAddonStates(cluster.result) };
+}
+
+export async function beginSetAddonEnabled(
+    target: AksClusterTreeItem,
+    definition: AddonDefinition,
+    enabled: boolean,
+    parameters: { [key: string]: string },
+    options: OperationResponseOptions
+): Promise<OperationPoller<ManagedCluster>> {
+    return await beginUpdateManagedCluster(target, (cluster) => definition.setEnabled(cluster, enabled, parameters), options);
+}
+
+export async function listLogAnalyticsWorkspaces(target: AksClusterTreeItem): Promise<Errorable<LogAnalyticsWorkspace[]>> {
+    try {
+        const client = new ResourceManagementClient(target.subscription.credentials, target.subscription.subscriptionId, { baseUri: getCloudEnvironment(target.subscription).resourceManagerEndpointUrl });
+        const workspaces = await listAll(client.resources, client.resources.list({ filter: "resourceType eq 'Microsoft.OperationalInsights/workspaces'" }));
+        return { succeeded: true, result: workspaces.map((w) => ({ id: w.id!, name: w.name!, location: w.location! })) };
+    } catch (ex) {
+        return { succeeded: false, error: `Error listing Log Analytics workspaces: ${ex}` };
+    }
+}
+
+function addonProfile(id: string, profileName: string, displayName: string, description: string, parameters: AddonParameter[]): AddonDefinition {
+    // The service doesn't preserve the casing of add-on profile names, so they are looked up case-insensitively.
+    const findProfileKey = (addonProfiles: ManagedCluster["addonProfiles"]) => Object.keys(addonProfiles || {}).find((k) => k.toLowerCase() === profileName.toLowerCase());
+    const getProfile = (cluster: ManagedCluster) => {
+        const key = findProfileKey(cluster.addonProfiles);
+        return key ? cluster.addonProfiles![key] : undefined;
+    };
+
+    return {
+        id,
+        displayName,
+        description,
+        parameters,
+        isEnabled: (cluster) => getProfile(cluster)?.enabled === true,
+        getConfiguration: (cluster) => getProfile(cluster)?.config || {},
+        setEnabled: (cluster, enabled, values) => {
+            const addonProfiles = cluster.addonProfiles || {};
+            const key = findProfileKey(addonProfiles) || profileName;
+            addonProfiles[key] = enabled ? { enabled, config: values } : { enabled };
+            cluster.addonProfiles = addonProfiles;
+        }
+    };
+}
+
+function featureProfile(
+    id: string,
+    displayName: string,
+    description: string,
+    getEnabled: (cluster: ManagedCluster) => boolean | undefined,
+    setEnabled: (cluster: ManagedCluster, enabled: boolean) => void
+): AddonDefinition {
+    return {
+        id,
+        displayName,
+        description,
+        parameters: [],
+        isEnabled: (cluster) => getEnabled(cluster) === true,
+        getConfiguration: () => ({}),
+        setEnabled: (cluster, enabled) => setEnabled(cluster, enabled)
+    };
+}
@@ -0,0 +1,179 @@
+import * as vscode from 'vscode';
+import * as k8s from 'vscode-kubernetes-tools-api';
+import { IActionContext } from "@microsoft/vscode-azext-utils";
+import { getAksClusterTreeItem, getManagedCluster } from '../utils/clusters';
+import { longRunning } from '../utils/host';
+import { Errorable, failed } from '../utils/errorable';
+import AksClusterTreeItem from '../../tree/aksClusterTreeItem';
+import {
+    createAcrPullRoleAssignment,
+    deleteRoleAssignment,
+    describePullPermission,
+    getKubeletIdentityObjectId,
+    getRegistryAccess,
+    listContainerRegistries,
+    listRoleAssignments,
+    RegistryAccess
+} from './helpers/acrhelper';
+
+interface ClusterRegistryAccess {
+    readonly kubeletIdentityObjectId: string;
+    readonly registries: RegistryAccess[];
+}
+
+export async function aksAttachAcr(
+    context: IActionContext,
+    target: any
+): Promise<void> {
+    const cluster = await getClusterTarget(target);
+    if (!cluster) {
+        return;
+    }
+
+    const access = await longRunning(`Checking container registry access of ${cluster.name}.`, () => getClusterRegistryAccess(cluster));
+    if (failed(access)) {
+        vscode.window.showErrorMessage(access.error);
+        return;
+    }
+
+    const attachable = access.result.registries.filter((r) => r.permissions.length === 0);
+    if (attachable.length === 0) {
+        vscode.window.showInformationMessage(`Cluster ${cluster.name} can already pull from all container registries in the subscription.`);
+        return;
+    }
+
+    const selected = await vscode.window.showQuickPick(
+        attachable.map((r) => ({ label: r.registry.name, description: r.registry.resourceGroup, access: r })),
+        { placeHolder: `Container registry for ${cluster.name} to pull images from` });
+
+    if (!selected) {
+        return;
+    }
+
+    const registry = selected.access.registry;
+    const result = await longRunning(`Attaching ${registry.name} to ${cluster.name}.`,
+        () => createAcrPullRoleAssignment(cluster, registry, access.result.kubeletIdentityObjectId));
+    if (failed(result)) {
+        vscode.window.showErrorMessage(result.error);
+        return;
+    }
+
+    vscode.window.showInformationMessage(`Cluster ${cluster.name} can now pull images from ${registry.name}. The role assignment can take a few minutes to take effect.`);
+}
+
+export async function aksDetachAcr(
+    context: IActionContext,
+    target: any
+): Promise<void> {
+    const cluster = await getClusterTarget(target);
+    if (!cluster) {
+        return;
+    }
+
+    const access = await longRunning(`Checking container registry access of ${cluster.name}.`, () => getClusterRegistryAccess(cluster));
+    if (failed(access)) {
+        vscode.window.showErrorMessage(access.error);
+        return;
+    }
+
+    // Only the AcrPull assignments on registries are removed: broader roles were not granted by attaching.
+    const attached = access.result.registries.filter((r) => r.permissions.some((p) => p.isAttachment));
+    if (attached.length === 0) {
+        vscode.window.showInformationMessage(`Cluster ${cluster.name} has no attached container registries.`);
+        return;
+    }
+
+    const selected = await vscode.window.showQuickPick(
+        attached.map((r) => ({ label: r.registry.name, description: r.registry.resourceGroup, access: r })),
+        { placeHolder: `Container registry to detach from ${cluster.name}` });
+
+    if (!selected) {
+        return;
+    }
+
+    const registry = selected.access.registry;
+    const answer = await vscode.window.showWarningMessage(
+        `Detach ${registry.name} from ${cluster.name}? Nodes will no longer be able to pull images from it.`,
+        { modal: true },
+        "Detach");
+
+    if (answer !== "Detach") {
+        return;
+    }
+
+    for (const permission of selected.access.permissions.filter((p) => p.isAttachment)) {
+        const result = await longRunning(`Detaching ${registry.name} from ${cluster.name}.`, () => deleteRoleAssignment(cluster, registry, permission.roleAssignment));
+        if (failed(result)) {
+            vscode.window.showErrorMessage(result.error);
+            return;
+        }
+    }
+
+    const remaining = selected.access.permissions.filter((p) => !p.isAttachment);
+    if (remaining.length > 0) {
+        vscode.window.showWarningMessage(`Detached ${registry.name} from ${cluster.name}, but the cluster can still pull from it through: ${remaining.map((p) => describePullPermission(p, registry)).join(", ")}.`);
+    } else {
+        vscode.window.showInformationMessage(`Detached ${registry.name} from ${cluster.name}.`);
+    }
+}
+
+export async function aksShowAcrAccess(
+    context: IActionContext,
+    target: any
+): Promise<void> {
+    const cluster = await getClusterTarget(target);
+    if (!cluster) {
+        return;
+    }
+
+    const access = await longRunning(`Checking container registry access of ${cluster.name}.`, () => getClusterRegistryAccess(cluster));
+    if (failed(access)) {
+        vscode.window.showErrorMessage(access.error);
+        return;
+    }
+
+    const pullable = access.result.registries.filter((r) => r.permissions.length > 0);
+    if (pullable.length === 0) {
+        vscode.window.showInformationMessage(`Cluster ${cluster.name} can't pull from any of the ${access.result.registries.length} container registries in the subscription.`);
+        return;
+    }
+
+    const descriptions = pullable.map((r) => `${r.registry.name} (${r.permissions.map((p) => describePullPermission(p, r.registry)).join(", ")})`);
+    vscode.window.showInformationMessage(`Cluster ${cluster.name} can pull from ${pullable.length} of ${access.result.registries.length} container registries in the subscription: ${descriptions.join("; ")}.`);
+}
+
+async function getClusterTarget(target: any): Promise<AksClusterTreeItem | undefined> {
+    const cloudExplorer = await k8s.extension.cloudExplorer.v1;
+
+    const cluster = getAksClusterTreeItem(target, cloudExplorer);
+    if (failed(cluster)) {
+        vscode.window.showErrorMessage(cluster.error);
+        return undefined;
+    }
+
+    return cluster.result;
+}
+
+async function getClusterRegistryAccess(cluster: AksClusterTreeItem): Promise<Errorable<ClusterRegistryAccess>> {
+    const managedCluster = await getManagedCluster(cluster);
+    if (failed(managedCluster)) {
+        return managedCluster;
+    }
+
+    const kubeletIdentityObjectId = getKubeletIdentityObjectId(managedCluster.result);
+    if (!kubeletIdentityObjectId) {
+        return { succeeded: false, error: `Cluster ${cluster.name} has no kubelet managed identity. Container registries can only be attached to clusters that use managed identity.` };
+    }
+
+    const registries = await listContainerRegistries(cluster);
+    if (failed(registries)) {
+        return registries;
+    }
+
+    const roleAssignments = await listRoleAssignments(cluster, kubeletIdentityObjectId);
+    if (failed(roleAssignments)) {
+        return roleAssignments;
+    }
+
+    return { succeeded: true, result: { kubeletIdentityObjectId, registries: getRegistryAccess(registries.result, roleAssignments.result) } };
+}
@@ -0,0 +1,163 @@
+import { randomUUID } from 'crypto';
+import { ManagedCluster } from '@azure/arm-containerservice';
+import { ResourceManagementClient } from '@azure/arm-resources';
+import AksClusterTreeItem from '../../../tree/aksClusterTreeItem';
+import { listAll, parseResource } from '../../../azure-api-utils';
+import { getNextLinkPath, sendArmRequest } from '../../utils/arm';
+import { getCloudEnvironment } from '../../utils/clouds';
+import { Errorable, failed } from '../../utils/errorable';
+
+const authorizationApiVersion = "2022-04-01";
+
+// The built-in role that attaching a registry assigns, as `az aks update --attach-acr` does.
+export const acrPullRoleDefinitionId = "7f951dda-4ed3-4680-a7ca-43fe172d538d";
+
+// Built-in roles that include pulling images from a registry.
+const pullRoleNames: { [roleDefinitionId: string]: string } = {
+    [acrPullRoleDefinitionId]: "AcrPull",
+    "8311e382-0749-4cb8-b61a-304f252e45ec": "AcrPush",
+    "acdd72a7-3385-48ef-bd42-f606fba81ae7": "Reader",
+    "b24988ac-6180-42a0-ab88-20f7382dd24c": "Contributor",
+    "8e3af657-a8ff-443c-a75c-2fe8c4bcd635": "Owner"
+};
+
+export interface ContainerRegistry {
+    readonly id: string;
+    readonly name: string;
+    readonly resourceGroup: string;
+}
+
+export interface RoleAssignment {
+    readonly id: string;
+    readonly scope: string;
+    readonly roleDefinitionId: string;
+    readonly principalId: string;
+}
+
+export interface RegistryPullPermission {
+    readonly roleName: string;
+    readonly roleAssignment: RoleAssignment;
+    // Whether this is an AcrPull assignment on the registry itself, as created by attaching it.
+    readonly isAttachment: boolean;
+}
+
+export interface RegistryAccess {
+    readonly registry: ContainerRegistry;
+    readonly permissions: RegistryPullPermission[];
+}
+
+// Nodes pull images using the kubelet identity, which is a managed identity for clusters that use managed identity.
+export function getKubeletIdentityObjectId(cluster: ManagedCluster): string | undefined {
+    return cluster.identityProfile?.kubeletidentity?.objectId;
+}
+
+// Whether a role assignment at `scope` applies to the resource, i.e. the scope is the resource or one of its ancestors.
+export function isScopeOf(scope: string, resourceId: string): boolean {
+    const normalizedScope = scope.toLowerCase().replace(/\/+$/, "");
+    const normalizedId = resourceId.toLowerCase();
+    return normalizedId === normalizedScope || normalizedId.startsWith(`${normalizedScope}/`);
+}
+
+export function getRegistryAccess(registries: ContainerRegistry[], roleAssignments: RoleAssignment[]): RegistryAccess[] {
+    return registries.map((registry) => ({
+        registry,
+        permissions: roleAssignments
+            .filter((a) => isScopeOf(a.scope, registry.id))
+            .map((a) => ({ roleAssignment: a, roleName: pullRoleNames[getRoleDefinitionGuid(a.roleDefinitionId)] }))
+            .filter((p) => p.roleName !== undefined)
+            .map((p) => ({
+                ...p,
+                isAttachment: p.roleName === pullRoleNames[acrPullRoleDefinitionId] && p.roleAssignment.scope.toLowerCase() === registry.id.toLowerCase()
+            }))
+    }));
+}
+
+export function describePullPermission(permission: RegistryPullPermission, registry: ContainerRegistry): string {
+    if (permission.roleAssignment.scope.toLowerCase() === registry.id.toLowerCase()) {
+        return permission.roleName;
+    }
+
+    const { resourceGroupName } = parseResource(permission.roleAssignment.scope);
+    const scope = resourceGroupName && permission.roleAssignment.scope.toLowerCase().endsWith(`/resourcegroups/${resourceGroupName.toLowerCase()}`) ?
+        `resource group ${resourceGroupName}` :
+        "subscription";
+    return `${permission.roleName} on ${scope}`;
+}
+
+export async function listContainerRegistries(target: AksClusterTreeItem): Promise<Errorable<ContainerRegistry[]>> {
+    try {
+        const client = new ResourceManagementClient(target.subscription.credentials, target.subscription.subscriptionId, { baseUri: getCloudEnvironment(target.subscription).resourceManagerEndpointUrl });
+        const registries = await listAll(client.resources, client.resources.list({ filter: "resourceType eq 'Microsoft.ContainerRegistry/registries'" }));
+        return {
+            succeeded: true,
+            result: registries
+                .map((r) => ({ id: r.id!, name: r.name!, resourceGroup: parseResource(r.id!).resourceGroupName || "" }))
+                .sort((a, b) => a.name.localeCompare(b.name))
+        };
+    } catch (ex) {
+        return { succeeded: false, error: `Error listing container registries: ${ex}` };
+    }
+}
+
+// Role assignments are managed with raw requests, since this extension doesn't depend on the authorization SDK.
+export async function listRoleAssignments(target: AksClusterTreeItem, principalId: string): Promise<Errorable<RoleAssignment[]>> {
+    const assignments: RoleAssignment[] = [];
+    let path: string | undefined = `/subscriptions/${target.subscription.subscriptionId}/providers/Microsoft.Authorization/roleAssignments?$filter=${encodeURIComponent(`principalId eq '${principalId}'`)}`;
+    while (path) {
+        const response: Errorable<any> = await sendArmRequest(target.subscription, "GET", path, authorizationApiVersion);
+        if (failed(response)) {
+            return { succeeded: false, error: `Error listing role assignments of the kubelet identity: ${response.error}` };
+        }
+
+        assignments.push(...(response.result?.value || []).map((a: any) => ({
+            id: a.id,
+            scope: a.properties?.scope || "",
+            roleDefinitionId: a.properties?.roleDefinitionId || "",
+            principalId: a.properties?.principalId || ""
+        })));
+
+        const nextLink: string | undefined = response.result?.nextLink;
+        path = nextLink ? getNextLinkPath(nextLink) : undefined;
+    }
+
+    return { succeeded: true, result: assignments };
+}
+
+export async function createAcrPullRoleAssignment(
+    target: AksClusterTreeItem,
+    registry: ContainerRegistry,
+    principalId: string
+): Promise<Errorable<void>> {
+    const body = {
+        properties: {
+            roleDefinitionId: `/subscriptions/${target.subscription.subscriptionId}/providers/Microsoft.Authorization/roleDefinitions/${acrPullRoleDefinitionId}`,
+            principalId,
+            principalType: "ServicePrincipal"
+        }
+    };
+
+    const path = `${registry.id}/providers/Microsoft.Authorization/roleAssignments/${randomUUID()}`;
+    const response = await sendArmRequest(target.subscription, "PUT", path, authorizationApiVersion, body);
+    if (failed(response)) {
+        return { succeeded: false, error: `Error assigning the AcrPull role on ${registry.name}: ${response.error}` };
+    }
+
+    return { succeeded: true, result: undefined };
+}
+
+export async function deleteRoleAssignment(
+    target: AksClusterTreeItem,
+    registry: ContainerRegistry,
+    roleAssignment: RoleAssignment
+): Promise<Errorable<void>> {
+    const response = await sendArmRequest(target.subscription, "DELETE", roleAssignment.id, authorizationApiVersion);
+    if (failed(response)) {
+        return { succeeded: false, error: `Error removing the AcrPull role on ${registry.name}: ${response.error}` };
+    }
+
+    return { succeeded: true, result: undefined };
+}
+
+function getRoleDefinitionGuid(roleDefinitionId: string): string {
+    return roleDefinitionId.split("/").pop()!.toLowerCase();
+}
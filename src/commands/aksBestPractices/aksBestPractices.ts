@@ -3,10 +3,11 @@ import * as k8s from 'vscode-kubernetes-tools-api';
 import { IActionContext } from "@microsoft/vscode-azext-utils";
 import { getAksClusterTreeItem } from '../utils/clusters';
 import { getExtensionPath, longRunning }  from '../utils/host';
-import { AppLensARMResponse, getDetectorInfo, getDetectorListData, getPortalUrl } from '../utils/detectors';
+import { AppLensARMResponse, getDetectorInfo, getDetectorListData, getPortalUrl, showDetectorResults } from '../utils/detectors';
 import { failed } from '../utils/errorable';
 import AksClusterTreeItem from '../../tree/aksClusterTreeItem';
-import { createWebView, getRenderedContent, getResourceUri } from '../utils/webviews';
+import { getRenderedContent, getResourceUri } from '../utils/webviews';
+import { DetectorHtmlExportData } from '../utils/detectorexport';
 
 export default async function aksBestPracticesDiagnostics(
     _context: IActionContext,
@@ -48,16 +49,18 @@ async function loadDetector(
           return;
         }
 
-        const webview = createWebView('AKS Diagnostics', `AKS diagnostics view for: ${clustername}`).webview;
-        webview.html = getWebviewContent(detectorInfo.result, detectorMap.result, extensionPath);
+        await showDetectorResults(cloudTarget, detectorInfo.result, detectorMap.result, extensionPath,
+          (exportData) => getWebviewContent(cloudTarget, detectorInfo.result, detectorMap.result, extensionPath, exportData));
       }
     );
 }
 
 function getWebviewContent(
+  cloudTarget: AksClusterTreeItem,
   clusterdata: AppLensARMResponse,
   detectorMap: Map<string, AppLensARMResponse>,
-  vscodeExtensionPath: string
+  vscodeExtensionPath: string,
+  exportData?: DetectorHtmlExportData
   ): string {
     const webviewClusterData = clusterdata?.properties;
     const styleUri = getResourceUri(vscodeExtensionPath, 'common', 'detector.css');
@@ -66,8 +69,9 @@ function getWebviewContent(
       cssuri: styleUri,
       name: webviewClusterData.metadata.name,
       description: webviewClusterData.metadata.description,
-      portalUrl: getPortalUrl(clusterdata),
-      detectorData: detectorMap
+      portalUrl: getPortalUrl(cloudTarget, clusterdata),
+      detectorData: detectorMap,
+      ...exportData
     };
 
     return getRenderedContent(templateUri, data);
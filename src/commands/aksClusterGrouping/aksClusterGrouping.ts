@@ -0,0 +1,128 @@
+import * as vscode from 'vscode';
+import * as k8s from 'vscode-kubernetes-tools-api';
+import { IActionContext } from "@microsoft/vscode-azext-utils";
+import { getAksClusterSubscriptionItem } from '../utils/clusters';
+import { failed } from '../utils/errorable';
+import { getClusterGroupingConfig, setClusterGroupingConfig } from '../utils/config';
+import { getClusterFilter, setClusterFilter } from '../utils/state';
+import { ClusterFilter, ClusterGrouping, describeClusterFilter, formatTagFilter, isClusterFilterEmpty, parseTagFilter } from '../utils/clustergrouping';
+import SubscriptionTreeItem from '../../tree/subscriptionTreeItem';
+
+const groupingOptions = [
+    { label: "None", grouping: ClusterGrouping.None },
+    { label: "Resource Group", grouping: ClusterGrouping.ResourceGroup },
+    { label: "Location", grouping: ClusterGrouping.Location },
+    { label: "Tag...", grouping: ClusterGrouping.Tag }
+];
+
+export async function aksGroupClusters(
+    context: IActionContext,
+    target: any
+): Promise<void> {
+    const cloudExplorer = await k8s.extension.cloudExplorer.v1;
+
+    const subscription = getAksClusterSubscriptionItem(target, cloudExplorer);
+    if (failed(subscription)) {
+        vscode.window.showErrorMessage(subscription.error);
+        return;
+    }
+
+    const current = getClusterGroupingConfig();
+    const selected = await vscode.window.showQuickPick(
+        groupingOptions.map((o) => ({ ...o, description: o.grouping === current.grouping ? "(current)" : undefined })),
+        { placeHolder: "Group clusters by" });
+
+    if (!selected) {
+        return;
+    }
+
+    let tagName = current.tagName;
+    if (selected.grouping === ClusterGrouping.Tag) {
+        const input = await vscode.window.showInputBox({
+            prompt: "Name of the tag whose values group the clusters",
+            value: tagName,
+            validateInput: (value) => value.trim() ? undefined : "Enter a tag name."
+        });
+
+        if (input === undefined) {
+            return;
+        }
+
+        tagName = input.trim();
+    }
+
+    await setClusterGroupingConfig({ grouping: selected.grouping, tagName });
+    await refreshSubscriptions(subscription.result, context);
+}
+
+export async function aksFilterClusters(
+    context: IActionContext,
+    target: any
+): Promise<void> {
+    const cloudExplorer = await k8s.extension.cloudExplorer.v1;
+
+    const subscription = getAksClusterSubscriptionItem(target, cloudExplorer);
+    if (failed(subscription)) {
+        vscode.window.showErrorMessage(subscription.error);
+        return;
+    }
+
+    const filter = getClusterFilter();
+    const options = [
+        { label: "Filter by Name...", description: filter.namePattern, action: filterByName },
+        { label: "Filter by Tag...", description: filter.tagName && formatTagFilter(filter.tagName, filter.tagValue), action: filterByTag }
+    ];
+
+    if (!isClusterFilterEmpty(filter)) {
+        options.push({ label: "Clear Filter", description: describeClusterFilter(filter), action: async () => ({}) });
+    }
+
+    const selected = await vscode.window.showQuickPick(options, { placeHolder: "Filter the clusters shown in this workspace" });
+    if (!selected) {
+        return;
+    }
+
+    const updatedFilter = await selected.action(filter);
+    if (!updatedFilter) {
+        return;
+    }
+
+    await setClusterFilter(updatedFilter);
+    await refreshSubscriptions(subscription.result, context);
+}
+
+async function filterByName(filter: ClusterFilter): Promise<ClusterFilter | undefined> {
+    const input = await vscode.window.showInputBox({
+        prompt: "Part of the cluster name, or a pattern using * and ? wildcards. Leave empty to show all names.",
+        value: filter.namePattern
+    });
+
+    if (input === undefined) {
+        return undefined;
+    }
+
+    return { ...filter, namePattern: input.trim() || undefined };
+}
+
+async function filterByTag(filter: ClusterFilter): Promise<ClusterFilter | undefined> {
+    const input = await vscode.window.showInputBox({
+        prompt: "A tag name, or name=value to also match its value. Leave empty to show clusters with any tags.",
+        value: filter.tagName && formatTagFilter(filter.tagName, filter.tagValue),
+        validateInput: (value) => !value.trim() || parseTagFilter(value).tagName ? undefined : "Enter a tag name before the '='."
+    });
+
+    if (input === undefined) {
+        return undefined;
+    }
+
+    if (!input.trim()) {
+        return { namePattern: filter.namePattern };
+    }
+
+    return { namePattern: filter.namePattern, ...parseTagFilter(input) };
+}
+
+// Grouping and filtering apply to the clusters of all subscriptions, so refresh them all via the account node.
+async function refreshSubscriptions(subscription: SubscriptionTreeItem, context: IActionContext): Promise<void> {
+    await (subscription.parent || subscription).refresh(context);
+}
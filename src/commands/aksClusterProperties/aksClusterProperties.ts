@@ -1,11 +1,21 @@
 import * as vscode from 'vscode';
 import * as k8s from 'vscode-kubernetes-tools-api';
 import { IActionContext } from "@microsoft/vscode-azext-utils";
-import { ClusterARMResponse, determineClusterState, getAksClusterTreeItem, getClusterProperties, startCluster, stopCluster } from '../utils/clusters';
+import { ClusterARMResponse, determineClusterState, getAksClusterTreeItem, getClusterProperties, getProvisioningState, startCluster, stopCluster } from '../utils/clusters';
 import { getExtensionPath, longRunning }  from '../utils/host';
 import { Errorable, failed } from '../utils/errorable';
 import AksClusterTreeItem from '../../tree/aksClusterTreeItem';
-import { createWebView, delay, getRenderedContent, getResourceUri } from '../utils/webviews';
+import { createWebView, getRenderedContent, getResourceUri } from '../utils/webviews';
+import { trackOperation } from '../utils/operations';
+import {
+  autoUpgradeChannels,
+  beginUpdateUpgradeChannels,
+  getUpgradeChannels,
+  nodeOSUpgradeChannels,
+  UpgradeChannel,
+  UpgradeChannels,
+  validateUpgradeChannels
+} from './helpers/upgradechannelhelper';
 
 export default async function aksClusterProperties(
     _context: IActionContext,
@@ -61,12 +71,34 @@ async function loadWebViewClusterProperties(
         const webviewPanel = createWebView('AKS Cluster Properties', `AKS properties view for: ${clustername}`);
         const webview = webviewPanel.webview;
 
+        // The start/stop operations keep running (and report their outcome) if the panel is closed,
+        // so only touch the webview while it is still open.
+        let isDisposed = false;
+        webviewPanel.onDidDispose(() => { isDisposed = true; });
+
+        let currentClusterState = clusterStateResult;
+        const onStateChange = (state: string) => {
+          currentClusterState = state;
+          if (!isDisposed) {
+            webview.postMessage({ command: 'clusterState', state: state });
+          }
+        };
+
         webview.onDidReceiveMessage(
           async (message) => {
-              const clusterData = await onReceivePerformOperations(cloudTarget, clustername, message.command, clusterStateResult);
+              const operationResult = await onReceivePerformOperations(cloudTarget, clustername, message, currentClusterState, onStateChange);
+              if (failed(operationResult)) {
+                vscode.window.showErrorMessage(operationResult.error);
+              } else {
+                vscode.window.showInformationMessage(operationResult.result);
+              }
+
+              if (isDisposed) {
+                return;
+              }
 
+              const clusterData = await getClusterData(cloudTarget);
               if (failed(clusterData)) {
-                webviewPanel.dispose();
                 vscode.window.showErrorMessage(clusterData.error);
                 return;
               }
@@ -77,7 +109,10 @@ async function loadWebViewClusterProperties(
                 return;
               }
 
-              webview.html = getWebviewContent(clusterData.result, clusterState.result, extensionPath.result);
+              currentClusterState = clusterState.result;
+              if (!isDisposed) {
+                webview.html = getWebviewContent(clusterData.result, clusterState.result, extensionPath.result);
+              }
           },
           undefined
       );
@@ -102,33 +137,42 @@ async function getClusterData(
 async function onReceivePerformOperations(
   cloudTarget: AksClusterTreeItem,
   clusterName: string,
-  eventName: string,
-  clusterState: string
-): Promise<Errorable<ClusterARMResponse>> {
-
-    let startStopClusterInfo: Errorable<string>;
-    switch (eventName) {
+  message: any,
+  clusterState: string,
+  onStateChange: (state: string) => void
+): Promise<Errorable<string>> {
+    switch (message.command) {
       case 'startCluster':
-            startStopClusterInfo = await longRunning(`Starting cluster.`, () => startCluster(cloudTarget, clusterName, clusterState) );
-            break;
+            return await startCluster(cloudTarget, clusterName, clusterState, onStateChange);
       case 'stopCluster':
-            startStopClusterInfo = await longRunning(`Stopping cluster.`, () => stopCluster(cloudTarget, clusterName, clusterState));
-            break;
+            return await stopCluster(cloudTarget, clusterName, clusterState, onStateChange);
+      case 'updateUpgradeChannels':
+            return await updateUpgradeChannels(cloudTarget, { upgradeChannel: message.upgradeChannel, nodeOSUpgradeChannel: message.nodeOSUpgradeChannel });
       default:
-            throw vscode.window.showErrorMessage(`Invalid ${eventName} triggered.`);
+            return { succeeded: false, error: `Invalid ${message.command} triggered.` };
     }
+}
 
-    if (failed(startStopClusterInfo)) {
-      return { succeeded: false, error: startStopClusterInfo.error };
+async function updateUpgradeChannels(
+  cloudTarget: AksClusterTreeItem,
+  channels: UpgradeChannels
+): Promise<Errorable<string>> {
+    const error = validateUpgradeChannels(channels);
+    if (error) {
+      return { succeeded: false, error };
     }
-    // This delay is deliberate for previous action to kick-in,
-    // without delay if we call load data it is consistent to get old data from RP.
-    const clusterData = await longRunning(`Getting cluster data.`, async () => { await delay(10000); return getClusterData(cloudTarget); });
-    if (failed(clusterData)) {
-      return { succeeded: false, error: clusterData.error };
+
+    const result = await trackOperation(
+      `Updating upgrade channels of cluster ${cloudTarget.name}.`,
+      (options) => beginUpdateUpgradeChannels(cloudTarget, channels, options),
+      async () => `Cluster is ${await getProvisioningState(cloudTarget)}.`
+    );
+
+    if (failed(result)) {
+      return { succeeded: false, error: `Error updating upgrade channels of cluster ${cloudTarget.name}: ${result.error}` };
     }
-    return { succeeded: true, result: clusterData.result };
 
+    return { succeeded: true, result: `Cluster ${cloudTarget.name} now uses the ${channels.upgradeChannel} auto-upgrade channel and the ${channels.nodeOSUpgradeChannel} node OS upgrade channel.` };
 }
 
 function getWebviewContent(
@@ -139,12 +183,19 @@ function getWebviewContent(
       const webviewClusterData = clusterdata?.properties;
       const styleUri = getResourceUri(vscodeExtensionPath, 'common', 'detector.css');
       const templateUri = getResourceUri(vscodeExtensionPath, 'aksclusterproperties', 'clusterproperties.html');
+      const upgradeChannels = getUpgradeChannels(webviewClusterData);
       const data = {
         cssuri: styleUri,
         name: clusterdata.name,
         clusterData: webviewClusterData,
-        clusterState: clusterState
+        clusterState: clusterState,
+        autoUpgradeChannels: getChannelOptions(autoUpgradeChannels, upgradeChannels.upgradeChannel),
+        nodeOSUpgradeChannels: getChannelOptions(nodeOSUpgradeChannels, upgradeChannels.nodeOSUpgradeChannel)
       };
 
       return getRenderedContent(templateUri, data);
   }
+
+function getChannelOptions(channels: UpgradeChannel[], currentChannel: string) {
+    return channels.map((c) => ({ ...c, selected: c.value === currentChannel }));
+}
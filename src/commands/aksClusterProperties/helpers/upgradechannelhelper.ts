@@ -0,0 +1,67 @@
+import { ManagedCluster } from '@azure/arm-containerservice';
+import AksClusterTreeItem from '../../../tree/aksClusterTreeItem';
+import { beginUpdateManagedCluster } from '../../utils/clusters';
+import { OperationPoller, OperationResponseOptions } from '../../utils/operations';
+
+export interface UpgradeChannel {
+    readonly value: string;
+    readonly description: string;
+}
+
+export interface UpgradeChannels {
+    readonly upgradeChannel: string;
+    readonly nodeOSUpgradeChannel: string;
+}
+
+// https://docs.microsoft.com/en-us/azure/aks/auto-upgrade-cluster
+export const autoUpgradeChannels: UpgradeChannel[] = [
+    { value: "none", description: "Disables auto-upgrades and keeps the cluster at its current version of Kubernetes." },
+    { value: "patch", description: "Automatically upgrades to the latest supported patch version when it becomes available, keeping the minor version the same." },
+    { value: "stable", description: "Automatically upgrades to the latest supported patch release on minor version N-1, where N is the latest supported minor version." },
+    { value: "rapid", description: "Automatically upgrades to the latest supported patch release on the latest supported minor version." },
+    { value: "node-image", description: "Automatically upgrades the node image to the latest version available." }
+];
+
+// https://docs.microsoft.com/en-us/azure/aks/auto-upgrade-node-image
+export const nodeOSUpgradeChannels: UpgradeChannel[] = [
+    { value: "None", description: "No attempt is made to update the nodes' operating system; security updates are not applied automatically." },
+    { value: "Unmanaged", description: "OS updates are applied automatically through the OS's built-in patching infrastructure; reboots are not managed by AKS." },
+    { value: "NodeImage", description: "AKS updates the nodes with a newly patched node image, weekly, respecting maintenance windows and surge settings." }
+];
+
+export function getUpgradeChannels(clusterProperties: any): UpgradeChannels {
+    return {
+        upgradeChannel: clusterProperties?.autoUpgradeProfile?.upgradeChannel || "none",
+        nodeOSUpgradeChannel: clusterProperties?.autoUpgradeProfile?.nodeOSUpgradeChannel || "Unmanaged"
+    };
+}
+
+export function validateUpgradeChannels(channels: UpgradeChannels): string | undefined {
+    if (!autoUpgradeChannels.some((c) => c.value === channels.upgradeChannel)) {
+        return `${channels.upgradeChannel} is not a valid auto-upgrade channel.`;
+    }
+
+    if (!nodeOSUpgradeChannels.some((c) => c.value === channels.nodeOSUpgradeChannel)) {
+        return `${channels.nodeOSUpgradeChannel} is not a valid node OS upgrade channel.`;
+    }
+
+    if (channels.upgradeChannel === "node-image" && channels.nodeOSUpgradeChannel !== "NodeImage") {
+        return "The node-image auto-upgrade channel requires the NodeImage node OS upgrade channel.";
+    }
+
+    return undefined;
+}
+
+export async function beginUpdateUpgradeChannels(
+    target: AksClusterTreeItem,
+    channels: UpgradeChannels,
+    options: OperationResponseOptions
+): Promise<OperationPoller<ManagedCluster>> {
+    return await beginUpdateManagedCluster(target, (cluster) => {
+        cluster.autoUpgradeProfile = {
+            ...cluster.autoUpgradeProfile,
+            upgradeChannel: channels.upgradeChannel,
+            nodeOSUpgradeChannel: channels.nodeOSUpgradeChannel
+        };
+    }, options);
+}
@@ -0,0 +1,104 @@
+import * as vscode from 'vscode';
+import * as k8s from 'vscode-kubernetes-tools-api';
+import { IActionContext } from "@microsoft/vscode-azext-utils";
+import { getAksClusterTreeItem, getClusterProperties } from '../utils/clusters';
+import { longRunning } from '../utils/host';
+import { Errorable, failed } from '../utils/errorable';
+import AksClusterTreeItem from '../../tree/aksClusterTreeItem';
+import SubscriptionTreeItem from '../../tree/subscriptionTreeItem';
+import { getComparableConfiguration, getDifferentSections } from './helpers/comparehelper';
+
+export default async function aksCompareClusters(
+    context: IActionContext,
+    target: any
+): Promise<void> {
+    const cloudExplorer = await k8s.extension.cloudExplorer.v1;
+
+    const cluster = getAksClusterTreeItem(target, cloudExplorer);
+    if (failed(cluster)) {
+        vscode.window.showErrorMessage(cluster.error);
+        return;
+    }
+
+    const otherClusters = await longRunning(`Listing clusters to compare with ${cluster.result.name}.`,
+        () => getOtherClusters(cluster.result, context)
+    );
+
+    if (failed(otherClusters)) {
+        vscode.window.showErrorMessage(otherClusters.error);
+        return;
+    }
+
+    if (otherClusters.result.length === 0) {
+        vscode.window.showInformationMessage(`There are no other clusters to compare with ${cluster.result.name}.`);
+        return;
+    }
+
+    const selected = await vscode.window.showQuickPick(
+        otherClusters.result.map((c) => ({
+            label: c.name,
+            description: `${c.subscription.subscriptionDisplayName} / ${c.resourceGroupName}`,
+            cluster: c
+        })),
+        { placeHolder: `Cluster to compare with ${cluster.result.name}`, matchOnDescription: true });
+
+    if (!selected) {
+        return;
+    }
+
+    await compareClusters(cluster.result, selected.cluster);
+}
+
+async function compareClusters(left: AksClusterTreeItem, right: AksClusterTreeItem): Promise<void> {
+    const [leftData, rightData] = await longRunning(`Loading properties of ${left.name} and ${right.name}.`,
+        () => Promise.all([getClusterProperties(left, left.name), getClusterProperties(right, right.name)])
+    );
+
+    if (failed(leftData)) {
+        vscode.window.showErrorMessage(leftData.error);
+        return;
+    }
+
+    if (failed(rightData)) {
+        vscode.window.showErrorMessage(rightData.error);
+        return;
+    }
+
+    const leftConfiguration = getComparableConfiguration(leftData.result);
+    const rightConfiguration = getComparableConfiguration(rightData.result);
+
+    const leftDoc = await vscode.workspace.openTextDocument({ content: JSON.stringify(leftConfiguration, null, 4), language: "json" });
+    const rightDoc = await vscode.workspace.openTextDocument({ content: JSON.stringify(rightConfiguration, null, 4), language: "json" });
+    await vscode.commands.executeCommand("vscode.diff", leftDoc.uri, rightDoc.uri, `${left.name} ↔ ${right.name}`);
+
+    const differences = getDifferentSections(leftConfiguration, rightConfiguration);
+    if (differences.length === 0) {
+        vscode.window.showInformationMessage(`Clusters ${left.name} and ${right.name} have the same configuration.`);
+    } else {
+        vscode.window.showInformationMessage(`Clusters ${left.name} and ${right.name} differ in: ${differences.map((d) => d.title).join(", ")}.`);
+    }
+}
+
+async function getOtherClusters(
+    cluster: AksClusterTreeItem,
+    context: IActionContext
+): Promise<Errorable<AksClusterTreeItem[]>> {
+    // The cluster's subscription's parent is the Azure account node listing all subscriptions in the tree.
+    const account = cluster.subscriptionTreeItem?.parent;
+    if (!account) {
+        return { succeeded: false, error: `Unable to find the subscriptions of cluster ${cluster.name}.` };
+    }
+
+    try {
+        const subscriptions = (await account.getCachedChildren(context)).filter((s) => s instanceof SubscriptionTreeItem);
+        const clusters: AksClusterTreeItem[] = [];
+        for (const subscription of subscriptions) {
+            const children = await (<SubscriptionTreeItem>subscription).getClusterTreeItems(context);
+            clusters.push(...children.filter((c) => c.armId !== cluster.armId));
+        }
+
+        return { succeeded: true, result: clusters };
+    } catch (ex) {
+        return { succeeded: false, error: `Error listing clusters: ${ex}` };
+    }
+}
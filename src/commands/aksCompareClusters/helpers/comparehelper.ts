@@ -0,0 +1,84 @@
+import { ClusterARMResponse } from '../../utils/clusters';
+import { getClusterTemplateResource } from '../../aksExportTemplate/helpers/templatehelper';
+
+export interface ComparisonSection {
+    readonly key: string;
+    readonly title: string;
+}
+
+export const comparisonSections: ComparisonSection[] = [
+    { key: "general", title: "General" },
+    { key: "version", title: "Kubernetes version" },
+    { key: "networking", title: "Networking" },
+    { key: "addOns", title: "Add-ons" },
+    { key: "identity", title: "Identity and security" },
+    { key: "nodePools", title: "Node pools" },
+    { key: "other", title: "Other settings" }
+];
+
+// Cluster properties that belong to each section. Properties not listed here are compared under "other".
+const sectionProperties: { [section: string]: string[] } = {
+    version: ["kubernetesVersion", "autoUpgradeProfile"],
+    networking: ["networkProfile", "apiServerAccessProfile", "privateLinkResources", "publicNetworkAccess"],
+    addOns: ["addonProfiles", "ingressProfile", "workloadAutoScalerProfile", "autoScalerProfile", "storageProfile"],
+    identity: ["aadProfile", "enableRBAC", "disableLocalAccounts", "oidcIssuerProfile", "securityProfile", "podIdentityProfile", "servicePrincipalProfile"]
+};
+
+// Returns the cluster configuration without runtime state, grouped by section, with agent pools keyed by
+// name and the keys within each section sorted, so that two clusters can be compared line by line.
+export function getComparableConfiguration(cluster: ClusterARMResponse): any {
+    const resource = getClusterTemplateResource(cluster);
+    const { agentPoolProfiles, ...properties } = resource.properties;
+
+    const sections: any = {
+        general: { location: resource.location, sku: resource.sku, tags: resource.tags }
+    };
+
+    for (const section of Object.keys(sectionProperties)) {
+        sections[section] = {};
+        for (const property of sectionProperties[section]) {
+            sections[section][property] = properties[property];
+            delete properties[property];
+        }
+    }
+
+    sections.identity.identity = resource.identity;
+
+    sections.nodePools = {};
+    for (const agentPool of agentPoolProfiles || []) {
+        const { name, ...settings } = agentPool;
+        sections.nodePools[name] = settings;
+    }
+
+    sections.other = properties;
+
+    const result: any = {};
+    for (const section of comparisonSections) {
+        result[section.key] = sortKeys(sections[section.key]);
+    }
+
+    return result;
+}
+
+export function getDifferentSections(left: any, right: any): ComparisonSection[] {
+    return comparisonSections.filter((s) => JSON.stringify(left[s.key]) !== JSON.stringify(right[s.key]));
+}
+
+function sortKeys(value: any): any {
+    if (Array.isArray(value)) {
+        return value.map(sortKeys);
+    }
+
+    if (value === null || typeof value !== "object") {
+        return value;
+    }
+
+    const result: any = {};
+    for (const key of Object.keys(value).sort()) {
+        if (value[key] !== undefined) {
+            result[key] = sortKeys(value[key]);
+        }
+    }
+
+    return result;
+}
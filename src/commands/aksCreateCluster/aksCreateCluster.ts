@@ -0,0 +1,266 @@
+import * as vscode from 'vscode';
+import * as k8s from 'vscode-kubernetes-tools-api';
+import { IActionContext, ISubscriptionContext } from "@microsoft/vscode-azext-utils";
+import { ManagedCluster, NetworkPlugin } from '@azure/arm-containerservice';
+import { getAksClusterSubscriptionItem, getSubscriptionContainerClient } from '../utils/clusters';
+import { longRunning } from '../utils/host';
+import { Errorable, failed } from '../utils/errorable';
+import { trackOperation } from '../utils/operations';
+import { validateNodeCount } from '../aksNodePools/helpers/nodepoolhelper';
+import {
+    ClusterPreset,
+    createResourceGroup,
+    getAksLocations,
+    getKubernetesVersions,
+    getManagedClusterSpec,
+    getResourceGroupNames,
+    validateClusterName,
+    validateResourceGroupName
+} from './helpers/createclusterhelper';
+
+const defaultVmSize = "Standard_DS2_v2";
+
+interface ResourceGroupSelection {
+    readonly name: string;
+    readonly isNew: boolean;
+}
+
+export default async function aksCreateCluster(
+    context: IActionContext,
+    target: any
+): Promise<void> {
+    const cloudExplorer = await k8s.extension.cloudExplorer.v1;
+
+    const subscriptionItem = getAksClusterSubscriptionItem(target, cloudExplorer);
+    if (failed(subscriptionItem)) {
+        vscode.window.showErrorMessage(subscriptionItem.error);
+        return;
+    }
+
+    const subscription = subscriptionItem.result.subscription;
+
+    const resourceGroup = await pickResourceGroup(subscription);
+    if (!resourceGroup) {
+        return;
+    }
+
+    const name = await vscode.window.showInputBox({
+        prompt: "Name of the new AKS cluster",
+        validateInput: validateClusterName,
+        ignoreFocusOut: true
+    });
+
+    if (name === undefined) {
+        return;
+    }
+
+    const location = await pickLocation(subscription);
+    if (!location) {
+        return;
+    }
+
+    const kubernetesVersion = await pickKubernetesVersion(subscription, location);
+    if (!kubernetesVersion) {
+        return;
+    }
+
+    const vmSize = await vscode.window.showInputBox({
+        prompt: "VM size of the nodes in the system node pool",
+        value: defaultVmSize,
+        validateInput: (value) => value.trim().length > 0 ? undefined : "VM size is required.",
+        ignoreFocusOut: true
+    });
+
+    if (vmSize === undefined) {
+        return;
+    }
+
+    const nodeCount = await vscode.window.showInputBox({
+        prompt: "Number of nodes in the system node pool",
+        value: "1",
+        validateInput: (value) => validateNodeCount(value, "System"),
+        ignoreFocusOut: true
+    });
+
+    if (nodeCount === undefined) {
+        return;
+    }
+
+    const networkPlugin = await vscode.window.showQuickPick(
+        [
+            { label: "kubenet", description: "Nodes get VNet IP addresses; pods use an overlay network", plugin: "kubenet" as NetworkPlugin },
+            { label: "azure", description: "Azure CNI: pods get VNet IP addresses", plugin: "azure" as NetworkPlugin }
+        ],
+        {
+            placeHolder: "Network plugin",
+            ignoreFocusOut: true
+        });
+
+    if (!networkPlugin) {
+        return;
+    }
+
+    const preset = await vscode.window.showQuickPick(
+        [
+            { label: "Dev/Test", description: "Free tier, fixed node count, no automatic upgrades", preset: ClusterPreset.DevTest },
+            { label: "Production", description: "Uptime SLA, cluster autoscaler, automatic upgrades on the stable channel", preset: ClusterPreset.Production }
+        ],
+        {
+            placeHolder: "Cluster configuration preset",
+            ignoreFocusOut: true
+        });
+
+    if (!preset) {
+        return;
+    }
+
+    const spec = getManagedClusterSpec({
+        name,
+        location,
+        kubernetesVersion,
+        vmSize: vmSize.trim(),
+        nodeCount: Number(nodeCount),
+        networkPlugin: networkPlugin.plugin,
+        preset: preset.preset
+    });
+
+    const reviewedSpec = await reviewClusterSpec(name, spec);
+    if (failed(reviewedSpec)) {
+        vscode.window.showErrorMessage(reviewedSpec.error);
+        return;
+    }
+
+    if (!reviewedSpec.result) {
+        return;
+    }
+
+    if (resourceGroup.isNew) {
+        const resourceGroupResult = await longRunning(`Creating resource group ${resourceGroup.name}.`,
+            () => createResourceGroup(subscription, resourceGroup.name, location)
+        );
+
+        if (failed(resourceGroupResult)) {
+            vscode.window.showErrorMessage(resourceGroupResult.error);
+            return;
+        }
+    }
+
+    const containerClient = getSubscriptionContainerClient(subscription);
+    const result = await trackOperation(
+        `Creating cluster ${name}.`,
+        (options) => containerClient.managedClusters.beginCreateOrUpdate(resourceGroup.name, name, reviewedSpec.result!, options),
+        async () => `Cluster is ${(await containerClient.managedClusters.get(resourceGroup.name, name)).provisioningState}.`
+    );
+
+    if (failed(result)) {
+        vscode.window.showErrorMessage(`Error creating cluster ${name}: ${result.error}`);
+        return;
+    }
+
+    vscode.window.showInformationMessage(`Cluster ${name} created in resource group ${resourceGroup.name}.`);
+    await subscriptionItem.result.refresh(context);
+}
+
+async function pickResourceGroup(
+    subscription: ISubscriptionContext
+): Promise<ResourceGroupSelection | undefined> {
+    const resourceGroupNames = await longRunning(`Loading resource groups.`, () => getResourceGroupNames(subscription));
+    if (failed(resourceGroupNames)) {
+        vscode.window.showErrorMessage(resourceGroupNames.error);
+        return undefined;
+    }
+
+    const newResourceGroupItem = { label: "$(plus) Create new resource group", isNew: true };
+    const selected = await vscode.window.showQuickPick(
+        [newResourceGroupItem, ...resourceGroupNames.result.map((rg) => ({ label: rg, isNew: false }))],
+        {
+            placeHolder: "Resource group for the new cluster",
+            ignoreFocusOut: true
+        });
+
+    if (!selected) {
+        return undefined;
+    }
+
+    if (!selected.isNew) {
+        return { name: selected.label, isNew: false };
+    }
+
+    const name = await vscode.window.showInputBox({
+        prompt: "Name of the new resource group (it will be created in the cluster's location)",
+        validateInput: (value) => resourceGroupNames.result.some((rg) => rg.toLowerCase() === value.toLowerCase()) ?
+            `Resource group ${value} already exists.` :
+            validateResourceGroupName(value),
+        ignoreFocusOut: true
+    });
+
+    return name === undefined ? undefined : { name, isNew: true };
+}
+
+async function pickLocation(
+    subscription: ISubscriptionContext
+): Promise<string | undefined> {
+    const locations = await longRunning(`Loading AKS locations.`, () => getAksLocations(subscription));
+    if (failed(locations)) {
+        vscode.window.showErrorMessage(locations.error);
+        return undefined;
+    }
+
+    const selected = await vscode.window.showQuickPick(
+        locations.result.map((l) => ({ label: l.displayName, description: l.name, location: l.name })),
+        {
+            placeHolder: "Location of the new cluster",
+            ignoreFocusOut: true
+        });
+
+    return selected?.location;
+}
+
+async function pickKubernetesVersion(
+    subscription: ISubscriptionContext,
+    location: string
+): Promise<string | undefined> {
+    const versions = await longRunning(`Loading Kubernetes versions for ${location}.`, () => getKubernetesVersions(subscription, location));
+    if (failed(versions)) {
+        vscode.window.showErrorMessage(versions.error);
+        return undefined;
+    }
+
+    // Offer the default version first, as the portal and CLI do.
+    const sortedVersions = [...versions.result.filter((v) => v.isDefault), ...versions.result.filter((v) => !v.isDefault)];
+    const selected = await vscode.window.showQuickPick(
+        sortedVersions.map((v) => ({ label: v.version, description: v.isDefault ? "default" : v.isPreview ? "preview" : undefined })),
+        {
+            placeHolder: "Kubernetes version of the new cluster",
+            ignoreFocusOut: true
+        });
+
+    return selected?.label;
+}
+
+async function reviewClusterSpec(
+    clusterName: string,
+    spec: ManagedCluster
+): Promise<Errorable<ManagedCluster | undefined>> {
+    const doc = await vscode.workspace.openTextDocument({
+        content: JSON.stringify(spec, null, 4),
+        language: "json"
+    });
+
+    await vscode.window.showTextDocument(doc);
+
+    const answer = await vscode.window.showInformationMessage(
+        `Review the specification for cluster ${clusterName} (you can edit it before creating the cluster).`,
+        "Create Cluster",
+        "Cancel");
+
+    if (answer !== "Create Cluster") {
+        return { succeeded: true, result: undefined };
+    }
+
+    try {
+        return { succeeded: true, result: JSON.parse(doc.getText()) };
+    } catch (e) {
+        return { succeeded: false, error: `Cluster specification is not valid JSON: ${e}` };
+    }
+}
@@ -0,0 +1,167 @@
+import { KubernetesVersion as KubernetesMinorVersion, ManagedCluster, NetworkPlugin } from '@azure/arm-containerservice';
+import { ResourceManagementClient } from '@azure/arm-resources';
+import { ISubscriptionContext } from '@microsoft/vscode-azext-utils';
+import * as semver from 'semver';
+import { listAll } from '../../../azure-api-utils';
+import { Errorable } from '../../utils/errorable';
+import { getCloudEnvironment } from '../../utils/clouds';
+import { getSubscriptionContainerClient } from '../../utils/clusters';
+
+export enum ClusterPreset {
+    DevTest = "devTest",
+    Production = "production"
+}
+
+export interface ClusterCreationOptions {
+    readonly name: string;
+    readonly location: string;
+    readonly kubernetesVersion: string;
+    readonly vmSize: string;
+    readonly nodeCount: number;
+    readonly networkPlugin: NetworkPlugin;
+    readonly preset: ClusterPreset;
+}
+
+export interface AksLocation {
+    readonly name: string;
+    readonly displayName: string;
+}
+
+export interface KubernetesVersion {
+    readonly version: string;
+    readonly isDefault: boolean;
+    readonly isPreview: boolean;
+}
+
+export function validateClusterName(name: string): string | undefined {
+    // https://docs.microsoft.com/en-us/azure/azure-resource-manager/management/resource-name-rules#microsoftcontainerservice
+    if (!/^[a-zA-Z0-9]([a-zA-Z0-9_-]{0,61}[a-zA-Z0-9])?$/.test(name)) {
+        return "Cluster names must be 1-63 characters long, start and end with a letter or number, and contain only letters, numbers, underscores and hyphens.";
+    }
+
+    return undefined;
+}
+
+export function validateResourceGroupName(name: string): string | undefined {
+    // https://docs.microsoft.com/en-us/azure/azure-resource-manager/management/resource-name-rules#microsoftresources
+    if (!/^[-\w\._\(\)]{1,90}$/.test(name) || name.endsWith(".")) {
+        return "Resource group names must be 1-90 characters long, contain only letters, numbers, underscores, hyphens, periods and parentheses, and not end with a period.";
+    }
+
+    return undefined;
+}
+
+export function getManagedClusterSpec(options: ClusterCreationOptions): ManagedCluster {
+    const isProduction = options.preset === ClusterPreset.Production;
+
+    // DNS prefixes allow at most 54 characters, and no underscores.
+    const dnsPrefix = `${options.name.replace(/_/g, "-").substring(0, 50)}-dns`;
+
+    return {
+        location: options.location,
+        kubernetesVersion: options.kubernetesVersion,
+        dnsPrefix,
+        identity: { type: "SystemAssigned" },
+        sku: { name: "Base", tier: isProduction ? "Standard" : "Free" },
+        agentPoolProfiles: [
+            {
+                name: "nodepool1",
+                mode: "System",
+                osType: "Linux",
+                type: "VirtualMachineScaleSets",
+                vmSize: options.vmSize,
+                count: options.nodeCount,
+                // Production clusters scale out under load, up to three times the initial size.
+                enableAutoScaling: isProduction ? true : undefined,
+                minCount: isProduction ? options.nodeCount : undefined,
+                maxCount: isProduction ? options.nodeCount * 3 : undefined
+            }
+        ],
+        networkProfile: {
+            networkPlugin: options.networkPlugin,
+            loadBalancerSku: "standard"
+        },
+        autoUpgradeProfile: {
+            upgradeChannel: isProduction ? "stable" : "none"
+        }
+    };
+}
+
+export async function getResourceGroupNames(
+    subscription: ISubscriptionContext
+): Promise<Errorable<string[]>> {
+    try {
+        const client = getResourceManagementClient(subscription);
+        const resourceGroups = await listAll(client.resourceGroups, client.resourceGroups.list());
+
+        return { succeeded: true, result: resourceGroups.map((rg) => rg.name!).sort() };
+    } catch (ex) {
+        return { succeeded: false, error: `Error listing resource groups: ${ex}` };
+    }
+}
+
+export async function createResourceGroup(
+    subscription: ISubscriptionContext,
+    resourceGroupName: string,
+    location: string
+): Promise<Errorable<void>> {
+    try {
+        const client = getResourceManagementClient(subscription);
+        await client.resourceGroups.createOrUpdate(resourceGroupName, { location });
+
+        return { succeeded: true, result: undefined };
+    } catch (ex) {
+        return { succeeded: false, error: `Error creating resource group ${resourceGroupName}: ${ex}` };
+    }
+}
+
+export async function getAksLocations(
+    subscription: ISubscriptionContext
+): Promise<Errorable<AksLocation[]>> {
+    try {
+        const client = getResourceManagementClient(subscription);
+        const provider = await client.providers.get("Microsoft.ContainerService");
+        const managedClusterType = provider.resourceTypes?.find((t) => t.resourceType === "managedClusters");
+        const displayNames = managedClusterType?.locations || [];
+
+        // The provider only lists display names (e.g. "East US"), from which the location name is derived.
+        const locations = displayNames.map((displayName) => ({ name: displayName.toLowerCase().replace(/\s/g, ""), displayName }));
+        return { succeeded: true, result: locations.sort((a, b) => a.displayName.localeCompare(b.displayName)) };
+    } catch (ex) {
+        return { succeeded: false, error: `Error listing AKS locations: ${ex}` };
+    }
+}
+
+export async function getKubernetesVersions(
+    subscription: ISubscriptionContext,
+    location: string
+): Promise<Errorable<KubernetesVersion[]>> {
+    try {
+        const containerClient = getSubscriptionContainerClient(subscription);
+        const versions = await containerClient.managedClusters.listKubernetesVersions(location);
+
+        return { succeeded: true, result: getPatchVersions(versions.values || []) };
+    } catch (ex) {
+        return { succeeded: false, error: `Error listing Kubernetes versions in ${location}: ${ex}` };
+    }
+}
+
+// The service lists minor versions with their patch versions. The latest patch of the default minor version
+// is the one that is offered as the default.
+export function getPatchVersions(minorVersions: KubernetesMinorVersion[]): KubernetesVersion[] {
+    const versions: KubernetesVersion[] = [];
+    for (const minorVersion of minorVersions) {
+        const patchVersions = Object.keys(minorVersion.patchVersions || {}).sort(semver.rcompare);
+        versions.push(...patchVersions.map((version, i) => ({
+            version,
+            isDefault: (minorVersion.isDefault || false) && i === 0,
+            isPreview: minorVersion.isPreview || false
+        })));
+    }
+
+    return versions.sort((a, b) => semver.rcompare(a.version, b.version));
+}
+
+function getResourceManagementClient(subscription: ISubscriptionContext): ResourceManagementClient {
+    return new ResourceManagementClient(subscription.credentials, subscription.subscriptionId, { baseUri: getCloudEnvironment(subscription).resourceManagerEndpointUrl });
+}
@@ -3,6 +3,7 @@ import * as k8s from 'vscode-kubernetes-tools-api';
 import { IActionContext } from "@microsoft/vscode-azext-utils";
 import { getAksClusterSubscriptionItem } from '../utils/clusters';
 import { failed } from '../utils/errorable';
+import { getCloudEnvironment } from '../utils/clouds';
 
 export default async function aksCreateClusterNavToAzurePortal(
     _context: IActionContext,
@@ -16,5 +17,6 @@ export default async function aksCreateClusterNavToAzurePortal(
       return;
     }
 
-    vscode.env.openExternal(vscode.Uri.parse(`https://portal.azure.com/#create/microsoft.aks`));
+    const environment = getCloudEnvironment(cluster.result.subscription);
+    vscode.env.openExternal(vscode.Uri.parse(`${environment.portalUrl}/#create/microsoft.aks`));
 }
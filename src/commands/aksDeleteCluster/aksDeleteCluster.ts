@@ -0,0 +1,65 @@
+import * as vscode from 'vscode';
+import * as k8s from 'vscode-kubernetes-tools-api';
+import { IActionContext } from "@microsoft/vscode-azext-utils";
+import { deleteCluster, getAksClusterTreeItem, getManagedCluster } from '../utils/clusters';
+import { longRunning } from '../utils/host';
+import { failed } from '../utils/errorable';
+import { deleteClusterDiagnosticsHistory } from '../utils/diagnosticshistory';
+
+export default async function aksDeleteCluster(
+    context: IActionContext,
+    target: any
+): Promise<void> {
+    const cloudExplorer = await k8s.extension.cloudExplorer.v1;
+
+    const cluster = getAksClusterTreeItem(target, cloudExplorer);
+    if (failed(cluster)) {
+        vscode.window.showErrorMessage(cluster.error);
+        return;
+    }
+
+    const clusterName = cluster.result.name;
+    const managedCluster = await longRunning(`Loading ${clusterName} cluster details.`, () => getManagedCluster(cluster.result));
+    if (failed(managedCluster)) {
+        vscode.window.showErrorMessage(managedCluster.error);
+        return;
+    }
+
+    const answer = await vscode.window.showWarningMessage(
+        `Delete cluster ${clusterName}?`,
+        {
+            modal: true,
+            detail: [
+                `The following will be permanently deleted:`,
+                `- Cluster ${clusterName} in resource group ${cluster.result.resourceGroupName}`,
+                `- Node resource group ${managedCluster.result.nodeResourceGroup} and all resources in it`
+            ].join('\n')
+        },
+        "Continue");
+
+    if (answer !== "Continue") {
+        return;
+    }
+
+    const confirmation = await vscode.window.showInputBox({
+        prompt: `Type the cluster name (${clusterName}) to confirm deletion`,
+        validateInput: (value) => value === clusterName ? undefined : `Enter ${clusterName} to confirm.`,
+        ignoreFocusOut: true
+    });
+
+    if (confirmation !== clusterName) {
+        return;
+    }
+
+    const result = await deleteCluster(cluster.result);
+    if (failed(result)) {
+        vscode.window.showErrorMessage(result.error);
+        return;
+    }
+
+    vscode.window.showInformationMessage(`Cluster ${clusterName} deleted.`);
+    await deleteClusterDiagnosticsHistory(cluster.result.armId);
+
+    // Refreshing the subscription re-enumerates its clusters, which removes the deleted cluster from the tree.
+    await cluster.result.subscriptionTreeItem?.refresh(context);
+}
@@ -0,0 +1,122 @@
+import * as vscode from 'vscode';
+import * as k8s from 'vscode-kubernetes-tools-api';
+import { IActionContext } from "@microsoft/vscode-azext-utils";
+import { getAksClusterTreeItem } from '../utils/clusters';
+import { getExtensionPath } from '../utils/host';
+import { failed } from '../utils/errorable';
+import { compareDiagnosticsRuns, DiagnosticsRun, getClusterDiagnosticsRuns } from '../utils/diagnosticshistory';
+import AksClusterTreeItem from '../../tree/aksClusterTreeItem';
+import { createWebView, getRenderedContent, getResourceUri } from '../utils/webviews';
+import { countStatuses } from '../aksRunAllDiagnostics/helpers/alldiagnosticshelper';
+
+export default async function aksDiagnosticsHistory(
+    context: IActionContext,
+    target: any
+): Promise<void> {
+    const cloudExplorer = await k8s.extension.cloudExplorer.v1;
+
+    const cluster = getAksClusterTreeItem(target, cloudExplorer);
+    if (failed(cluster)) {
+        vscode.window.showErrorMessage(cluster.error);
+        return;
+    }
+
+    const extensionPath = getExtensionPath();
+    if (failed(extensionPath)) {
+        vscode.window.showErrorMessage(extensionPath.error);
+        return;
+    }
+
+    const clusterName = cluster.result.name;
+    if ((await getRuns(cluster.result)).length === 0) {
+        vscode.window.showInformationMessage(`No diagnostics results of ${clusterName} have been recorded yet. Run AKS Diagnostics on the cluster to record them.`);
+        return;
+    }
+
+    const webview = createWebView('AKS Diagnostics History', `AKS diagnostics history for: ${clusterName}`).webview;
+
+    webview.onDidReceiveMessage(
+        async (message) => {
+            if (message.command === "showHistory") {
+                webview.html = getHistoryContent(clusterName, await getRuns(cluster.result), extensionPath.result);
+                return;
+            }
+
+            if (message.command !== "compareRuns") {
+                return;
+            }
+
+            const runIds: string[] = message.runIds || [];
+            const runs = (await getRuns(cluster.result)).filter((r) => runIds.includes(r.id));
+            if (runs.length !== 2 || runs[0].detectorName !== runs[1].detectorName) {
+                vscode.window.showWarningMessage("Select two runs of the same diagnostics to compare.");
+                return;
+            }
+
+            const [current, previous] = runs.sort((a, b) => b.timestamp - a.timestamp);
+            webview.html = getComparisonContent(clusterName, previous, current, extensionPath.result);
+        },
+        undefined
+    );
+
+    webview.html = getHistoryContent(clusterName, await getRuns(cluster.result), extensionPath.result);
+}
+
+async function getRuns(cluster: AksClusterTreeItem): Promise<DiagnosticsRun[]> {
+    return await getClusterDiagnosticsRuns(cluster.armId);
+}
+
+function getHistoryContent(
+    clusterName: string,
+    runs: DiagnosticsRun[],
+    vscodeExtensionPath: string
+): string {
+    const displayNames = runs.map((r) => r.displayName).filter((name, i, all) => all.indexOf(name) === i);
+    const styleUri = getResourceUri(vscodeExtensionPath, 'common', 'detector.css');
+    const templateUri = getResourceUri(vscodeExtensionPath, 'aksdiagnosticshistory', 'diagnosticshistory.html');
+    const data = {
+        cssuri: styleUri,
+        name: clusterName,
+        isComparison: false,
+        groups: displayNames.map((displayName) => ({
+            displayName,
+            runs: runs.filter((r) => r.displayName === displayName).map((r) => ({
+                id: r.id,
+                time: formatTime(r.timestamp),
+                status: r.status,
+                counts: countStatuses(r.detectors.map((d) => d.status))
+            }))
+        }))
+    };
+
+    return getRenderedContent(templateUri, data);
+}
+
+function getComparisonContent(
+    clusterName: string,
+    previous: DiagnosticsRun,
+    current: DiagnosticsRun,
+    vscodeExtensionPath: string
+): string {
+    const styleUri = getResourceUri(vscodeExtensionPath, 'common', 'detector.css');
+    const templateUri = getResourceUri(vscodeExtensionPath, 'aksdiagnosticshistory', 'diagnosticshistory.html');
+    const data = {
+        cssuri: styleUri,
+        name: clusterName,
+        isComparison: true,
+        displayName: current.displayName,
+        previousTime: formatTime(previous.timestamp),
+        currentTime: formatTime(current.timestamp),
+        changes: compareDiagnosticsRuns(previous, current).map((c) => ({
+            ...c,
+            previousStatus: c.previousStatus || "Not run",
+            currentStatus: c.currentStatus || "Not run"
+        }))
+    };
+
+    return getRenderedContent(templateUri, data);
+}
+
+function formatTime(timestamp: number): string {
+    return `${new Date(timestamp).toISOString().substring(0, 19).replace("T", " ")} UTC`;
+}
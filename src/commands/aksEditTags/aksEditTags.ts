@@ -0,0 +1,101 @@
+import * as vscode from 'vscode';
+import * as k8s from 'vscode-kubernetes-tools-api';
+import { IActionContext } from "@microsoft/vscode-azext-utils";
+import { getAksClusterTreeItem, getContainerClient, getManagedCluster } from '../utils/clusters';
+import { setInventoryClusterTags } from '../utils/clusterinventory';
+import { longRunning } from '../utils/host';
+import { failed } from '../utils/errorable';
+import { fs } from '../utils/fs';
+import { trackOperation } from '../utils/operations';
+import AksClusterTreeItem from '../../tree/aksClusterTreeItem';
+import { parseTags, Tags } from './helpers/tagshelper';
+const tmp = require('tmp');
+
+export default async function aksEditTags(
+    context: IActionContext,
+    target: any
+): Promise<void> {
+    const cloudExplorer = await k8s.extension.cloudExplorer.v1;
+
+    const cluster = getAksClusterTreeItem(target, cloudExplorer);
+    if (failed(cluster)) {
+        vscode.window.showErrorMessage(cluster.error);
+        return;
+    }
+
+    // Updating tags replaces all of them, so start from the cluster's current tags rather than
+    // the tree's copy, which can be out of date.
+    const managedCluster = await longRunning(`Getting tags of cluster ${cluster.result.name}.`, () => getManagedCluster(cluster.result));
+    if (failed(managedCluster)) {
+        vscode.window.showErrorMessage(managedCluster.error);
+        return;
+    }
+
+    const tags = await editTags(cluster.result, managedCluster.result.tags || {});
+    if (!tags) {
+        return;
+    }
+
+    const containerClient = getContainerClient(cluster.result);
+    const result = await trackOperation(
+        `Updating tags of cluster ${cluster.result.name}.`,
+        (options) => containerClient.managedClusters.beginUpdateTags(cluster.result.resourceGroupName, cluster.result.name, { tags }, options),
+        async () => `Cluster is ${(await containerClient.managedClusters.get(cluster.result.resourceGroupName, cluster.result.name)).provisioningState}.`
+    );
+
+    if (failed(result)) {
+        vscode.window.showErrorMessage(`Error updating tags of cluster ${cluster.result.name}: ${result.error}`);
+        return;
+    }
+
+    // Update the inventory too, so that clusters grouped or filtered by tag move accordingly. Grouping and
+    // filtering apply to all subscriptions, so the tree is refreshed from the account node.
+    cluster.result.resource.tags = result.result.tags;
+    await setInventoryClusterTags(cluster.result.subscription.subscriptionId, cluster.result.armId, result.result.tags);
+    const subscriptionTreeItem = cluster.result.subscriptionTreeItem;
+    await (subscriptionTreeItem?.parent || subscriptionTreeItem)?.refresh(context);
+
+    vscode.window.showInformationMessage(`Tags of cluster ${cluster.result.name} updated. Further changes to the tags file are not applied; run Edit Tags again to change them.`);
+}
+
+// Opens the tags in an editor and resolves with them once they are saved and valid,
+// or with undefined if the editor is closed first.
+async function editTags(cluster: AksClusterTreeItem, tags: Tags): Promise<Tags | undefined> {
+    // A file on disk (rather than an untitled document) lets the user save with Ctrl+S as usual.
+    const tagsFile = tmp.fileSync({ prefix: `${cluster.name}-tags-`, postfix: ".json" });
+    await fs.writeFile(tagsFile.name, JSON.stringify(tags, null, 4));
+
+    const doc = await vscode.workspace.openTextDocument(tagsFile.name);
+    await vscode.window.showTextDocument(doc);
+    vscode.window.showInformationMessage(`Edit the tags of cluster ${cluster.name} and save the file to apply them to the cluster. Close the file without saving to cancel.`);
+
+    return await new Promise<Tags | undefined>((resolve) => {
+        const listeners = [
+            vscode.workspace.onDidSaveTextDocument((savedDoc) => {
+                if (savedDoc.uri.toString() !== doc.uri.toString()) {
+                    return;
+                }
+
+                const savedTags = parseTags(savedDoc.getText());
+                if (failed(savedTags)) {
+                    // Keep listening, so that the user can fix the tags and save again.
+                    vscode.window.showErrorMessage(`Invalid tags: ${savedTags.error} Fix the tags and save again to apply them.`);
+                    return;
+                }
+
+                finish(savedTags.result);
+            }),
+            vscode.workspace.onDidCloseTextDocument((closedDoc) => {
+                if (closedDoc.uri.toString() === doc.uri.toString()) {
+                    finish(undefined);
+                }
+            })
+        ];
+
+        function finish(result: Tags | undefined) {
+            listeners.forEach((l) => l.dispose());
+            tagsFile.removeCallback();
+            resolve(result);
+        }
+    });
+}
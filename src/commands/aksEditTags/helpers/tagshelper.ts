@@ -0,0 +1,80 @@
+import { Errorable } from '../../utils/errorable';
+
+// https://docs.microsoft.com/en-us/azure/azure-resource-manager/management/tag-resources#limitations
+const maxTagCount = 50;
+const maxTagNameLength = 512;
+const maxTagValueLength = 256;
+const forbiddenTagNameCharacters = ["<", ">", "%", "&", "\\", "?", "/"];
+
+export interface Tags {
+    [name: string]: string;
+}
+
+export function parseTags(text: string): Errorable<Tags> {
+    let value: any;
+    try {
+        value = JSON.parse(text);
+    } catch (e) {
+        return { succeeded: false, error: `Tags are not valid JSON: ${e}` };
+    }
+
+    const error = validateTags(value);
+    return error ? { succeeded: false, error } : { succeeded: true, result: value };
+}
+
+export function validateTags(tags: any): string | undefined {
+    if (tags === null || typeof tags !== "object" || Array.isArray(tags)) {
+        return "Tags must be a JSON object of tag names and values.";
+    }
+
+    const names = Object.keys(tags);
+    if (names.length > maxTagCount) {
+        return `A resource can have at most ${maxTagCount} tags, but ${names.length} are specified.`;
+    }
+
+    const lowerCaseNames: string[] = [];
+    for (const name of names) {
+        const error = validateTagName(name) || validateTagValue(name, tags[name]);
+        if (error) {
+            return error;
+        }
+
+        // Tag names are case-insensitive.
+        if (lowerCaseNames.includes(name.toLowerCase())) {
+            return `Tag name ${name} is specified more than once (tag names are case-insensitive).`;
+        }
+
+        lowerCaseNames.push(name.toLowerCase());
+    }
+
+    return undefined;
+}
+
+function validateTagName(name: string): string | undefined {
+    if (name.trim().length === 0) {
+        return "Tag names cannot be empty.";
+    }
+
+    if (name.length > maxTagNameLength) {
+        return `Tag name ${name.substring(0, 20)}... is longer than ${maxTagNameLength} characters.`;
+    }
+
+    const forbiddenCharacter = forbiddenTagNameCharacters.find((c) => name.includes(c));
+    if (forbiddenCharacter) {
+        return `Tag name ${name} contains the character '${forbiddenCharacter}', which is not allowed in tag names (${forbiddenTagNameCharacters.join(" ")}).`;
+    }
+
+    return undefined;
+}
+
+function validateTagValue(name: string, value: any): string | undefined {
+    if (typeof value !== "string") {
+        return `The value of tag ${name} must be a string.`;
+    }
+
+    if (value.length > maxTagValueLength) {
+        return `The value of tag ${name} is longer than ${maxTagValueLength} characters.`;
+    }
+
+    return undefined;
+}
@@ -0,0 +1,53 @@
+import * as vscode from 'vscode';
+import * as k8s from 'vscode-kubernetes-tools-api';
+import { IActionContext } from "@microsoft/vscode-azext-utils";
+import { getAksClusterTreeItem, getClusterProperties } from '../utils/clusters';
+import { longRunning } from '../utils/host';
+import { failed } from '../utils/errorable';
+import { getArmTemplate, getBicepTemplate, getClusterTemplateResource, TemplateFormat } from './helpers/templatehelper';
+
+export default async function aksExportTemplate(
+    context: IActionContext,
+    target: any
+): Promise<void> {
+    const cloudExplorer = await k8s.extension.cloudExplorer.v1;
+
+    const cluster = getAksClusterTreeItem(target, cloudExplorer);
+    if (failed(cluster)) {
+        vscode.window.showErrorMessage(cluster.error);
+        return;
+    }
+
+    const format = await vscode.window.showQuickPick(
+        [
+            { label: TemplateFormat.Bicep, description: "Bicep file" },
+            { label: TemplateFormat.Arm, description: "ARM template (JSON)" }
+        ],
+        { placeHolder: "Format of the exported cluster template" });
+
+    if (!format) {
+        return;
+    }
+
+    const clusterName = cluster.result.name;
+    const clusterData = await longRunning(`Loading ${clusterName} cluster properties.`,
+        () => getClusterProperties(cluster.result, clusterName)
+    );
+
+    if (failed(clusterData)) {
+        vscode.window.showErrorMessage(clusterData.error);
+        return;
+    }
+
+    const resource = getClusterTemplateResource(clusterData.result);
+    const isBicep = format.label === TemplateFormat.Bicep;
+
+    // Bicep syntax highlighting is only available when the Bicep extension is installed.
+    const language = isBicep ? ((await vscode.languages.getLanguages()).includes("bicep") ? "bicep" : "plaintext") : "json";
+    const doc = await vscode.workspace.openTextDocument({
+        content: isBicep ? getBicepTemplate(resource) : getArmTemplate(resource),
+        language
+    });
+
+    await vscode.window.showTextDocument(doc);
+}
@@ -0,0 +1,171 @@
+import { ClusterARMResponse, clusterPropertiesApiVersion } from '../../utils/clusters';
+
+export enum TemplateFormat {
+    Arm = "ARM",
+    Bicep = "Bicep"
+}
+
+export interface ClusterTemplateResource {
+    readonly type: string;
+    readonly apiVersion: string;
+    readonly name: string;
+    readonly location: string;
+    readonly tags?: { [key: string]: string };
+    readonly sku?: any;
+    readonly identity?: any;
+    readonly properties: any;
+}
+
+const managedClusterResourceType = "Microsoft.ContainerService/managedClusters";
+
+// Properties that are reported by the service but cannot be set when deploying a cluster.
+const readOnlyClusterProperties = [
+    "provisioningState",
+    "powerState",
+    "maxAgentPools",
+    "currentKubernetesVersion",
+    "fqdn",
+    "privateFQDN",
+    "azurePortalFQDN",
+    "resourceUID",
+    // Holds the system-generated kubelet identity, which is created again for the new cluster.
+    "identityProfile"
+];
+
+const readOnlyAgentPoolProperties = [
+    "eTag",
+    "provisioningState",
+    "powerState",
+    "nodeImageVersion",
+    "currentOrchestratorVersion"
+];
+
+export function getClusterTemplateResource(cluster: ClusterARMResponse): ClusterTemplateResource {
+    const properties = omit(cluster.properties || {}, readOnlyClusterProperties);
+
+    if (properties.agentPoolProfiles) {
+        properties.agentPoolProfiles = properties.agentPoolProfiles.map((p: any) => omit(p, readOnlyAgentPoolProperties));
+    }
+
+    if (properties.addonProfiles) {
+        properties.addonProfiles = mapValues(properties.addonProfiles, (addon: any) => omit(addon, ["identity"]));
+    }
+
+    if (properties.networkProfile?.loadBalancerProfile) {
+        properties.networkProfile = {
+            ...properties.networkProfile,
+            loadBalancerProfile: omit(properties.networkProfile.loadBalancerProfile, ["effectiveOutboundIPs"])
+        };
+    }
+
+    if (properties.oidcIssuerProfile) {
+        properties.oidcIssuerProfile = omit(properties.oidcIssuerProfile, ["issuerURL"]);
+    }
+
+    // Clusters with a managed identity report "msi" as their service principal, which is not a deployable value.
+    if (properties.servicePrincipalProfile?.clientId === "msi") {
+        delete properties.servicePrincipalProfile;
+    }
+
+    return {
+        type: managedClusterResourceType,
+        apiVersion: clusterPropertiesApiVersion,
+        name: cluster.name,
+        location: cluster.location,
+        ...(cluster.tags && { tags: cluster.tags }),
+        ...(cluster.sku && { sku: cluster.sku }),
+        ...(cluster.identity && { identity: getTemplateIdentity(cluster.identity) }),
+        properties
+    };
+}
+
+export function getArmTemplate(resource: ClusterTemplateResource): string {
+    const template = {
+        $schema: "https://schema.management.azure.com/schemas/2019-04-01/deploymentTemplate.json#",
+        contentVersion: "1.0.0.0",
+        resources: [resource]
+    };
+
+    return JSON.stringify(template, null, 4);
+}
+
+export function getBicepTemplate(resource: ClusterTemplateResource): string {
+    const { type, apiVersion, ...body } = resource;
+    return `resource managedCluster '${type}@${apiVersion}' = ${toBicepValue(body, "")}\n`;
+}
+
+function getTemplateIdentity(identity: any): any {
+    const result = omit(identity, ["principalId", "tenantId"]);
+    if (result.userAssignedIdentities) {
+        // The client and principal IDs of user-assigned identities are read-only.
+        result.userAssignedIdentities = mapValues(result.userAssignedIdentities, () => ({}));
+    }
+
+    return result;
+}
+
+function toBicepValue(value: any, indent: string): string {
+    if (value === null || value === undefined) {
+        return "null";
+    }
+
+    if (typeof value === "string") {
+        return toBicepString(value);
+    }
+
+    if (typeof value === "number" || typeof value === "boolean") {
+        return `${value}`;
+    }
+
+    const innerIndent = `${indent}  `;
+    if (Array.isArray(value)) {
+        if (value.length === 0) {
+            return "[]";
+        }
+
+        const items = value.map((v) => `${innerIndent}${toBicepValue(v, innerIndent)}`);
+        return `[\n${items.join("\n")}\n${indent}]`;
+    }
+
+    const entries = Object.keys(value).filter((k) => value[k] !== undefined);
+    if (entries.length === 0) {
+        return "{}";
+    }
+
+    const lines = entries.map((k) => `${innerIndent}${toBicepKey(k)}: ${toBicepValue(value[k], innerIndent)}`);
+    return `{\n${lines.join("\n")}\n${indent}}`;
+}
+
+function toBicepKey(key: string): string {
+    return /^[a-zA-Z_][a-zA-Z0-9_]*$/.test(key) ? key : toBicepString(key);
+}
+
+function toBicepString(value: string): string {
+    const escaped = value
+        .replace(/\\/g, "\\\\")
+        .replace(/'/g, "\\'")
+        .replace(/\n/g, "\\n")
+        .replace(/\r/g, "\\r")
+        .replace(/\t/g, "\\t")
+        .replace(/\$\{/g, "\\${");
+
+    return `'${escaped}'`;
+}
+
+function omit(value: any, keys: string[]): any {
+    const result = { ...value };
+    for (const key of keys) {
+        delete result[key];
+    }
+
+    return result;
+}
+
+function mapValues(value: { [key: string]: any }, fn: (v: any) => any): { [key: string]: any } {
+    const result: { [key: string]: any } = {};
+    for (const key of Object.keys(value)) {
+        result[key] = fn(value[key]);
+    }
+
+    return result;
+}
@@ -0,0 +1,258 @@
+import * as vscode from 'vscode';
+import * as k8s from 'vscode-kubernetes-tools-api';
+import * as os from 'os';
+import * as path from 'path';
+import { IActionContext } from "@microsoft/vscode-azext-utils";
+import { getAksClusterTreeItem, getContainerClient, getKubeconfigYaml, KubeconfigCredentialType } from '../utils/clusters';
+import { longRunning } from '../utils/host';
+import { Errorable, failed } from '../utils/errorable';
+import { fs } from '../utils/fs';
+import AksClusterTreeItem from '../../tree/aksClusterTreeItem';
+import {
+    ConflictResolution,
+    findContextsForServer,
+    getConflicts,
+    Kubeconfig,
+    mergeKubeconfig,
+    parseKubeconfig,
+    removeContexts,
+    serializeKubeconfig
+} from './helpers/kubeconfighelper';
+
+const defaultKubeconfigPath = path.join(os.homedir(), ".kube", "config");
+
+export async function aksMergeKubeconfig(
+    context: IActionContext,
+    target: any
+): Promise<void> {
+    const cloudExplorer = await k8s.extension.cloudExplorer.v1;
+
+    const cluster = getAksClusterTreeItem(target, cloudExplorer);
+    if (failed(cluster)) {
+        vscode.window.showErrorMessage(cluster.error);
+        return;
+    }
+
+    const clusterName = cluster.result.name;
+    const credentialType = await vscode.window.showQuickPick(
+        [
+            { label: "User credentials", description: "clusterUser", credentialType: KubeconfigCredentialType.User },
+            { label: "Admin credentials", description: "clusterAdmin (not available if local accounts are disabled)", credentialType: KubeconfigCredentialType.Admin }
+        ],
+        {
+            placeHolder: `Credentials to merge for cluster ${clusterName}`,
+            ignoreFocusOut: true
+        });
+
+    if (!credentialType) {
+        return;
+    }
+
+    const kubeconfigPath = await pickKubeconfigPath(true);
+    if (!kubeconfigPath) {
+        return;
+    }
+
+    const clusterKubeconfigYaml = await longRunning(`Retrieving credentials for cluster ${clusterName}.`,
+        () => getKubeconfigYaml(cluster.result, credentialType.credentialType)
+    );
+
+    if (failed(clusterKubeconfigYaml)) {
+        vscode.window.showErrorMessage(clusterKubeconfigYaml.error);
+        return;
+    }
+
+    const clusterKubeconfig = parseKubeconfig(clusterKubeconfigYaml.result);
+    if (failed(clusterKubeconfig)) {
+        vscode.window.showErrorMessage(clusterKubeconfig.error);
+        return;
+    }
+
+    const existingKubeconfig = await readKubeconfig(kubeconfigPath);
+    if (failed(existingKubeconfig)) {
+        vscode.window.showErrorMessage(existingKubeconfig.error);
+        return;
+    }
+
+    let resolution = ConflictResolution.Rename;
+    const conflicts = getConflicts(existingKubeconfig.result, clusterKubeconfig.result);
+    if (conflicts.length > 0) {
+        const selected = await vscode.window.showQuickPick(
+            [
+                { label: "Keep both", description: "Rename the new entries", resolution: ConflictResolution.Rename },
+                { label: "Overwrite", description: "Replace the existing entries", resolution: ConflictResolution.Overwrite }
+            ],
+            {
+                placeHolder: `${kubeconfigPath} already has different entries named ${conflicts.join(", ")}`,
+                ignoreFocusOut: true
+            });
+
+        if (!selected) {
+            return;
+        }
+
+        resolution = selected.resolution;
+    }
+
+    const merged = mergeKubeconfig(existingKubeconfig.result, clusterKubeconfig.result, resolution);
+    const contextName = merged.contextNames[0];
+
+    if (contextName && merged.kubeconfig['current-context'] !== contextName) {
+        const answer = await vscode.window.showInformationMessage(
+            `Set ${contextName} as the current context?`,
+            { modal: true },
+            "Set Current Context",
+            "Keep Current Context");
+
+        if (!answer) {
+            return;
+        }
+
+        if (answer === "Set Current Context") {
+            merged.kubeconfig['current-context'] = contextName;
+        }
+    }
+
+    const writeResult = await writeKubeconfig(kubeconfigPath, merged.kubeconfig);
+    if (failed(writeResult)) {
+        vscode.window.showErrorMessage(writeResult.error);
+        return;
+    }
+
+    await refreshClusterExplorer();
+    vscode.window.showInformationMessage(`Merged ${merged.contextNames.join(", ")} into ${kubeconfigPath}.`);
+}
+
+export async function aksRemoveFromKubeconfig(
+    context: IActionContext,
+    target: any
+): Promise<void> {
+    const cloudExplorer = await k8s.extension.cloudExplorer.v1;
+
+    const cluster = getAksClusterTreeItem(target, cloudExplorer);
+    if (failed(cluster)) {
+        vscode.window.showErrorMessage(cluster.error);
+        return;
+    }
+
+    const clusterName = cluster.result.name;
+    const kubeconfigPath = await pickKubeconfigPath(false);
+    if (!kubeconfigPath) {
+        return;
+    }
+
+    const kubeconfig = await readKubeconfig(kubeconfigPath);
+    if (failed(kubeconfig)) {
+        vscode.window.showErrorMessage(kubeconfig.error);
+        return;
+    }
+
+    const hostNames = await longRunning(`Loading ${clusterName} cluster details.`, () => getApiServerHostNames(cluster.result));
+    if (failed(hostNames)) {
+        vscode.window.showErrorMessage(hostNames.error);
+        return;
+    }
+
+    const contextNames = findContextsForServer(kubeconfig.result, hostNames.result);
+    if (contextNames.length === 0) {
+        vscode.window.showInformationMessage(`No contexts for cluster ${clusterName} found in ${kubeconfigPath}.`);
+        return;
+    }
+
+    const answer = await vscode.window.showWarningMessage(
+        `Remove ${contextNames.join(", ")} from ${kubeconfigPath}?`,
+        {
+            modal: true,
+            detail: "Cluster and user entries that are not used by any other context will also be removed."
+        },
+        "Remove");
+
+    if (answer !== "Remove") {
+        return;
+    }
+
+    const writeResult = await writeKubeconfig(kubeconfigPath, removeContexts(kubeconfig.result, contextNames));
+    if (failed(writeResult)) {
+        vscode.window.showErrorMessage(writeResult.error);
+        return;
+    }
+
+    await refreshClusterExplorer();
+    vscode.window.showInformationMessage(`Removed ${contextNames.join(", ")} from ${kubeconfigPath}.`);
+}
+
+async function pickKubeconfigPath(allowNewFile: boolean): Promise<string | undefined> {
+    const selected = await vscode.window.showQuickPick(
+        [
+            { label: defaultKubeconfigPath, description: "default", isDefault: true },
+            { label: "Choose file...", isDefault: false }
+        ],
+        {
+            placeHolder: "Kubeconfig file",
+            ignoreFocusOut: true
+        });
+
+    if (!selected) {
+        return undefined;
+    }
+
+    if (selected.isDefault) {
+        return defaultKubeconfigPath;
+    }
+
+    const defaultUri = vscode.Uri.file(defaultKubeconfigPath);
+    if (allowNewFile) {
+        const uri = await vscode.window.showSaveDialog({ defaultUri, saveLabel: "Merge" });
+        return uri?.fsPath;
+    }
+
+    const uris = await vscode.window.showOpenDialog({ defaultUri, canSelectMany: false, openLabel: "Select" });
+    return uris?.[0]?.fsPath;
+}
+
+async function readKubeconfig(kubeconfigPath: string): Promise<Errorable<Kubeconfig>> {
+    if (!await fs.exists(kubeconfigPath)) {
+        return parseKubeconfig("");
+    }
+
+    try {
+        const kubeconfigYaml = await fs.readFile(kubeconfigPath, "utf8");
+        return parseKubeconfig(kubeconfigYaml);
+    } catch (e) {
+        return { succeeded: false, error: `Unable to read ${kubeconfigPath}: ${e}` };
+    }
+}
+
+async function writeKubeconfig(kubeconfigPath: string, kubeconfig: Kubeconfig): Promise<Errorable<void>> {
+    try {
+        await fs.mkdir(path.dirname(kubeconfigPath), { recursive: true });
+        // Kubeconfig files hold credentials, so keep them readable by the current user only.
+        await fs.writeFile(kubeconfigPath, serializeKubeconfig(kubeconfig), { mode: 0o600 });
+
+        return { succeeded: true, result: undefined };
+    } catch (e) {
+        return { succeeded: false, error: `Unable to write ${kubeconfigPath}: ${e}` };
+    }
+}
+
+async function getApiServerHostNames(
+    target: AksClusterTreeItem
+): Promise<Errorable<string[]>> {
+    try {
+        const containerClient = getContainerClient(target);
+        const managedCluster = await containerClient.managedClusters.get(target.resourceGroupName, target.name);
+        const hostNames = [managedCluster.fqdn, managedCluster.privateFqdn, managedCluster.azurePortalFqdn]
+            .filter((h) => h !== undefined) as string[];
+
+        return { succeeded: true, result: hostNames };
+    } catch (ex) {
+        return { succeeded: false, error: `Error retrieving ${target.name} managed cluster: ${ex}` };
+    }
+}
+
+async function refreshClusterExplorer(): Promise<void> {
+    const clusterExplorer = await k8s.extension.clusterExplorer.v1;
+    if (clusterExplorer.available) {
+        clusterExplorer.api.refresh();
+    }
+}
@@ -0,0 +1,179 @@
+import * as yaml from 'js-yaml';
+import { Errorable } from '../../utils/errorable';
+
+export interface NamedEntry {
+    name: string;
+    [key: string]: any;
+}
+
+export interface KubeconfigContext extends NamedEntry {
+    context: {
+        cluster: string;
+        user: string;
+        [key: string]: any;
+    };
+}
+
+export interface Kubeconfig {
+    apiVersion?: string;
+    kind?: string;
+    clusters: NamedEntry[];
+    users: NamedEntry[];
+    contexts: KubeconfigContext[];
+    'current-context'?: string;
+    [key: string]: any;
+}
+
+export enum ConflictResolution {
+    Overwrite = "overwrite",
+    Rename = "rename"
+}
+
+export interface MergeResult {
+    readonly kubeconfig: Kubeconfig;
+    readonly contextNames: string[];
+}
+
+export function parseKubeconfig(kubeconfigYaml: string): Errorable<Kubeconfig> {
+    try {
+        const parsed: any = yaml.safeLoad(kubeconfigYaml) || {};
+        if (typeof parsed !== "object") {
+            return { succeeded: false, error: "Kubeconfig is not a YAML object." };
+        }
+
+        const kubeconfig: Kubeconfig = {
+            apiVersion: "v1",
+            kind: "Config",
+            ...parsed,
+            clusters: parsed.clusters || [],
+            users: parsed.users || [],
+            contexts: parsed.contexts || []
+        };
+
+        return { succeeded: true, result: kubeconfig };
+    } catch (e) {
+        return { succeeded: false, error: `Unable to parse kubeconfig: ${e}` };
+    }
+}
+
+export function serializeKubeconfig(kubeconfig: Kubeconfig): string {
+    return yaml.safeDump(kubeconfig);
+}
+
+// Returns the names of the entries in `incoming` that clash with different entries already in `existing`.
+// Entries that are identical to existing ones (e.g. from merging the same cluster twice) are not conflicts.
+export function getConflicts(existing: Kubeconfig, incoming: Kubeconfig): string[] {
+    const conflicting = (existingEntries: NamedEntry[], incomingEntries: NamedEntry[]) => incomingEntries
+        .filter((i) => existingEntries.some((e) => e.name === i.name && !isEqual(e, i)))
+        .map((i) => i.name);
+
+    return [
+        ...conflicting(existing.clusters, incoming.clusters),
+        ...conflicting(existing.users, incoming.users),
+        ...conflicting(existing.contexts, incoming.contexts)
+    ];
+}
+
+export function mergeKubeconfig(existing: Kubeconfig, incoming: Kubeconfig, resolution: ConflictResolution): MergeResult {
+    const clusterNames = new Map<string, string>();
+    const userNames = new Map<string, string>();
+
+    const clusters = mergeEntries(existing.clusters, incoming.clusters, resolution, clusterNames);
+    const users = mergeEntries(existing.users, incoming.users, resolution, userNames);
+
+    // Contexts must refer to the (possibly renamed) cluster and user entries.
+    const incomingContexts = incoming.contexts.map((c) => ({
+        ...c,
+        context: {
+            ...c.context,
+            cluster: clusterNames.get(c.context.cluster) || c.context.cluster,
+            user: userNames.get(c.context.user) || c.context.user
+        }
+    }));
+
+    const contextNames = new Map<string, string>();
+    const contexts = mergeEntries(existing.contexts, incomingContexts, resolution, contextNames) as KubeconfigContext[];
+
+    return {
+        kubeconfig: { ...existing, clusters, users, contexts },
+        contextNames: incoming.contexts.map((c) => contextNames.get(c.name) || c.name)
+    };
+}
+
+// Removes the given contexts, along with any clusters and users that are no longer referenced by a remaining context.
+export function removeContexts(kubeconfig: Kubeconfig, contextNames: string[]): Kubeconfig {
+    const removedContexts = kubeconfig.contexts.filter((c) => contextNames.includes(c.name));
+    const contexts = kubeconfig.contexts.filter((c) => !contextNames.includes(c.name));
+
+    const isOrphaned = (name: string, getReference: (c: KubeconfigContext) => string) =>
+        removedContexts.some((c) => getReference(c) === name) && !contexts.some((c) => getReference(c) === name);
+
+    const result = {
+        ...kubeconfig,
+        contexts,
+        clusters: kubeconfig.clusters.filter((c) => !isOrphaned(c.name, (ctx) => ctx.context.cluster)),
+        users: kubeconfig.users.filter((u) => !isOrphaned(u.name, (ctx) => ctx.context.user))
+    };
+
+    if (result['current-context'] && contextNames.includes(result['current-context'])) {
+        delete result['current-context'];
+    }
+
+    return result;
+}
+
+// Finds the contexts whose cluster server is hosted on one of the given API server hostnames.
+export function findContextsForServer(kubeconfig: Kubeconfig, hostNames: string[]): string[] {
+    const lowerHostNames = hostNames.map((h) => h.toLowerCase());
+    const clusterNames = kubeconfig.clusters
+        .filter((c) => lowerHostNames.includes(getHostName(c.cluster?.server)))
+        .map((c) => c.name);
+
+    return kubeconfig.contexts.filter((c) => clusterNames.includes(c.context.cluster)).map((c) => c.name);
+}
+
+function mergeEntries(
+    existingEntries: NamedEntry[],
+    incomingEntries: NamedEntry[],
+    resolution: ConflictResolution,
+    renames: Map<string, string>
+): NamedEntry[] {
+    const result = [...existingEntries];
+    for (const entry of incomingEntries) {
+        const index = result.findIndex((e) => e.name === entry.name);
+        if (index === -1) {
+            result.push(entry);
+        } else if (isEqual(result[index], entry)) {
+            continue;
+        } else if (resolution === ConflictResolution.Overwrite) {
+            result[index] = entry;
+        } else {
+            const newName = getUniqueName(entry.name, result.map((e) => e.name));
+            renames.set(entry.name, newName);
+            result.push({ ...entry, name: newName });
+        }
+    }
+
+    return result;
+}
+
+function getUniqueName(name: string, existingNames: string[]): string {
+    let suffix = 1;
+    while (existingNames.includes(`${name}-${suffix}`)) {
+        suffix++;
+    }
+
+    return `${name}-${suffix}`;
+}
+
+function getHostName(server: string | undefined): string {
+    if (!server) {
+        return "";
+    }
+
+    return server.replace(/^https?:\/\//, "").split(/[:\/]/)[0].toLowerCase();
+}
+
+function isEqual(a: any, b: any): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+}
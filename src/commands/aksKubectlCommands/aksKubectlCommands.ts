@@ -3,12 +3,10 @@ import * as k8s from 'vscode-kubernetes-tools-api';
 import { IActionContext } from "@microsoft/vscode-azext-utils";
 import { getAksClusterTreeItem } from '../utils/clusters';
 import { getExtensionPath, longRunning }  from '../utils/host';
-import { Errorable, failed } from '../utils/errorable';
-import * as tmpfile from '../utils/tempfile';
-import * as clusters from '../utils/clusters';
+import { failed } from '../utils/errorable';
 import AksClusterTreeItem from '../../tree/aksClusterTreeItem';
 import { createWebView, getRenderedContent, getResourceUri } from '../utils/webviews';
-import { invokeKubectlCommand } from '../utils/kubectl';
+import { ClusterConnection, getClusterConnection, invokeClusterKubectlCommand } from '../utils/kubectl';
 
 export async function aksKubectlGetPodsCommands(
   _context: IActionContext,
@@ -75,28 +73,26 @@ async function aksKubectlCommands(
       return;
     }
 
-    const clusterKubeConfig = await clusters.getKubeconfigYaml(cluster.result);
-    if (failed(clusterKubeConfig)) {
-        vscode.window.showErrorMessage(clusterKubeConfig.error);
+    const clusterConnection = await getClusterConnection(cluster.result);
+    if (failed(clusterConnection)) {
+        vscode.window.showErrorMessage(clusterConnection.error);
         return undefined;
     }
 
-    await loadKubectlCommandRun(cluster.result, extensionPath.result, clusterKubeConfig.result, command, kubectl);
+    await loadKubectlCommandRun(cluster.result, extensionPath.result, clusterConnection.result, command, kubectl);
 }
 
 async function loadKubectlCommandRun(
   cloudTarget: AksClusterTreeItem,
   extensionPath: string,
-  clusterConfig: string,
+  clusterConnection: ClusterConnection,
   command: string,
   kubectl: k8s.APIAvailable<k8s.KubectlV1>) {
 
   const clustername = cloudTarget.name;
   await longRunning(`Loading ${clustername} kubectl command run.`,
     async () => {
-      const kubectlresult = await tmpfile.withOptionalTempFile<Errorable<k8s.KubectlV1.ShellResult>>(clusterConfig, "YAML", async (kubeConfigFile) => {
-        return await invokeKubectlCommand(kubectl, kubeConfigFile, command);
-      });
+      const kubectlresult = await invokeClusterKubectlCommand(kubectl, clusterConnection, command);
 
       if (failed(kubectlresult)) {
         vscode.window.showErrorMessage(kubectlresult.error);
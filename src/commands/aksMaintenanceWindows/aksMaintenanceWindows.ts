@@ -0,0 +1,210 @@
+import * as vscode from 'vscode';
+import * as k8s from 'vscode-kubernetes-tools-api';
+import { IActionContext } from "@microsoft/vscode-azext-utils";
+import { getAksClusterTreeItem } from '../utils/clusters';
+import { getExtensionPath, longRunning } from '../utils/host';
+import { Errorable, failed } from '../utils/errorable';
+import AksClusterTreeItem from '../../tree/aksClusterTreeItem';
+import { createWebView, getRenderedContent, getResourceUri } from '../utils/webviews';
+import {
+    deleteMaintenanceConfiguration,
+    describeMaintenanceConfiguration,
+    getMaintenanceConfigurationDisplayName,
+    getNextOccurrences,
+    getSampleMaintenanceConfiguration,
+    listMaintenanceConfigurations,
+    MaintenanceConfiguration,
+    maintenanceConfigurationNames,
+    MaintenanceConfigurationProperties,
+    MaintenanceOccurrence,
+    saveMaintenanceConfiguration,
+    validateMaintenanceConfiguration
+} from './helpers/maintenancehelper';
+
+const nextOccurrenceCount = 3;
+
+export default async function aksMaintenanceWindows(
+    context: IActionContext,
+    target: any
+): Promise<void> {
+    const cloudExplorer = await k8s.extension.cloudExplorer.v1;
+
+    const cluster = getAksClusterTreeItem(target, cloudExplorer);
+    if (failed(cluster)) {
+        vscode.window.showErrorMessage(cluster.error);
+        return;
+    }
+
+    const extensionPath = getExtensionPath();
+    if (failed(extensionPath)) {
+        vscode.window.showErrorMessage(extensionPath.error);
+        return;
+    }
+
+    const clusterName = cluster.result.name;
+    const configurations = await longRunning(`Loading ${clusterName} maintenance configurations.`,
+        () => listMaintenanceConfigurations(cluster.result)
+    );
+
+    if (failed(configurations)) {
+        vscode.window.showErrorMessage(configurations.error);
+        return;
+    }
+
+    const webviewPanel = createWebView('AKS Maintenance Windows', `AKS maintenance windows for: ${clusterName}`);
+    const webview = webviewPanel.webview;
+
+    let isDisposed = false;
+    webviewPanel.onDidDispose(() => { isDisposed = true; });
+
+    let currentConfigurations = configurations.result;
+    webview.onDidReceiveMessage(
+        async (message) => {
+            const existing = currentConfigurations.find((c) => c.name === message.name);
+            const result = await onReceiveMessage(cluster.result, message.command, message.name, existing);
+            if (failed(result)) {
+                vscode.window.showErrorMessage(result.error);
+                return;
+            }
+
+            if (!result.result) {
+                return;
+            }
+
+            vscode.window.showInformationMessage(result.result);
+
+            const updatedConfigurations = await longRunning(`Loading ${clusterName} maintenance configurations.`,
+                () => listMaintenanceConfigurations(cluster.result)
+            );
+
+            if (failed(updatedConfigurations)) {
+                vscode.window.showErrorMessage(updatedConfigurations.error);
+                return;
+            }
+
+            currentConfigurations = updatedConfigurations.result;
+            if (!isDisposed) {
+                webview.html = getWebviewContent(clusterName, currentConfigurations, extensionPath.result);
+            }
+        },
+        undefined
+    );
+
+    webview.html = getWebviewContent(clusterName, currentConfigurations, extensionPath.result);
+}
+
+// Returns the message to show on success, or undefined if the user cancelled.
+async function onReceiveMessage(
+    cluster: AksClusterTreeItem,
+    command: string,
+    name: string,
+    existing: MaintenanceConfiguration | undefined
+): Promise<Errorable<string | undefined>> {
+    const displayName = getMaintenanceConfigurationDisplayName(name);
+    switch (command) {
+        case 'editConfiguration': {
+            const properties = await editConfiguration(name, existing?.properties || getSampleMaintenanceConfiguration(name));
+            if (!properties) {
+                return { succeeded: true, result: undefined };
+            }
+
+            const result = await longRunning(`Saving ${displayName} maintenance window.`,
+                () => saveMaintenanceConfiguration(cluster, name, properties)
+            );
+
+            return failed(result) ? result : { succeeded: true, result: `${displayName} maintenance window saved.` };
+        }
+        case 'deleteConfiguration': {
+            const answer = await vscode.window.showWarningMessage(
+                `Delete the ${displayName} maintenance window of cluster ${cluster.name}?`,
+                { modal: true },
+                "Delete");
+
+            if (answer !== "Delete") {
+                return { succeeded: true, result: undefined };
+            }
+
+            const result = await longRunning(`Deleting ${displayName} maintenance window.`,
+                () => deleteMaintenanceConfiguration(cluster, name)
+            );
+
+            return failed(result) ? result : { succeeded: true, result: `${displayName} maintenance window deleted.` };
+        }
+        default:
+            return { succeeded: false, error: `Invalid ${command} triggered.` };
+    }
+}
+
+async function editConfiguration(
+    name: string,
+    properties: MaintenanceConfigurationProperties
+): Promise<MaintenanceConfigurationProperties | undefined> {
+    const doc = await vscode.workspace.openTextDocument({
+        content: JSON.stringify(properties, null, 4),
+        language: "json"
+    });
+
+    await vscode.window.showTextDocument(doc);
+
+    // Keep offering to save until the configuration is valid, so that edits are not lost.
+    while (true) {
+        const answer = await vscode.window.showInformationMessage(
+            `Edit the ${getMaintenanceConfigurationDisplayName(name)} maintenance window, then save it to the cluster.`,
+            "Save",
+            "Cancel");
+
+        if (answer !== "Save") {
+            return undefined;
+        }
+
+        let edited: MaintenanceConfigurationProperties;
+        try {
+            edited = JSON.parse(doc.getText());
+        } catch (e) {
+            vscode.window.showErrorMessage(`Maintenance window is not valid JSON: ${e}`);
+            continue;
+        }
+
+        const error = validateMaintenanceConfiguration(name, edited);
+        if (error) {
+            vscode.window.showErrorMessage(`Invalid maintenance window: ${error}`);
+            continue;
+        }
+
+        return edited;
+    }
+}
+
+function getWebviewContent(
+    clusterName: string,
+    configurations: MaintenanceConfiguration[],
+    vscodeExtensionPath: string
+): string {
+    const styleUri = getResourceUri(vscodeExtensionPath, 'common', 'detector.css');
+    const templateUri = getResourceUri(vscodeExtensionPath, 'aksmaintenancewindows', 'maintenancewindows.html');
+
+    // Always list the well-known configurations, so that missing ones can be created.
+    const names = [...maintenanceConfigurationNames, ...configurations.map((c) => c.name).filter((n) => !(maintenanceConfigurationNames as string[]).includes(n))];
+    const now = new Date();
+    const data = {
+        cssuri: styleUri,
+        name: clusterName,
+        configurations: names.map((name) => {
+            const configuration = configurations.find((c) => c.name === name);
+            return {
+                name,
+                displayName: getMaintenanceConfigurationDisplayName(name),
+                isConfigured: configuration !== undefined,
+                schedule: configuration ? describeMaintenanceConfiguration(configuration.properties) : [],
+                nextOccurrences: configuration ? getNextOccurrences(configuration.properties, now, nextOccurrenceCount).map(formatOccurrence) : []
+            };
+        })
+    };
+
+    return getRenderedContent(templateUri, data);
+}
+
+function formatOccurrence(occurrence: MaintenanceOccurrence): string {
+    const format = (date: Date) => date.toISOString().substring(0, 16).replace("T", " ");
+    return `${format(occurrence.start)} - ${format(occurrence.end)} UTC`;
+}
@@ -0,0 +1,480 @@
+import AksClusterTreeItem from '../../../tree/aksClusterTreeItem';
+import { sendArmRequest } from '../../utils/arm';
+import { clusterPropertiesApiVersion } from '../../utils/clusters';
+import { Errorable } from '../../utils/errorable';
+
+// Maintenance configurations are edited as JSON in the shape of the REST API, with dates as strings, so they are
+// sent as raw requests rather than through the container service SDK, which converts dates to Date objects.
+const maintenanceApiVersion = clusterPropertiesApiVersion;
+
+export enum MaintenanceConfigurationName {
+    Default = "default",
+    AutoUpgrade = "aksManagedAutoUpgradeSchedule",
+    NodeOSUpgrade = "aksManagedNodeOSUpgradeSchedule"
+}
+
+export const maintenanceConfigurationNames = [
+    MaintenanceConfigurationName.Default,
+    MaintenanceConfigurationName.AutoUpgrade,
+    MaintenanceConfigurationName.NodeOSUpgrade
+];
+
+export const weekDays = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+const weekIndices = ["First", "Second", "Third", "Fourth", "Last"];
+
+export interface TimeInWeek {
+    day: string;
+    hourSlots: number[];
+}
+
+export interface TimeSpan {
+    start: string;
+    end: string;
+}
+
+export interface DateSpan {
+    start: string;
+    end: string;
+}
+
+export interface MaintenanceSchedule {
+    daily?: { intervalDays: number };
+    weekly?: { intervalWeeks: number; dayOfWeek: string };
+    absoluteMonthly?: { intervalMonths: number; dayOfMonth: number };
+    relativeMonthly?: { intervalMonths: number; weekIndex: string; dayOfWeek: string };
+}
+
+const scheduleTypes: (keyof MaintenanceSchedule)[] = ["daily", "weekly", "absoluteMonthly", "relativeMonthly"];
+
+export interface MaintenanceWindow {
+    schedule: MaintenanceSchedule;
+    durationHours: number;
+    startTime: string;
+    utcOffset?: string;
+    startDate?: string;
+    notAllowedDates?: DateSpan[];
+}
+
+export interface MaintenanceConfigurationProperties {
+    timeInWeek?: TimeInWeek[];
+    notAllowedTime?: TimeSpan[];
+    maintenanceWindow?: MaintenanceWindow;
+}
+
+export interface MaintenanceConfiguration {
+    readonly name: string;
+    readonly properties: MaintenanceConfigurationProperties;
+}
+
+export interface MaintenanceOccurrence {
+    readonly start: Date;
+    readonly end: Date;
+}
+
+export function getMaintenanceConfigurationDisplayName(name: string): string {
+    switch (name) {
+        case MaintenanceConfigurationName.Default:
+            return "Planned maintenance (default)";
+        case MaintenanceConfigurationName.AutoUpgrade:
+            return "Cluster auto-upgrade";
+        case MaintenanceConfigurationName.NodeOSUpgrade:
+            return "Node OS auto-upgrade";
+        default:
+            return name;
+    }
+}
+
+// Returns a configuration that can be used as a starting point when creating a configuration.
+export function getSampleMaintenanceConfiguration(name: string): MaintenanceConfigurationProperties {
+    if (name === MaintenanceConfigurationName.Default) {
+        return {
+            timeInWeek: [{ day: "Sunday", hourSlots: [1, 2, 3, 4] }],
+            notAllowedTime: []
+        };
+    }
+
+    return {
+        maintenanceWindow: {
+            schedule: { weekly: { intervalWeeks: 1, dayOfWeek: "Sunday" } },
+            durationHours: 4,
+            startTime: "01:00",
+            utcOffset: "+00:00",
+            notAllowedDates: []
+        }
+    };
+}
+
+export function validateMaintenanceConfiguration(name: string, properties: MaintenanceConfigurationProperties): string | undefined {
+    if (name === MaintenanceConfigurationName.Default) {
+        if (properties.maintenanceWindow) {
+            return "The default configuration uses timeInWeek and notAllowedTime, not maintenanceWindow.";
+        }
+
+        if (!properties.timeInWeek || properties.timeInWeek.length === 0) {
+            return "timeInWeek must contain at least one entry.";
+        }
+
+        for (const entry of properties.timeInWeek) {
+            if (!weekDays.includes(entry.day)) {
+                return `${entry.day} is not a day of the week.`;
+            }
+
+            if (!Array.isArray(entry.hourSlots) || entry.hourSlots.length === 0 || entry.hourSlots.some((h) => !Number.isInteger(h) || h < 0 || h > 23)) {
+                return `Hour slots for ${entry.day} must be whole hours between 0 and 23.`;
+            }
+        }
+
+        for (const span of properties.notAllowedTime || []) {
+            const error = validateSpan(span, isDateTime);
+            if (error) {
+                return `notAllowedTime: ${error}`;
+            }
+        }
+
+        return undefined;
+    }
+
+    if (properties.timeInWeek || properties.notAllowedTime) {
+        return `The ${name} configuration uses maintenanceWindow, not timeInWeek or notAllowedTime.`;
+    }
+
+    if (!properties.maintenanceWindow) {
+        return "maintenanceWindow is required.";
+    }
+
+    return validateMaintenanceWindow(properties.maintenanceWindow);
+}
+
+function validateMaintenanceWindow(window: MaintenanceWindow): string | undefined {
+    if (!Number.isInteger(window.durationHours) || window.durationHours < 4 || window.durationHours > 24) {
+        return "durationHours must be a whole number of hours between 4 and 24.";
+    }
+
+    if (!/^([01]\d|2[0-3]):[0-5]\d$/.test(window.startTime || "")) {
+        return "startTime must be in HH:mm format.";
+    }
+
+    if (window.utcOffset !== undefined && !/^[+-](0\d|1[0-4]):[0-5]\d$/.test(window.utcOffset)) {
+        return "utcOffset must be in +HH:mm or -HH:mm format.";
+    }
+
+    if (window.startDate !== undefined && !isDate(window.startDate)) {
+        return "startDate must be in YYYY-MM-DD format.";
+    }
+
+    for (const span of window.notAllowedDates || []) {
+        const error = validateSpan(span, isDate);
+        if (error) {
+            return `notAllowedDates: ${error}`;
+        }
+    }
+
+    return validateSchedule(window.schedule);
+}
+
+function validateSchedule(schedule: MaintenanceSchedule | undefined): string | undefined {
+    if (!schedule || scheduleTypes.filter((t) => schedule[t]).length !== 1) {
+        return "schedule must specify exactly one of daily, weekly, absoluteMonthly or relativeMonthly.";
+    }
+
+    if (schedule.daily) {
+        return validateRange(schedule.daily.intervalDays, 1, 7, "intervalDays");
+    }
+
+    if (schedule.weekly) {
+        return validateRange(schedule.weekly.intervalWeeks, 1, 4, "intervalWeeks") ||
+            validateDayOfWeek(schedule.weekly.dayOfWeek);
+    }
+
+    if (schedule.absoluteMonthly) {
+        return validateRange(schedule.absoluteMonthly.intervalMonths, 1, 6, "intervalMonths") ||
+            validateRange(schedule.absoluteMonthly.dayOfMonth, 1, 31, "dayOfMonth");
+    }
+
+    const relativeMonthly = schedule.relativeMonthly!;
+    if (!weekIndices.includes(relativeMonthly.weekIndex)) {
+        return `weekIndex must be one of ${weekIndices.join(", ")}.`;
+    }
+
+    return validateRange(relativeMonthly.intervalMonths, 1, 6, "intervalMonths") ||
+        validateDayOfWeek(relativeMonthly.dayOfWeek);
+}
+
+export function describeMaintenanceConfiguration(properties: MaintenanceConfigurationProperties): string[] {
+    if (properties.maintenanceWindow) {
+        return describeMaintenanceWindow(properties.maintenanceWindow);
+    }
+
+    const lines = (properties.timeInWeek || []).map((entry) =>
+        `Every ${entry.day}, ${getHourRanges(entry.hourSlots).map(([start, end]) => `${formatHour(start)}-${formatHour(end)}`).join(", ")} UTC`);
+
+    for (const span of properties.notAllowedTime || []) {
+        lines.push(`Not allowed from ${span.start} to ${span.end}`);
+    }
+
+    return lines;
+}
+
+function describeMaintenanceWindow(window: MaintenanceWindow): string[] {
+    const schedule = window.schedule;
+    let recurrence = "";
+    if (schedule.daily) {
+        recurrence = schedule.daily.intervalDays === 1 ? "Every day" : `Every ${schedule.daily.intervalDays} days`;
+    } else if (schedule.weekly) {
+        recurrence = `${schedule.weekly.intervalWeeks === 1 ? "Every week" : `Every ${schedule.weekly.intervalWeeks} weeks`} on ${schedule.weekly.dayOfWeek}`;
+    } else if (schedule.absoluteMonthly) {
+        recurrence = `${describeMonthInterval(schedule.absoluteMonthly.intervalMonths)} on day ${schedule.absoluteMonthly.dayOfMonth}`;
+    } else if (schedule.relativeMonthly) {
+        recurrence = `${describeMonthInterval(schedule.relativeMonthly.intervalMonths)} on the ${schedule.relativeMonthly.weekIndex.toLowerCase()} ${schedule.relativeMonthly.dayOfWeek}`;
+    }
+
+    const lines = [`${recurrence} at ${window.startTime} (UTC${window.utcOffset || "+00:00"}) for ${window.durationHours} hours`];
+    if (window.startDate) {
+        lines.push(`Starting ${window.startDate}`);
+    }
+
+    for (const span of window.notAllowedDates || []) {
+        lines.push(`Not allowed from ${span.start} to ${span.end}`);
+    }
+
+    return lines;
+}
+
+export function getNextOccurrences(properties: MaintenanceConfigurationProperties, from: Date, count: number): MaintenanceOccurrence[] {
+    if (properties.maintenanceWindow) {
+        return getNextWindowOccurrences(properties.maintenanceWindow, from, count);
+    }
+
+    return getNextWeeklySlotOccurrences(properties, from, count);
+}
+
+function getNextWeeklySlotOccurrences(properties: MaintenanceConfigurationProperties, from: Date, count: number): MaintenanceOccurrence[] {
+    const hourMs = 60 * 60 * 1000;
+    const notAllowed = (properties.notAllowedTime || []).map((s) => ({ start: Date.parse(s.start), end: Date.parse(s.end) }));
+    const isAllowed = (time: number) => {
+        const date = new Date(time);
+        const allowedDay = (properties.timeInWeek || []).some((e) =>
+            e.day === weekDays[date.getUTCDay()] && e.hourSlots.includes(date.getUTCHours()));
+        return allowedDay && !notAllowed.some((s) => time < s.end && time + hourMs > s.start);
+    };
+
+    const occurrences: MaintenanceOccurrence[] = [];
+    const firstHour = Math.floor(from.getTime() / hourMs) * hourMs;
+
+    // Slots repeat weekly, so a few weeks is enough to find the next windows unless they are all excluded.
+    for (let time = firstHour; time < firstHour + 8 * 7 * 24 * hourMs && occurrences.length < count; time += hourMs) {
+        if (!isAllowed(time) || (time !== firstHour && isAllowed(time - hourMs))) {
+            continue;
+        }
+
+        let end = time + hourMs;
+        while (isAllowed(end)) {
+            end += hourMs;
+        }
+
+        occurrences.push({ start: new Date(time), end: new Date(end) });
+    }
+
+    return occurrences;
+}
+
+function getNextWindowOccurrences(window: MaintenanceWindow, from: Date, count: number): MaintenanceOccurrence[] {
+    const offsetMinutes = parseUtcOffset(window.utcOffset || "+00:00");
+    const [hours, minutes] = window.startTime.split(":").map(Number);
+
+    // Dates are handled as midnight UTC values representing calendar days in the window's time zone.
+    const dayMs = 24 * 60 * 60 * 1000;
+    const fromLocal = new Date(from.getTime() + offsetMinutes * 60 * 1000);
+    const fromDay = Date.UTC(fromLocal.getUTCFullYear(), fromLocal.getUTCMonth(), fromLocal.getUTCDate());
+    const startDay = window.startDate ? Date.parse(`${window.startDate}T00:00:00Z`) : fromDay;
+
+    const isNotAllowed = (day: number) => (window.notAllowedDates || []).some((s) =>
+        day >= Date.parse(`${s.start}T00:00:00Z`) && day <= Date.parse(`${s.end}T00:00:00Z`));
+
+    // Bound the search so that schedules which are entirely excluded terminate.
+    const lastDay = Math.max(startDay, fromDay) + 3 * 366 * dayMs;
+
+    const occurrences: MaintenanceOccurrence[] = [];
+    for (const day of getScheduledDays(window.schedule, startDay, lastDay)) {
+        if (occurrences.length >= count) {
+            break;
+        }
+
+        const start = day + (hours * 60 + minutes - offsetMinutes) * 60 * 1000;
+        if (start < from.getTime() || isNotAllowed(day)) {
+            continue;
+        }
+
+        occurrences.push({ start: new Date(start), end: new Date(start + window.durationHours * 60 * 60 * 1000) });
+    }
+
+    return occurrences;
+}
+
+function* getScheduledDays(schedule: MaintenanceSchedule, firstDay: number, lastDay: number): Generator<number> {
+    const dayMs = 24 * 60 * 60 * 1000;
+    if (schedule.daily) {
+        for (let day = firstDay; day <= lastDay; day += schedule.daily.intervalDays * dayMs) {
+            yield day;
+        }
+    } else if (schedule.weekly) {
+        const dayOfWeek = weekDays.indexOf(schedule.weekly.dayOfWeek);
+        const first = firstDay + ((dayOfWeek - new Date(firstDay).getUTCDay() + 7) % 7) * dayMs;
+        for (let day = first; day <= lastDay; day += schedule.weekly.intervalWeeks * 7 * dayMs) {
+            yield day;
+        }
+    } else if (schedule.absoluteMonthly || schedule.relativeMonthly) {
+        const intervalMonths = (schedule.absoluteMonthly || schedule.relativeMonthly)!.intervalMonths;
+        const first = new Date(firstDay);
+        for (let month = 0; ; month += intervalMonths) {
+            const monthStart = Date.UTC(first.getUTCFullYear(), first.getUTCMonth() + month, 1);
+            if (monthStart > lastDay) {
+                break;
+            }
+
+            const day = schedule.absoluteMonthly ?
+                getDayOfMonth(monthStart, schedule.absoluteMonthly.dayOfMonth) :
+                getRelativeDayOfMonth(monthStart, schedule.relativeMonthly!.weekIndex, schedule.relativeMonthly!.dayOfWeek);
+
+            if (day !== undefined && day >= firstDay) {
+                yield day;
+            }
+        }
+    }
+}
+
+function getDayOfMonth(monthStart: number, dayOfMonth: number): number | undefined {
+    const month = new Date(monthStart);
+    const day = Date.UTC(month.getUTCFullYear(), month.getUTCMonth(), dayOfMonth);
+
+    // Months without the given day (e.g. the 31st) have no occurrence.
+    return new Date(day).getUTCMonth() === month.getUTCMonth() ? day : undefined;
+}
+
+function getRelativeDayOfMonth(monthStart: number, weekIndex: string, dayOfWeek: string): number {
+    const dayMs = 24 * 60 * 60 * 1000;
+    const month = new Date(monthStart);
+    const weekDay = weekDays.indexOf(dayOfWeek);
+    const firstMatch = monthStart + ((weekDay - month.getUTCDay() + 7) % 7) * dayMs;
+
+    if (weekIndex !== "Last") {
+        return firstMatch + weekIndices.indexOf(weekIndex) * 7 * dayMs;
+    }
+
+    const nextMonthStart = Date.UTC(month.getUTCFullYear(), month.getUTCMonth() + 1, 1);
+    let day = firstMatch;
+    while (day + 7 * dayMs < nextMonthStart) {
+        day += 7 * dayMs;
+    }
+
+    return day;
+}
+
+export async function listMaintenanceConfigurations(
+    target: AksClusterTreeItem
+): Promise<Errorable<MaintenanceConfiguration[]>> {
+    const response = await sendMaintenanceRequest(target, "GET", "");
+    if (!response.succeeded) {
+        return { succeeded: false, error: `Error listing maintenance configurations for ${target.name}: ${response.error}` };
+    }
+
+    const configurations: MaintenanceConfiguration[] = (response.result?.value || [])
+        .map((c: any) => ({ name: c.name, properties: c.properties || {} }));
+
+    return { succeeded: true, result: configurations };
+}
+
+export async function saveMaintenanceConfiguration(
+    target: AksClusterTreeItem,
+    name: string,
+    properties: MaintenanceConfigurationProperties
+): Promise<Errorable<void>> {
+    const response = await sendMaintenanceRequest(target, "PUT", `/${name}`, { properties });
+    if (!response.succeeded) {
+        return { succeeded: false, error: `Error saving maintenance configuration ${name}: ${response.error}` };
+    }
+
+    return { succeeded: true, result: undefined };
+}
+
+export async function deleteMaintenanceConfiguration(
+    target: AksClusterTreeItem,
+    name: string
+): Promise<Errorable<void>> {
+    const response = await sendMaintenanceRequest(target, "DELETE", `/${name}`);
+    if (!response.succeeded) {
+        return { succeeded: false, error: `Error deleting maintenance configuration ${name}: ${response.error}` };
+    }
+
+    return { succeeded: true, result: undefined };
+}
+
+async function sendMaintenanceRequest(
+    target: AksClusterTreeItem,
+    method: "GET" | "PUT" | "DELETE",
+    path: string,
+    body?: any
+): Promise<Errorable<any>> {
+    return await sendArmRequest(target.subscription, method, `${target.armId}/maintenanceConfigurations${path}`, maintenanceApiVersion, body);
+}
+
+function getHourRanges(hourSlots: number[]): [number, number][] {
+    const ranges: [number, number][] = [];
+    for (const hour of [...hourSlots].sort((a, b) => a - b)) {
+        const last = ranges[ranges.length - 1];
+        if (last && last[1] === hour) {
+            last[1] = hour + 1;
+        } else {
+            ranges.push([hour, hour + 1]);
+        }
+    }
+
+    return ranges;
+}
+
+function formatHour(hour: number): string {
+    return `${String(hour).padStart(2, "0")}:00`;
+}
+
+function describeMonthInterval(intervalMonths: number): string {
+    return intervalMonths === 1 ? "Every month" : `Every ${intervalMonths} months`;
+}
+
+function parseUtcOffset(utcOffset: string): number {
+    const sign = utcOffset.startsWith("-") ? -1 : 1;
+    const [hours, minutes] = utcOffset.substring(1).split(":").map(Number);
+    return sign * (hours * 60 + minutes);
+}
+
+function validateRange(value: number, min: number, max: number, name: string): string | undefined {
+    if (!Number.isInteger(value) || value < min || value > max) {
+        return `${name} must be a whole number between ${min} and ${max}.`;
+    }
+
+    return undefined;
+}
+
+function validateDayOfWeek(day: string): string | undefined {
+    return weekDays.includes(day) ? undefined : `${day} is not a day of the week.`;
+}
+
+function validateSpan(span: TimeSpan | DateSpan, isValid: (value: string) => boolean): string | undefined {
+    if (!span || !isValid(span.start) || !isValid(span.end)) {
+        return `Invalid start or end in ${JSON.stringify(span)}.`;
+    }
+
+    if (Date.parse(span.start) > Date.parse(span.end)) {
+        return `Start ${span.start} is after end ${span.end}.`;
+    }
+
+    return undefined;
+}
+
+function isDate(value: string): boolean {
+    return /^\d{4}-\d{2}-\d{2}$/.test(value || "") && !isNaN(Date.parse(value));
+}
+
+function isDateTime(value: string): boolean {
+    return typeof value === "string" && !isNaN(Date.parse(value));
+}
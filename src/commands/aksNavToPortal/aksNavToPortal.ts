@@ -1,11 +1,10 @@
 import * as vscode from 'vscode';
 import * as k8s from 'vscode-kubernetes-tools-api';
 import { IActionContext } from "@microsoft/vscode-azext-utils";
-import { CloudType, getAksClusterTreeItem } from '../utils/clusters';
+import { getAksClusterTreeItem } from '../utils/clusters';
 import { getExtensionPath }  from '../utils/host';
 import { failed } from '../utils/errorable';
-import { getCloudType } from '../../azure-api-utils';
-const meta = require('../../../package.json');
+import { getCloudEnvironment, getPortalResourceUrl } from '../utils/clouds';
 
 export default async function aksNavToPortal(
     _context: IActionContext,
@@ -25,18 +24,6 @@ export default async function aksNavToPortal(
       return;
     }
 
-    const cloudType = getCloudType(cluster.result);
-
-    // armid is in the format: /subscriptions/<sub_id>/resourceGroups/<resource_group>/providers/<container_service>/managedClusters/<aks_clustername>
-    switch (cloudType) {
-      case CloudType.Public:
-        vscode.env.openExternal(vscode.Uri.parse(`https://portal.azure.com/#resource${cluster.result.armId}/overview?referrer_source=vscode&referrer_context=${meta.name}`));
-        break;
-      case CloudType.USGov:
-        vscode.env.openExternal(vscode.Uri.parse(`https://portal.azure.us/#resource${cluster.result.armId}/overview?referrer_source=vscode&referrer_context=${meta.name}`));
-        break;
-      default:
-        vscode.window.showErrorMessage(`Unrecognised cloud type ${cloudType}.`);
-        break;
-    }
+    const environment = getCloudEnvironment(cluster.result.subscription);
+    vscode.env.openExternal(vscode.Uri.parse(getPortalResourceUrl(environment, cluster.result.armId, "overview")));
 }
@@ -0,0 +1,252 @@
+import * as vscode from 'vscode';
+import * as k8s from 'vscode-kubernetes-tools-api';
+import { IActionContext } from "@microsoft/vscode-azext-utils";
+import { AgentPool, AgentPoolMode, OSType } from '@azure/arm-containerservice';
+import { getAksAgentPoolTreeItem, getAksClusterTreeItem } from '../utils/clusters';
+import { longRunning } from '../utils/host';
+import { failed } from '../utils/errorable';
+import {
+    addNodePool,
+    AutoscalerSettings,
+    deleteNodePool,
+    scaleNodePool,
+    setNodePoolAutoscaler,
+    validateAutoscalerSettings,
+    validateManualScaling,
+    validateNodeCount,
+    validateNodePoolName
+} from './helpers/nodepoolhelper';
+
+const defaultVmSize = "Standard_DS2_v2";
+
+export async function aksScaleNodePool(
+    context: IActionContext,
+    target: any
+): Promise<void> {
+    const cloudExplorer = await k8s.extension.cloudExplorer.v1;
+
+    const nodePool = getAksAgentPoolTreeItem(target, cloudExplorer);
+    if (failed(nodePool)) {
+        vscode.window.showErrorMessage(nodePool.error);
+        return;
+    }
+
+    const agentPool = nodePool.result.agentPool;
+    const scalingError = validateManualScaling(agentPool);
+    if (scalingError) {
+        vscode.window.showErrorMessage(scalingError);
+        return;
+    }
+
+    const count = await vscode.window.showInputBox({
+        prompt: `Number of nodes for node pool ${agentPool.name}`,
+        value: `${agentPool.count}`,
+        validateInput: (value) => validateNodeCount(value, agentPool.mode),
+        ignoreFocusOut: true
+    });
+
+    if (count === undefined) {
+        return;
+    }
+
+    const result = await longRunning(`Scaling node pool ${agentPool.name} to ${count} nodes.`,
+        () => scaleNodePool(nodePool.result.cluster, agentPool.name!, Number(count))
+    );
+
+    if (failed(result)) {
+        vscode.window.showErrorMessage(result.error);
+        return;
+    }
+
+    vscode.window.showInformationMessage(`Node pool ${agentPool.name} scaled to ${result.result.count} nodes.`);
+    await nodePool.result.cluster.refresh(context);
+}
+
+export async function aksConfigureNodePoolAutoscaler(
+    context: IActionContext,
+    target: any
+): Promise<void> {
+    const cloudExplorer = await k8s.extension.cloudExplorer.v1;
+
+    const nodePool = getAksAgentPoolTreeItem(target, cloudExplorer);
+    if (failed(nodePool)) {
+        vscode.window.showErrorMessage(nodePool.error);
+        return;
+    }
+
+    const agentPool = nodePool.result.agentPool;
+    const enable = await vscode.window.showQuickPick(
+        [
+            { label: "Enable autoscaler", description: agentPool.enableAutoScaling ? `currently ${agentPool.minCount}-${agentPool.maxCount} nodes` : undefined, enable: true },
+            { label: "Disable autoscaler", description: agentPool.enableAutoScaling ? undefined : "currently disabled", enable: false }
+        ],
+        {
+            placeHolder: `Cluster autoscaler for node pool ${agentPool.name}`,
+            ignoreFocusOut: true
+        });
+
+    if (!enable) {
+        return;
+    }
+
+    let settings: AutoscalerSettings | undefined = undefined;
+    if (enable.enable) {
+        const minCount = await vscode.window.showInputBox({
+            prompt: `Minimum number of nodes for node pool ${agentPool.name}`,
+            value: `${agentPool.minCount || agentPool.count}`,
+            validateInput: (value) => validateNodeCount(value, agentPool.mode),
+            ignoreFocusOut: true
+        });
+
+        if (minCount === undefined) {
+            return;
+        }
+
+        const maxCount = await vscode.window.showInputBox({
+            prompt: `Maximum number of nodes for node pool ${agentPool.name}`,
+            value: `${agentPool.maxCount || Math.max(Number(minCount), agentPool.count || 0)}`,
+            validateInput: (value) => validateNodeCount(value, agentPool.mode) ||
+                validateAutoscalerSettings({ minCount: Number(minCount), maxCount: Number(value) }, agentPool.mode),
+            ignoreFocusOut: true
+        });
+
+        if (maxCount === undefined) {
+            return;
+        }
+
+        settings = { minCount: Number(minCount), maxCount: Number(maxCount) };
+    }
+
+    const result = await longRunning(`Updating autoscaler for node pool ${agentPool.name}.`,
+        () => setNodePoolAutoscaler(nodePool.result.cluster, agentPool.name!, settings)
+    );
+
+    if (failed(result)) {
+        vscode.window.showErrorMessage(result.error);
+        return;
+    }
+
+    vscode.window.showInformationMessage(`Autoscaler for node pool ${agentPool.name} updated.`);
+    await nodePool.result.cluster.refresh(context);
+}
+
+export async function aksAddNodePool(
+    context: IActionContext,
+    target: any
+): Promise<void> {
+    const cloudExplorer = await k8s.extension.cloudExplorer.v1;
+
+    const cluster = getAksClusterTreeItem(target, cloudExplorer);
+    if (failed(cluster)) {
+        vscode.window.showErrorMessage(cluster.error);
+        return;
+    }
+
+    const osType = await vscode.window.showQuickPick(["Linux", "Windows"], {
+        placeHolder: "Operating system for the new node pool",
+        ignoreFocusOut: true
+    });
+
+    if (!osType) {
+        return;
+    }
+
+    const name = await vscode.window.showInputBox({
+        prompt: "Name of the new node pool",
+        validateInput: (value) => validateNodePoolName(value, osType as OSType),
+        ignoreFocusOut: true
+    });
+
+    if (name === undefined) {
+        return;
+    }
+
+    // Windows node pools can only be user pools.
+    const mode = osType === "Windows" ? "User" : await vscode.window.showQuickPick(["User", "System"], {
+        placeHolder: "Mode of the new node pool",
+        ignoreFocusOut: true
+    });
+
+    if (!mode) {
+        return;
+    }
+
+    const vmSize = await vscode.window.showInputBox({
+        prompt: "VM size of the nodes in the new node pool",
+        value: defaultVmSize,
+        validateInput: (value) => value.trim().length > 0 ? undefined : "VM size is required.",
+        ignoreFocusOut: true
+    });
+
+    if (vmSize === undefined) {
+        return;
+    }
+
+    const count = await vscode.window.showInputBox({
+        prompt: "Number of nodes in the new node pool",
+        value: "1",
+        validateInput: (value) => validateNodeCount(value, mode as AgentPoolMode),
+        ignoreFocusOut: true
+    });
+
+    if (count === undefined) {
+        return;
+    }
+
+    const agentPool: AgentPool = {
+        name,
+        osType: osType as OSType,
+        mode: mode as AgentPoolMode,
+        vmSize: vmSize.trim(),
+        count: Number(count),
+        type: "VirtualMachineScaleSets"
+    };
+
+    const result = await longRunning(`Adding node pool ${name} to ${cluster.result.name}.`,
+        () => addNodePool(cluster.result, agentPool)
+    );
+
+    if (failed(result)) {
+        vscode.window.showErrorMessage(result.error);
+        return;
+    }
+
+    vscode.window.showInformationMessage(`Node pool ${name} added to ${cluster.result.name}.`);
+    await cluster.result.refresh(context);
+}
+
+export async function aksDeleteNodePool(
+    context: IActionContext,
+    target: any
+): Promise<void> {
+    const cloudExplorer = await k8s.extension.cloudExplorer.v1;
+
+    const nodePool = getAksAgentPoolTreeItem(target, cloudExplorer);
+    if (failed(nodePool)) {
+        vscode.window.showErrorMessage(nodePool.error);
+        return;
+    }
+
+    const clusterName = nodePool.result.cluster.name;
+    const agentPoolName = nodePool.result.name;
+    const answer = await vscode.window.showWarningMessage(
+        `Delete node pool ${agentPoolName} from ${clusterName}? All nodes in the pool and the workloads running on them will be removed.`,
+        { modal: true },
+        "Delete");
+
+    if (answer !== "Delete") {
+        return;
+    }
+
+    const result = await longRunning(`Deleting node pool ${agentPoolName} from ${clusterName}.`,
+        () => deleteNodePool(nodePool.result.cluster, agentPoolName)
+    );
+
+    if (failed(result)) {
+        vscode.window.showErrorMessage(result.error);
+        return;
+    }
+
+    vscode.window.showInformationMessage(`Node pool ${agentPoolName} deleted from ${clusterName}.`);
+    await nodePool.result.cluster.refresh(context);
+}
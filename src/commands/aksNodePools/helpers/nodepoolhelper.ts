@@ -0,0 +1,143 @@
+import { AgentPool, AgentPoolMode, OSType } from '@azure/arm-containerservice';
+import AksClusterTreeItem from '../../../tree/aksClusterTreeItem';
+import { getContainerClient } from '../../utils/clusters';
+import { Errorable, failed } from '../../utils/errorable';
+
+const maxNodeCount = 1000;
+
+export interface AutoscalerSettings {
+    readonly minCount: number;
+    readonly maxCount: number;
+}
+
+export function validateNodePoolName(name: string, osType: OSType): string | undefined {
+    // https://docs.microsoft.com/en-us/azure/aks/use-multiple-node-pools#limitations
+    const maxLength = osType === "Windows" ? 6 : 12;
+    if (!/^[a-z][a-z0-9]*$/.test(name)) {
+        return "Node pool names must start with a lowercase letter and contain only lowercase letters and numbers.";
+    }
+
+    if (name.length > maxLength) {
+        return `${osType} node pool names must be at most ${maxLength} characters long.`;
+    }
+
+    return undefined;
+}
+
+export function validateNodeCount(value: string, mode: AgentPoolMode | undefined): string | undefined {
+    // System node pools must always have at least one node to host the system pods.
+    const minNodeCount = mode === "System" ? 1 : 0;
+    const count = Number(value);
+    if (!/^\d+$/.test(value.trim()) || count < minNodeCount || count > maxNodeCount) {
+        return `Node count must be a whole number between ${minNodeCount} and ${maxNodeCount}.`;
+    }
+
+    return undefined;
+}
+
+export function validateAutoscalerSettings(settings: AutoscalerSettings, mode: AgentPoolMode | undefined): string | undefined {
+    const minCountError = validateNodeCount(`${settings.minCount}`, mode);
+    if (minCountError) {
+        return `Minimum count: ${minCountError}`;
+    }
+
+    const maxCountError = validateNodeCount(`${settings.maxCount}`, mode);
+    if (maxCountError) {
+        return `Maximum count: ${maxCountError}`;
+    }
+
+    if (settings.minCount > settings.maxCount) {
+        return "Minimum count must not exceed maximum count.";
+    }
+
+    return undefined;
+}
+
+export function validateManualScaling(agentPool: AgentPool): string | undefined {
+    if (agentPool.enableAutoScaling) {
+        return `Node pool ${agentPool.name} is managed by the cluster autoscaler; change the autoscaler settings instead.`;
+    }
+
+    return undefined;
+}
+
+export async function scaleNodePool(
+    cluster: AksClusterTreeItem,
+    agentPoolName: string,
+    count: number
+): Promise<Errorable<AgentPool>> {
+    return updateCurrentNodePool(cluster, agentPoolName, (agentPool) => {
+        // The autoscaler may have been enabled since the node count was chosen.
+        const error = validateManualScaling(agentPool);
+        return error ? { succeeded: false, error } : { succeeded: true, result: { ...agentPool, count } };
+    });
+}
+
+export async function setNodePoolAutoscaler(
+    cluster: AksClusterTreeItem,
+    agentPoolName: string,
+    settings: AutoscalerSettings | undefined
+): Promise<Errorable<AgentPool>> {
+    return updateCurrentNodePool(cluster, agentPoolName, (agentPool) => settings === undefined ?
+        { succeeded: true, result: { ...agentPool, enableAutoScaling: false, minCount: undefined, maxCount: undefined } } :
+        { succeeded: true, result: { ...agentPool, enableAutoScaling: true, minCount: settings.minCount, maxCount: settings.maxCount } });
+}
+
+export async function addNodePool(
+    cluster: AksClusterTreeItem,
+    agentPool: AgentPool
+): Promise<Errorable<AgentPool>> {
+    return updateNodePool(cluster, agentPool);
+}
+
+export async function deleteNodePool(
+    cluster: AksClusterTreeItem,
+    agentPoolName: string
+): Promise<Errorable<void>> {
+    try {
+        const containerClient = getContainerClient(cluster);
+        await containerClient.agentPools.beginDeleteAndWait(cluster.resourceGroupName, cluster.name, agentPoolName);
+
+        return { succeeded: true, result: undefined };
+    } catch (ex) {
+        return { succeeded: false, error: `Error deleting node pool ${agentPoolName} from ${cluster.name}: ${ex}` };
+    }
+}
+
+// Node pools are written as a whole, so changes are applied to the node pool as it currently is rather than to
+// the (possibly outdated) one shown in the tree. The write is conditional on the ETag of the node pool that was
+// read, so that it fails rather than reverting changes made to the node pool in the meantime.
+async function updateCurrentNodePool(
+    cluster: AksClusterTreeItem,
+    agentPoolName: string,
+    update: (agentPool: AgentPool) => Errorable<AgentPool>
+): Promise<Errorable<AgentPool>> {
+    let agentPool: AgentPool;
+    try {
+        agentPool = await getContainerClient(cluster).agentPools.get(cluster.resourceGroupName, cluster.name, agentPoolName);
+    } catch (ex) {
+        return { succeeded: false, error: `Error retrieving node pool ${agentPoolName} of ${cluster.name}: ${ex}` };
+    }
+
+    const updated = update(agentPool);
+    if (failed(updated)) {
+        return updated;
+    }
+
+    return updateNodePool(cluster, updated.result, agentPool.eTag);
+}
+
+async function updateNodePool(
+    cluster: AksClusterTreeItem,
+    agentPool: AgentPool,
+    eTag?: string
+): Promise<Errorable<AgentPool>> {
+    try {
+        const containerClient = getContainerClient(cluster);
+        const result = await containerClient.agentPools.beginCreateOrUpdateAndWait(cluster.resourceGroupName, cluster.name, agentPool.name!, agentPool, { ifMatch: eTag });
+
+        return { succeeded: true, result };
+    } catch (ex) {
+        return { succeeded: false, error: `Error updating node pool ${agentPool.name} in ${cluster.name}: ${ex}` };
+    }
+}
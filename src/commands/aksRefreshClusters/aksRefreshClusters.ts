@@ -0,0 +1,21 @@
+import * as vscode from 'vscode';
+import * as k8s from 'vscode-kubernetes-tools-api';
+import { IActionContext } from "@microsoft/vscode-azext-utils";
+import { getAksClusterSubscriptionItem } from '../utils/clusters';
+import { failed } from '../utils/errorable';
+
+export default async function aksRefreshClusters(
+    context: IActionContext,
+    target: any
+): Promise<void> {
+    const cloudExplorer = await k8s.extension.cloudExplorer.v1;
+
+    const subscription = getAksClusterSubscriptionItem(target, cloudExplorer);
+    if (failed(subscription)) {
+        vscode.window.showErrorMessage(subscription.error);
+        return;
+    }
+
+    // Refreshing the subscription discards its clusters from the inventory, so they are listed again.
+    await subscription.result.refresh(context);
+}
@@ -0,0 +1,105 @@
+import * as vscode from 'vscode';
+import * as k8s from 'vscode-kubernetes-tools-api';
+import { IActionContext } from "@microsoft/vscode-azext-utils";
+import { getAksClusterTreeItem } from '../utils/clusters';
+import { getCloudEnvironment, getPortalResourceUrl } from '../utils/clouds';
+import { getExtensionPath, longRunning } from '../utils/host';
+import { getDetectorInfo, getDetectorListData, InsightStatus } from '../utils/detectors';
+import { failed } from '../utils/errorable';
+import { recordDiagnosticsRun } from '../utils/diagnosticshistory';
+import AksClusterTreeItem from '../../tree/aksClusterTreeItem';
+import { createWebView, getRenderedContent, getResourceUri } from '../utils/webviews';
+import {
+    CategoryReport,
+    DiagnosticCategory,
+    diagnosticCategories,
+    getCategoryDetectorIds,
+    getCategoryReport,
+    getDiagnosticsSummary,
+    getFailedCategoryReport
+} from './helpers/alldiagnosticshelper';
+
+export default async function aksRunAllDiagnostics(
+    context: IActionContext,
+    target: any
+): Promise<void> {
+    const cloudExplorer = await k8s.extension.cloudExplorer.v1;
+
+    const cluster = getAksClusterTreeItem(target, cloudExplorer);
+    if (failed(cluster)) {
+        vscode.window.showErrorMessage(cluster.error);
+        return;
+    }
+
+    const extensionPath = getExtensionPath();
+    if (failed(extensionPath)) {
+        vscode.window.showErrorMessage(extensionPath.error);
+        return;
+    }
+
+    const clustername = cluster.result.name;
+    const timestamp = new Date();
+    const reports = await longRunning(`Running all diagnostics for ${clustername}.`,
+        () => Promise.all(diagnosticCategories.map((category) => loadCategoryReport(cluster.result, category, timestamp))));
+
+    if (reports.every((r) => r.error)) {
+        vscode.window.showErrorMessage(`Error running diagnostics for ${clustername}: ${reports[0].error}`);
+        return;
+    }
+
+    const webview = createWebView('AKS Diagnostics', `AKS diagnostics report for: ${clustername}`).webview;
+    webview.html = getWebviewContent(cluster.result, reports, extensionPath.result);
+}
+
+// Failures are reported per category, so that one unavailable category doesn't hide the others.
+async function loadCategoryReport(
+    cloudTarget: AksClusterTreeItem,
+    category: DiagnosticCategory,
+    timestamp: Date
+): Promise<CategoryReport> {
+    const detectorInfo = await getDetectorInfo(cloudTarget, category.detectorName);
+    if (failed(detectorInfo)) {
+        return getFailedCategoryReport(category, detectorInfo.error);
+    }
+
+    if (!getCategoryDetectorIds(detectorInfo.result)) {
+        await recordDiagnosticsRun(cloudTarget, detectorInfo.result, [], timestamp);
+        return getCategoryReport(category, [detectorInfo.result]);
+    }
+
+    const detectorMap = await getDetectorListData(cloudTarget, detectorInfo.result);
+    if (failed(detectorMap)) {
+        return getFailedCategoryReport(category, detectorMap.error);
+    }
+
+    const detectors = [...detectorMap.result.values()];
+    await recordDiagnosticsRun(cloudTarget, detectorInfo.result, detectors, timestamp);
+    return getCategoryReport(category, detectors);
+}
+
+function getWebviewContent(
+    cloudTarget: AksClusterTreeItem,
+    reports: CategoryReport[],
+    vscodeExtensionPath: string
+): string {
+    const styleUri = getResourceUri(vscodeExtensionPath, 'common', 'detector.css');
+    const templateUri = getResourceUri(vscodeExtensionPath, 'aksalldiagnostics', 'alldiagnostics.html');
+    const data = {
+        cssuri: styleUri,
+        name: cloudTarget.name,
+        portalUrl: getPortalResourceUrl(getCloudEnvironment(cloudTarget.subscription), cloudTarget.armId, "aksDiagnostics"),
+        summary: getDiagnosticsSummary(reports),
+        categories: reports.map((r) => ({
+            ...r,
+            // Categories that need attention start expanded.
+            expanded: r.status === InsightStatus.Critical || r.status === InsightStatus.Warning,
+            detectors: r.detectors.map((d) => ({
+                ...d,
+                statusClass: d.status.toLowerCase(),
+                insights: d.insights.map((i) => ({ ...i, statusClass: i.status.toLowerCase() }))
+            }))
+        }))
+    };
+
+    return getRenderedContent(templateUri, data);
+}
@@ -0,0 +1,73 @@
+import { AppLensARMResponse, DetectorReport, getDetectorReport, getWorstStatus, InsightStatus } from '../../utils/detectors';
+
+export interface DiagnosticCategory {
+    readonly detectorName: string;
+    readonly displayName: string;
+}
+
+// The categories offered individually in the Run AKS Diagnostics menu.
+export const diagnosticCategories: DiagnosticCategory[] = [
+    { detectorName: "networkconnectivity", displayName: "Network and Connectivity" },
+    { detectorName: "aks-category-crud", displayName: "Create, Upgrade, Delete and Scale" },
+    { detectorName: "aks-category-risk-assessment", displayName: "Best Practices" },
+    { detectorName: "aks-category-identity-security", displayName: "Identity and Security" },
+    { detectorName: "aks-category-node-health", displayName: "Node Health" },
+    { detectorName: "aks-category-availability-perf", displayName: "Known Issues, Availability and Performance" }
+];
+
+export interface StatusCounts {
+    readonly critical: number;
+    readonly warning: number;
+    readonly success: number;
+    readonly info: number;
+}
+
+export interface CategoryReport {
+    readonly category: DiagnosticCategory;
+    readonly status: InsightStatus;
+    readonly counts: StatusCounts;
+    readonly detectors: DetectorReport[];
+    readonly error?: string;
+}
+
+// Category detectors list the detectors they consist of, whereas a detector like networkconnectivity
+// carries its insights itself.
+export function getCategoryDetectorIds(categoryResponse: AppLensARMResponse): string[] | undefined {
+    const detectorIds = categoryResponse.properties?.dataset?.[0]?.renderingProperties?.detectorIds;
+    return Array.isArray(detectorIds) && detectorIds.length > 0 ? detectorIds : undefined;
+}
+
+export function countStatuses(statuses: InsightStatus[]): StatusCounts {
+    return {
+        critical: statuses.filter((s) => s === InsightStatus.Critical).length,
+        warning: statuses.filter((s) => s === InsightStatus.Warning).length,
+        success: statuses.filter((s) => s === InsightStatus.Success).length,
+        info: statuses.filter((s) => s === InsightStatus.Info || s === InsightStatus.None).length
+    };
+}
+
+export function getCategoryReport(category: DiagnosticCategory, detectors: AppLensARMResponse[]): CategoryReport {
+    const detectorReports = detectors.map(getDetectorReport);
+    const statuses = detectorReports.map((d) => d.status);
+    return {
+        category,
+        status: getWorstStatus(statuses),
+        counts: countStatuses(statuses),
+        detectors: detectorReports
+    };
+}
+
+export function getFailedCategoryReport(category: DiagnosticCategory, error: string): CategoryReport {
+    return {
+        category,
+        status: InsightStatus.None,
+        counts: countStatuses([]),
+        detectors: [],
+        error
+    };
+}
+
+// Counts detectors across all categories by their most severe insight.
+export function getDiagnosticsSummary(categories: CategoryReport[]): StatusCounts {
+    return countStatuses(([] as InsightStatus[]).concat(...categories.map((c) => c.detectors.map((d) => d.status))));
+}
@@ -0,0 +1,113 @@
+import * as vscode from 'vscode';
+import * as k8s from 'vscode-kubernetes-tools-api';
+import { IActionContext } from "@microsoft/vscode-azext-utils";
+import { ManagedCluster } from '@azure/arm-containerservice';
+import { beginUpdateManagedCluster, getAksClusterTreeItem, getContainerClient } from '../utils/clusters';
+import { longRunning } from '../utils/host';
+import { Errorable, failed } from '../utils/errorable';
+import { trackOperation } from '../utils/operations';
+import AksClusterTreeItem from '../../tree/aksClusterTreeItem';
+import { getAvailableUpgradeVersions, getUpgradedCluster, getUpgradeStatus, UpgradeScope, UpgradeVersion } from './helpers/upgradehelper';
+
+export default async function aksUpgradeKubernetesVersion(
+    context: IActionContext,
+    target: any
+): Promise<void> {
+    const cloudExplorer = await k8s.extension.cloudExplorer.v1;
+
+    const cluster = getAksClusterTreeItem(target, cloudExplorer);
+    if (failed(cluster)) {
+        vscode.window.showErrorMessage(cluster.error);
+        return;
+    }
+
+    const clusterName = cluster.result.name;
+    const upgradeInfo = await longRunning(`Loading ${clusterName} upgrade profile.`, () => getUpgradeInfo(cluster.result));
+    if (failed(upgradeInfo)) {
+        vscode.window.showErrorMessage(upgradeInfo.error);
+        return;
+    }
+
+    const { managedCluster, versions } = upgradeInfo.result;
+    if (versions.length === 0) {
+        vscode.window.showInformationMessage(`No upgrades are available for ${clusterName} (currently on ${managedCluster.kubernetesVersion}).`);
+        return;
+    }
+
+    const version = await vscode.window.showQuickPick(
+        versions.map((v) => ({ label: v.kubernetesVersion, description: v.isPreview ? "preview" : undefined })),
+        {
+            placeHolder: `Upgrade ${clusterName} from ${managedCluster.kubernetesVersion} to`,
+            ignoreFocusOut: true
+        });
+
+    if (!version) {
+        return;
+    }
+
+    const scope = await vscode.window.showQuickPick(
+        [
+            { label: "Control plane and all node pools", scope: UpgradeScope.ControlPlaneAndNodePools },
+            { label: "Control plane only", scope: UpgradeScope.ControlPlaneOnly }
+        ],
+        {
+            placeHolder: `What should be upgraded to ${version.label}?`,
+            ignoreFocusOut: true
+        });
+
+    if (!scope) {
+        return;
+    }
+
+    const answer = await vscode.window.showWarningMessage(
+        `Upgrade ${clusterName} (${scope.label.toLowerCase()}) to Kubernetes ${version.label}? This cannot be undone and may take a long time.`,
+        { modal: true },
+        "Upgrade");
+
+    if (answer !== "Upgrade") {
+        return;
+    }
+
+    const result = await upgradeCluster(cluster.result, version.label, scope.scope);
+    if (failed(result)) {
+        vscode.window.showErrorMessage(result.error);
+        return;
+    }
+
+    vscode.window.showInformationMessage(`Cluster ${clusterName} upgraded to Kubernetes ${result.result.kubernetesVersion}.`);
+    await cluster.result.refresh(context);
+}
+
+async function getUpgradeInfo(
+    target: AksClusterTreeItem
+): Promise<Errorable<{ managedCluster: ManagedCluster, versions: UpgradeVersion[] }>> {
+    try {
+        const containerClient = getContainerClient(target);
+        const managedCluster = await containerClient.managedClusters.get(target.resourceGroupName, target.name);
+        const upgradeProfile = await containerClient.managedClusters.getUpgradeProfile(target.resourceGroupName, target.name);
+
+        return { succeeded: true, result: { managedCluster, versions: getAvailableUpgradeVersions(upgradeProfile) } };
+    } catch (ex) {
+        return { succeeded: false, error: `Error retrieving upgrade profile for ${target.name}: ${ex}` };
+    }
+}
+
+async function upgradeCluster(
+    target: AksClusterTreeItem,
+    kubernetesVersion: string,
+    scope: UpgradeScope
+): Promise<Errorable<ManagedCluster>> {
+    const containerClient = getContainerClient(target);
+
+    const result = await trackOperation(
+        `Upgrading ${target.name} to Kubernetes ${kubernetesVersion}.`,
+        (options) => beginUpdateManagedCluster(target, (cluster) => Object.assign(cluster, getUpgradedCluster(cluster, kubernetesVersion, scope)), options),
+        async () => getUpgradeStatus(await containerClient.managedClusters.get(target.resourceGroupName, target.name), kubernetesVersion)
+    );
+
+    if (failed(result)) {
+        return { succeeded: false, error: `Error upgrading ${target.name} to Kubernetes ${kubernetesVersion}: ${result.error}` };
+    }
+
+    return result;
+}
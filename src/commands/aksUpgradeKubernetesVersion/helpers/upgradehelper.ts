@@ -0,0 +1,42 @@
+import { ManagedCluster, ManagedClusterUpgradeProfile } from '@azure/arm-containerservice';
+import * as semver from 'semver';
+
+export enum UpgradeScope {
+    ControlPlaneOnly = "controlPlaneOnly",
+    ControlPlaneAndNodePools = "controlPlaneAndNodePools"
+}
+
+export interface UpgradeVersion {
+    readonly kubernetesVersion: string;
+    readonly isPreview: boolean;
+}
+
+export function getAvailableUpgradeVersions(upgradeProfile: ManagedClusterUpgradeProfile): UpgradeVersion[] {
+    const upgrades = upgradeProfile.controlPlaneProfile.upgrades || [];
+
+    return upgrades
+        .filter((u) => u.kubernetesVersion)
+        .map((u) => ({ kubernetesVersion: u.kubernetesVersion!, isPreview: u.isPreview || false }))
+        .sort((a, b) => semver.rcompare(a.kubernetesVersion, b.kubernetesVersion));
+}
+
+export function getUpgradedCluster(
+    cluster: ManagedCluster,
+    kubernetesVersion: string,
+    scope: UpgradeScope
+): ManagedCluster {
+    // Pinning each agent pool's orchestrator version to its current value keeps node pools where they are
+    // for a control-plane-only upgrade, which is the same request the Azure CLI makes for `--control-plane-only`.
+    const agentPoolProfiles = cluster.agentPoolProfiles?.map((p) => ({
+        ...p,
+        orchestratorVersion: scope === UpgradeScope.ControlPlaneAndNodePools ? kubernetesVersion : p.orchestratorVersion
+    }));
+
+    return { ...cluster, kubernetesVersion, agentPoolProfiles };
+}
+
+export function getUpgradeStatus(cluster: ManagedCluster, kubernetesVersion: string): string {
+    const agentPools = cluster.agentPoolProfiles || [];
+    const upgradedCount = agentPools.filter((p) => p.currentOrchestratorVersion === kubernetesVersion).length;
+    return `${cluster.provisioningState}: ${upgradedCount} of ${agentPools.length} node pools on ${kubernetesVersion}.`;
+}
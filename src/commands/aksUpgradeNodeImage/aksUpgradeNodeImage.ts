@@ -0,0 +1,147 @@
+import * as vscode from 'vscode';
+import * as k8s from 'vscode-kubernetes-tools-api';
+import { IActionContext } from "@microsoft/vscode-azext-utils";
+import { getAgentPools, getAksAgentPoolTreeItem, getAksClusterTreeItem, getContainerClient } from '../utils/clusters';
+import { longRunning } from '../utils/host';
+import { Errorable, failed } from '../utils/errorable';
+import { runOperation } from '../utils/operations';
+import AksClusterTreeItem from '../../tree/aksClusterTreeItem';
+import { getNodeImageStatuses, NodeImageStatus, NodeImageUpgradeResult, summarizeNodeImageUpgrades } from './helpers/nodeimagehelper';
+
+export async function aksUpgradeClusterNodeImages(
+    context: IActionContext,
+    target: any
+): Promise<void> {
+    const cloudExplorer = await k8s.extension.cloudExplorer.v1;
+
+    const cluster = getAksClusterTreeItem(target, cloudExplorer);
+    if (failed(cluster)) {
+        vscode.window.showErrorMessage(cluster.error);
+        return;
+    }
+
+    const statuses = await longRunning(`Loading node image versions of ${cluster.result.name}.`, () => loadNodeImageStatuses(cluster.result));
+    if (failed(statuses)) {
+        vscode.window.showErrorMessage(statuses.error);
+        return;
+    }
+
+    if (statuses.result.every((s) => s.isUpToDate)) {
+        vscode.window.showInformationMessage(`All node pools of ${cluster.result.name} already run the latest node image.`);
+        return;
+    }
+
+    const selected = await vscode.window.showQuickPick(
+        statuses.result.map((s) => ({
+            label: s.agentPoolName,
+            description: s.isUpToDate ? `${s.currentVersion} (latest)` : `${s.currentVersion} → ${s.latestVersion}`,
+            picked: !s.isUpToDate,
+            status: s
+        })),
+        {
+            placeHolder: `Node pools of ${cluster.result.name} to upgrade to the latest node image`,
+            canPickMany: true,
+            ignoreFocusOut: true
+        });
+
+    if (!selected || selected.length === 0) {
+        return;
+    }
+
+    await upgradeNodeImages(cluster.result, selected.map((s) => s.status));
+    await cluster.result.refresh(context);
+}
+
+export async function aksUpgradeNodePoolNodeImage(
+    context: IActionContext,
+    target: any
+): Promise<void> {
+    const cloudExplorer = await k8s.extension.cloudExplorer.v1;
+
+    const nodePool = getAksAgentPoolTreeItem(target, cloudExplorer);
+    if (failed(nodePool)) {
+        vscode.window.showErrorMessage(nodePool.error);
+        return;
+    }
+
+    const cluster = nodePool.result.cluster;
+    const statuses = await longRunning(`Loading node image version of ${nodePool.result.name}.`, () => loadNodeImageStatuses(cluster));
+    if (failed(statuses)) {
+        vscode.window.showErrorMessage(statuses.error);
+        return;
+    }
+
+    const status = statuses.result.find((s) => s.agentPoolName === nodePool.result.name);
+    if (!status) {
+        vscode.window.showErrorMessage(`Node pool ${nodePool.result.name} was not found in ${cluster.name}.`);
+        return;
+    }
+
+    if (status.isUpToDate) {
+        vscode.window.showInformationMessage(`Node pool ${status.agentPoolName} already runs the latest node image ${status.latestVersion}.`);
+        return;
+    }
+
+    const answer = await vscode.window.showWarningMessage(
+        `Upgrade the node image of node pool ${status.agentPoolName} from ${status.currentVersion} to ${status.latestVersion}? The nodes will be reimaged one by one.`,
+        { modal: true },
+        "Upgrade");
+
+    if (answer !== "Upgrade") {
+        return;
+    }
+
+    await upgradeNodeImages(cluster, [status]);
+    await cluster.refresh(context);
+}
+
+async function loadNodeImageStatuses(cluster: AksClusterTreeItem): Promise<Errorable<NodeImageStatus[]>> {
+    const agentPools = await getAgentPools(cluster);
+    if (failed(agentPools)) {
+        return agentPools;
+    }
+
+    return await getNodeImageStatuses(cluster, agentPools.result);
+}
+
+// Upgrades the node pools one after another, since a cluster only allows one node pool operation at a time,
+// tracking all of them in a single notification and summarizing the outcome at the end.
+async function upgradeNodeImages(
+    cluster: AksClusterTreeItem,
+    statuses: NodeImageStatus[]
+): Promise<void> {
+    const containerClient = getContainerClient(cluster);
+    const options = {
+        location: vscode.ProgressLocation.Notification,
+        title: `Upgrading node images of ${cluster.name}`
+    };
+
+    const results = await vscode.window.withProgress(options, async (progress) => {
+        const upgradeResults: NodeImageUpgradeResult[] = [];
+        for (const [index, status] of statuses.entries()) {
+            const poolProgress = `${status.agentPoolName} (${index + 1} of ${statuses.length})`;
+            progress.report({ message: `${poolProgress}: starting.` });
+
+            const result = await runOperation(
+                (responseOptions) => containerClient.agentPools.beginUpgradeNodeImageVersion(cluster.resourceGroupName, cluster.name, status.agentPoolName, responseOptions),
+                async () => (await containerClient.agentPools.get(cluster.resourceGroupName, cluster.name, status.agentPoolName)).provisioningState,
+                (state) => progress.report({ message: `${poolProgress}: ${state}.` })
+            );
+
+            upgradeResults.push({
+                agentPoolName: status.agentPoolName,
+                targetVersion: status.latestVersion,
+                error: failed(result) ? result.error : undefined
+            });
+        }
+
+        return upgradeResults;
+    });
+
+    const summary = summarizeNodeImageUpgrades(cluster.name, results);
+    if (results.some((r) => r.error !== undefined)) {
+        vscode.window.showErrorMessage(summary);
+    } else {
+        vscode.window.showInformationMessage(summary);
+    }
+}
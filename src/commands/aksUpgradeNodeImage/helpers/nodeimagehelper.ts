@@ -0,0 +1,59 @@
+import { AgentPool, AgentPoolUpgradeProfile } from '@azure/arm-containerservice';
+import AksClusterTreeItem from '../../../tree/aksClusterTreeItem';
+import { getContainerClient } from '../../utils/clusters';
+import { Errorable } from '../../utils/errorable';
+
+export interface NodeImageStatus {
+    readonly agentPoolName: string;
+    readonly currentVersion: string;
+    readonly latestVersion: string;
+    readonly isUpToDate: boolean;
+}
+
+export interface NodeImageUpgradeResult {
+    readonly agentPoolName: string;
+    readonly targetVersion: string;
+    // Undefined if the upgrade succeeded.
+    readonly error?: string;
+}
+
+export function getNodeImageStatus(agentPool: AgentPool, upgradeProfile: AgentPoolUpgradeProfile): NodeImageStatus {
+    const currentVersion = agentPool.nodeImageVersion || "unknown";
+    const latestVersion = upgradeProfile.latestNodeImageVersion || currentVersion;
+    return {
+        agentPoolName: agentPool.name!,
+        currentVersion,
+        latestVersion,
+        isUpToDate: currentVersion === latestVersion
+    };
+}
+
+export function summarizeNodeImageUpgrades(clusterName: string, results: NodeImageUpgradeResult[]): string {
+    const succeeded = results.filter((r) => r.error === undefined);
+    const lines = [`Node image upgrade of ${clusterName}: ${succeeded.length} of ${results.length} node pools upgraded.`];
+    for (const result of results) {
+        lines.push(result.error === undefined ?
+            `${result.agentPoolName}: upgraded to ${result.targetVersion}.` :
+            `${result.agentPoolName}: failed: ${result.error}`);
+    }
+
+    return lines.join("\n");
+}
+
+export async function getNodeImageStatuses(
+    cluster: AksClusterTreeItem,
+    agentPools: AgentPool[]
+): Promise<Errorable<NodeImageStatus[]>> {
+    try {
+        const containerClient = getContainerClient(cluster);
+        const statuses: NodeImageStatus[] = [];
+        for (const agentPool of agentPools) {
+            const upgradeProfile = await containerClient.agentPools.getUpgradeProfile(cluster.resourceGroupName, cluster.name, agentPool.name!);
+            statuses.push(getNodeImageStatus(agentPool, upgradeProfile));
+        }
+
+        return { succeeded: true, result: statuses };
+    } catch (ex) {
+        return { succeeded: false, error: `Error retrieving node image versions for ${cluster.name}: ${ex}` };
+    }
+}
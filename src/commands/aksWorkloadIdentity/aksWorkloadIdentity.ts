@@ -0,0 +1,215 @@
+import * as vscode from 'vscode';
+import * as k8s from 'vscode-kubernetes-tools-api';
+import { APIAvailable, KubectlV1 } from 'vscode-kubernetes-tools-api';
+import { IActionContext } from "@microsoft/vscode-azext-utils";
+import { getAksClusterTreeItem, getProvisioningState } from '../utils/clusters';
+import { longRunning } from '../utils/host';
+import { Errorable, failed } from '../utils/errorable';
+import { trackOperation } from '../utils/operations';
+import { ClusterConnection, getClusterConnection, invokeClusterKubectlCommand } from '../utils/kubectl';
+import { withOptionalTempFile } from '../utils/tempfile';
+import AksClusterTreeItem from '../../tree/aksClusterTreeItem';
+import {
+    beginEnableWorkloadIdentity,
+    createFederatedCredential,
+    createManagedIdentity,
+    getClusterWorkloadIdentityState,
+    getServiceAccountYaml,
+    listManagedIdentities,
+    ManagedIdentity,
+    validateKubernetesName,
+    validateManagedIdentityName
+} from './helpers/workloadidentityhelper';
+
+export default async function aksWorkloadIdentity(
+    context: IActionContext,
+    target: any
+): Promise<void> {
+    const kubectl = await k8s.extension.kubectl.v1;
+    const cloudExplorer = await k8s.extension.cloudExplorer.v1;
+
+    if (!kubectl.available) {
+        vscode.window.showWarningMessage(`Kubectl is unavailable.`);
+        return;
+    }
+
+    const cluster = getAksClusterTreeItem(target, cloudExplorer);
+    if (failed(cluster)) {
+        vscode.window.showErrorMessage(cluster.error);
+        return;
+    }
+
+    // Step 1: the cluster must issue OIDC tokens and run the workload identity webhook.
+    const issuerUrl = await ensureWorkloadIdentityEnabled(cluster.result);
+    if (failed(issuerUrl)) {
+        vscode.window.showErrorMessage(issuerUrl.error);
+        return;
+    }
+
+    if (!issuerUrl.result) {
+        return;
+    }
+
+    // Step 2: the managed identity that workloads authenticate as.
+    const identity = await selectManagedIdentity(cluster.result);
+    if (failed(identity)) {
+        vscode.window.showErrorMessage(identity.error);
+        return;
+    }
+
+    if (!identity.result) {
+        return;
+    }
+
+    // Step 3: the service account that workloads run as.
+    const connection = await longRunning(`Connecting to ${cluster.result.name}.`, () => getClusterConnection(cluster.result));
+    if (failed(connection)) {
+        vscode.window.showErrorMessage(connection.error);
+        return;
+    }
+
+    const namespace = await selectNamespace(kubectl, connection.result, cluster.result.name);
+    if (failed(namespace)) {
+        vscode.window.showErrorMessage(namespace.error);
+        return;
+    }
+
+    if (!namespace.result) {
+        return;
+    }
+
+    const serviceAccountName = await vscode.window.showInputBox({
+        prompt: `Name of the service account in namespace ${namespace.result} that authenticates as ${identity.result.name}`,
+        value: "workload-identity-sa",
+        validateInput: (value) => validateKubernetesName(value, false)
+    });
+
+    if (!serviceAccountName) {
+        return;
+    }
+
+    // Step 4: trust tokens issued to the service account, and annotate it with the identity.
+    const credentialName = await longRunning(
+        `Creating federated identity credential for ${namespace.result}/${serviceAccountName}.`,
+        () => createFederatedCredential(cluster.result, identity.result!, issuerUrl.result!, namespace.result!, serviceAccountName));
+    if (failed(credentialName)) {
+        vscode.window.showErrorMessage(credentialName.error);
+        return;
+    }
+
+    const serviceAccountYaml = getServiceAccountYaml(namespace.result, serviceAccountName, identity.result);
+    const applyResult = await longRunning(`Applying service account ${namespace.result}/${serviceAccountName}.`,
+        () => withOptionalTempFile(serviceAccountYaml, "yaml",
+            (yamlFile) => invokeClusterKubectlCommand(kubectl, connection.result, `apply -f "${yamlFile}"`, [yamlFile])));
+    if (failed(applyResult)) {
+        vscode.window.showErrorMessage(`Federated identity credential ${credentialName.result} was created, but the service account could not be applied: ${applyResult.error}`);
+        return;
+    }
+
+    vscode.window.showInformationMessage(
+        `Workload identity is set up. Pods in namespace ${namespace.result} that use service account ${serviceAccountName} ` +
+        `and have the label azure.workload.identity/use: "true" authenticate as managed identity ${identity.result.name} ` +
+        `(client ID ${identity.result.clientId}). Grant the identity access to the Azure resources the pods use.`);
+}
+
+// Returns the OIDC issuer URL of the cluster, after enabling workload identity if the user agrees,
+// or undefined if the user declines.
+async function ensureWorkloadIdentityEnabled(cluster: AksClusterTreeItem): Promise<Errorable<string | undefined>> {
+    const state = await longRunning(`Checking workload identity on ${cluster.name}.`, () => getClusterWorkloadIdentityState(cluster));
+    if (failed(state)) {
+        return state;
+    }
+
+    if (state.result.oidcIssuerEnabled && state.result.workloadIdentityEnabled && state.result.oidcIssuerUrl) {
+        return { succeeded: true, result: state.result.oidcIssuerUrl };
+    }
+
+    const missing = [
+        state.result.oidcIssuerEnabled ? undefined : "the OIDC issuer",
+        state.result.workloadIdentityEnabled ? undefined : "workload identity"
+    ].filter((m) => m).join(" and ");
+
+    const answer = await vscode.window.showWarningMessage(
+        `Cluster ${cluster.name} needs ${missing || "the OIDC issuer"} enabled to use workload identity. Enable it now? Updating the cluster can take several minutes.`,
+        { modal: true },
+        "Enable");
+
+    if (answer !== "Enable") {
+        return { succeeded: true, result: undefined };
+    }
+
+    const result = await trackOperation(
+        `Enabling workload identity on cluster ${cluster.name}.`,
+        (options) => beginEnableWorkloadIdentity(cluster, options),
+        async () => `Cluster is ${await getProvisioningState(cluster)}.`
+    );
+
+    if (failed(result)) {
+        return { succeeded: false, error: `Error enabling workload identity on cluster ${cluster.name}: ${result.error}` };
+    }
+
+    const updatedState = await getClusterWorkloadIdentityState(cluster);
+    if (failed(updatedState)) {
+        return updatedState;
+    }
+
+    if (!updatedState.result.oidcIssuerUrl) {
+        return { succeeded: false, error: `Cluster ${cluster.name} has no OIDC issuer URL after enabling workload identity.` };
+    }
+
+    return { succeeded: true, result: updatedState.result.oidcIssuerUrl };
+}
+
+async function selectManagedIdentity(cluster: AksClusterTreeItem): Promise<Errorable<ManagedIdentity | undefined>> {
+    const identities = await longRunning(`Listing managed identities.`, () => listManagedIdentities(cluster));
+    if (failed(identities)) {
+        return identities;
+    }
+
+    const createItem = { label: "$(add) Create a new managed identity...", identity: undefined };
+    const identityItems = identities.result.map((i) => ({ label: i.name, description: i.resourceGroup, detail: `Client ID: ${i.clientId}`, identity: i }));
+    const selected = await vscode.window.showQuickPick([createItem, ...identityItems], {
+        placeHolder: "Managed identity for the workloads to authenticate as",
+        matchOnDescription: true
+    });
+
+    if (!selected) {
+        return { succeeded: true, result: undefined };
+    }
+
+    if (selected.identity) {
+        return { succeeded: true, result: selected.identity };
+    }
+
+    const existingNames = identities.result.filter((i) => i.resourceGroup.toLowerCase() === cluster.resourceGroupName.toLowerCase()).map((i) => i.name.toLowerCase());
+    const name = await vscode.window.showInputBox({
+        prompt: `Name of the managed identity to create in resource group ${cluster.resourceGroupName}`,
+        value: `${cluster.name}-workload-identity`,
+        validateInput: (value) => existingNames.includes(value.toLowerCase()) ?
+            `Resource group ${cluster.resourceGroupName} already has a managed identity named ${value}.` :
+            validateManagedIdentityName(value)
+    });
+
+    if (!name) {
+        return { succeeded: true, result: undefined };
+    }
+
+    const location = cluster.resource.location!;
+    return await longRunning(`Creating managed identity ${name}.`, () => createManagedIdentity(cluster, cluster.resourceGroupName, name, location));
+}
+
+async function selectNamespace(
+    kubectl: APIAvailable<KubectlV1>,
+    connection: ClusterConnection,
+    clusterName: string
+): Promise<Errorable<string | undefined>> {
+    const command = `get namespaces -o jsonpath="{.items[*].metadata.name}"`;
+    const result = await longRunning(`Listing namespaces of ${clusterName}.`, () => invokeClusterKubectlCommand(kubectl, connection, command));
+    if (failed(result)) {
+        return result;
+    }
+
+    const namespaces = result.result.stdout.trim().split(/\s+/).filter((n) => n);
+    const selected = await vscode.window.showQuickPick(namespaces, { placeHolder: "Namespace of the service account" });
+    return { succeeded: true, result: selected };
+}
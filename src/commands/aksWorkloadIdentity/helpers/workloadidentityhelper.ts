@@ -0,0 +1,168 @@
+import { ManagedCluster } from '@azure/arm-containerservice';
+import AksClusterTreeItem from '../../../tree/aksClusterTreeItem';
+import { parseResource } from '../../../azure-api-utils';
+import { getNextLinkPath, sendArmRequest } from '../../utils/arm';
+import { beginUpdateManagedCluster, getManagedCluster } from '../../utils/clusters';
+import { Errorable, failed } from '../../utils/errorable';
+import { OperationPoller, OperationResponseOptions } from '../../utils/operations';
+
+const managedIdentityApiVersion = "2023-01-31";
+
+// The audience that Azure AD expects in tokens exchanged for workload identities.
+const tokenExchangeAudience = "api://AzureADTokenExchange";
+
+export interface WorkloadIdentityState {
+    readonly oidcIssuerEnabled: boolean;
+    readonly oidcIssuerUrl?: string;
+    readonly workloadIdentityEnabled: boolean;
+}
+
+export interface ManagedIdentity {
+    readonly id: string;
+    readonly name: string;
+    readonly resourceGroup: string;
+    readonly location: string;
+    readonly clientId: string;
+    readonly tenantId: string;
+}
+
+export function getWorkloadIdentityState(cluster: ManagedCluster): WorkloadIdentityState {
+    return {
+        oidcIssuerEnabled: cluster.oidcIssuerProfile?.enabled === true,
+        oidcIssuerUrl: cluster.oidcIssuerProfile?.issuerURL || undefined,
+        workloadIdentityEnabled: cluster.securityProfile?.workloadIdentity?.enabled === true
+    };
+}
+
+// Workload identity requires the OIDC issuer, so both are enabled together.
+export function enableWorkloadIdentity(cluster: ManagedCluster): void {
+    cluster.oidcIssuerProfile = { ...cluster.oidcIssuerProfile, enabled: true };
+    cluster.securityProfile = { ...cluster.securityProfile, workloadIdentity: { enabled: true } };
+}
+
+export function getServiceAccountSubject(namespace: string, serviceAccountName: string): string {
+    return `system:serviceaccount:${namespace}:${serviceAccountName}`;
+}
+
+// Federated identity credential names are 3-120 characters, start with a letter or digit, and otherwise
+// contain letters, digits, dashes and underscores.
+export function getFederatedCredentialName(clusterName: string, namespace: string, serviceAccountName: string): string {
+    const name = `${clusterName}-${namespace}-${serviceAccountName}`.replace(/[^A-Za-z0-9_-]/g, "-").replace(/^[^A-Za-z0-9]+/, "");
+    return name.substring(0, 120).padEnd(3, "0");
+}
+
+// Namespace and service account names must be DNS labels and subdomains respectively.
+export function validateKubernetesName(name: string, isNamespace: boolean): string | undefined {
+    const maxLength = isNamespace ? 63 : 253;
+    const pattern = isNamespace ? /^[a-z0-9]([-a-z0-9]*[a-z0-9])?$/ : /^[a-z0-9]([-a-z0-9]*[a-z0-9])?(\.[a-z0-9]([-a-z0-9]*[a-z0-9])?)*$/;
+    if (!name || name.length > maxLength || !pattern.test(name)) {
+        return `The name must consist of at most ${maxLength} lower case letters, digits and '-'${isNamespace ? "" : " or '.'"}, and start and end with a letter or digit.`;
+    }
+
+    return undefined;
+}
+
+// Managed identity names are 3-128 characters: letters, digits, dashes and underscores, starting with a letter or digit.
+export function validateManagedIdentityName(name: string): string | undefined {
+    if (!/^[A-Za-z0-9][A-Za-z0-9_-]{2,127}$/.test(name)) {
+        return "The name must be 3-128 letters, digits, '-' or '_', starting with a letter or digit.";
+    }
+
+    return undefined;
+}
+
+export function getServiceAccountYaml(namespace: string, serviceAccountName: string, identity: ManagedIdentity): string {
+    return [
+        "apiVersion: v1",
+        "kind: ServiceAccount",
+        "metadata:",
+        `  name: ${serviceAccountName}`,
+        `  namespace: ${namespace}`,
+        "  annotations:",
+        `    azure.workload.identity/client-id: "${identity.clientId}"`,
+        `    azure.workload.identity/tenant-id: "${identity.tenantId}"`,
+        ""
+    ].join("\n");
+}
+
+export async function getClusterWorkloadIdentityState(target: AksClusterTreeItem): Promise<Errorable<WorkloadIdentityState>> {
+    const cluster = await getManagedCluster(target);
+    if (failed(cluster)) {
+        return cluster;
+    }
+
+    return { succeeded: true, result: getWorkloadIdentityState(cluster.result) };
+}
+
+export async function beginEnableWorkloadIdentity(target: AksClusterTreeItem, options: OperationResponseOptions): Promise<OperationPoller<ManagedCluster>> {
+    return await beginUpdateManagedCluster(target, enableWorkloadIdentity, options);
+}
+
+// Managed identities are read with raw requests, since this extension doesn't depend on the managed identity SDK.
+export async function listManagedIdentities(target: AksClusterTreeItem): Promise<Errorable<ManagedIdentity[]>> {
+    const identities: ManagedIdentity[] = [];
+    let path: string | undefined = `/subscriptions/${target.subscription.subscriptionId}/providers/Microsoft.ManagedIdentity/userAssignedIdentities`;
+    while (path) {
+        const response: Errorable<any> = await sendArmRequest(target.subscription, "GET", path, managedIdentityApiVersion);
+        if (failed(response)) {
+            return { succeeded: false, error: `Error listing managed identities: ${response.error}` };
+        }
+
+        identities.push(...(response.result?.value || []).map(toManagedIdentity));
+
+        const nextLink: string | undefined = response.result?.nextLink;
+        path = nextLink ? getNextLinkPath(nextLink) : undefined;
+    }
+
+    return { succeeded: true, result: identities.sort((a, b) => a.name.localeCompare(b.name)) };
+}
+
+export async function createManagedIdentity(
+    target: AksClusterTreeItem,
+    resourceGroup: string,
+    name: string,
+    location: string
+): Promise<Errorable<ManagedIdentity>> {
+    const path = `/subscriptions/${target.subscription.subscriptionId}/resourceGroups/${resourceGroup}/providers/Microsoft.ManagedIdentity/userAssignedIdentities/${name}`;
+    const response = await sendArmRequest(target.subscription, "PUT", path, managedIdentityApiVersion, { location });
+    if (failed(response)) {
+        return { succeeded: false, error: `Error creating managed identity ${name}: ${response.error}` };
+    }
+
+    return { succeeded: true, result: toManagedIdentity(response.result) };
+}
+
+export async function createFederatedCredential(
+    target: AksClusterTreeItem,
+    identity: ManagedIdentity,
+    issuerUrl: string,
+    namespace: string,
+    serviceAccountName: string
+): Promise<Errorable<string>> {
+    const name = getFederatedCredentialName(target.name, namespace, serviceAccountName);
+    const body = {
+        properties: {
+            issuer: issuerUrl,
+            subject: getServiceAccountSubject(namespace, serviceAccountName),
+            audiences: [tokenExchangeAudience]
+        }
+    };
+
+    const response = await sendArmRequest(target.subscription, "PUT", `${identity.id}/federatedIdentityCredentials/${name}`, managedIdentityApiVersion, body);
+    if (failed(response)) {
+        return { succeeded: false, error: `Error creating federated identity credential ${name} for ${identity.name}: ${response.error}` };
+    }
+
+    return { succeeded: true, result: name };
+}
+
+function toManagedIdentity(resource: any): ManagedIdentity {
+    return {
+        id: resource.id,
+        name: resource.name,
+        resourceGroup: parseResource(resource.id).resourceGroupName || "",
+        location: resource.location,
+        clientId: resource.properties?.clientId,
+        tenantId: resource.properties?.tenantId
+    };
+}
@@ -4,12 +4,11 @@ import * as path from 'path';
 import * as fs from 'fs';
 import { getExtensionPath, longRunning } from '../../utils/host';
 import { OperatorSettings } from '../models/operatorSettings';
-import * as tmpfile from '../../utils/tempfile';
 import AksClusterTreeItem from '../../../tree/aksClusterTreeItem';
 import { InstallationResponse } from '../models/installationResponse';
-import * as clusters from '../../utils/clusters';
 import { createASOWebView } from './azureservicehtmlhelper';
 import { failed } from '../../utils/errorable';
+import { ClusterConnection, getClusterConnection, runClusterKubectlCommand } from '../../utils/kubectl';
 const tmp = require('tmp');
 
 export async function startInstallation(
@@ -21,33 +20,33 @@ export async function startInstallation(
     operatorSettingsInfo: OperatorSettings
 ): Promise<void | undefined> {
 
-    const clusterKubeConfig = await clusters.getKubeconfigYaml(aksCluster);
-    if (failed(clusterKubeConfig)) {
-        vscode.window.showErrorMessage(clusterKubeConfig.error);
+    const clusterConnection = await getClusterConnection(aksCluster);
+    if (failed(clusterConnection)) {
+        vscode.window.showErrorMessage(clusterConnection.error);
         return undefined;
     }
 
     // 1) Install Cert-Manager https://azure.github.io/azure-service-operator/.
     // Also, page to refer: https://operatorhub.io/operator/azure-service-operator (Click Install button as top of the page)
     installationResponse.installCertManagerResult = await longRunning(`Installing Cert-Manager resource...`,
-        () => installCertManager(kubectl, clusterKubeConfig.result)
+        () => installCertManager(kubectl, clusterConnection.result)
     );
     if (!isInstallationSuccessfull(webview, extensionPath, installationResponse.installCertManagerResult, installationResponse)) return undefined;
 
     installationResponse.installOperatorResult = await longRunning(`Installing Opreator Namespace...`,
-        () => installOperator(kubectl, clusterKubeConfig.result)
+        () => installOperator(kubectl, clusterConnection.result)
     );
     if (!isInstallationSuccessfull(webview, extensionPath, installationResponse.installOperatorResult, installationResponse)) return undefined;
 
     // 2) Run kubectl apply for azureoperatorsettings.yaml
     installationResponse.installOperatorSettingsResult = await longRunning(`Installing Azure Service Operator Settings...`,
-        () => installOperatorSettings(kubectl, operatorSettingsInfo, clusterKubeConfig.result)
+        () => installOperatorSettings(kubectl, operatorSettingsInfo, clusterConnection.result)
     );
     if (!isInstallationSuccessfull(webview, extensionPath, installationResponse.installOperatorSettingsResult, installationResponse)) return undefined;
 
     // 3) Final step: Get the azure service operator pod. - kubectl get pods -n azureserviceoperator-system
     installationResponse.getOperatorsPodResult = await longRunning(`Getting Azure Service Operator Pod...`,
-        () => getOperatorsPod(kubectl, clusterKubeConfig.result)
+        () => getOperatorsPod(kubectl, clusterConnection.result)
     );
     if (!isInstallationSuccessfull(webview, extensionPath, installationResponse.getOperatorsPodResult, installationResponse)) return undefined;
 
@@ -56,25 +55,23 @@ export async function startInstallation(
 
 async function getOperatorsPod(
     kubectl: k8s.KubectlV1,
-    clusterKubeConfig: string
+    clusterConnection: ClusterConnection
 ): Promise<k8s.KubectlV1.ShellResult | undefined> {
     // kubectl get pods -n operators
     const command = `get pods -n azureserviceoperator-system`;
     const failureDescription = "Get azureserviceoperator-system pod had following error";
 
-    const result = await invokeKubectlCommand(kubectl, clusterKubeConfig, command, failureDescription);
+    const result = await invokeKubectlCommand(kubectl, clusterConnection, command, failureDescription);
     return result;
 }
 
 async function installCertManager(
     kubectl: k8s.KubectlV1,
-    clusterKubeConfig: string
+    clusterConnection: ClusterConnection
 ): Promise<k8s.KubectlV1.ShellResult | undefined> {
     try {
         const asoCrdYamlFile = "https://github.com/jetstack/cert-manager/releases/download/v1.7.1/cert-manager.yaml";
-        const runResult = await tmpfile.withOptionalTempFile<k8s.KubectlV1.ShellResult | undefined>(
-            clusterKubeConfig, "yaml",
-            (f) => kubectl.invokeCommand(`create -f ${asoCrdYamlFile} --kubeconfig="${f}"`));
+        const runResult = await runClusterKubectlCommand(kubectl, clusterConnection, `create -f ${asoCrdYamlFile}`);
 
         return runResult;
     } catch (e) {
@@ -85,20 +82,20 @@ async function installCertManager(
 
 async function installOperator(
     kubectl: k8s.KubectlV1,
-    clusterKubeConfig: string
+    clusterConnection: ClusterConnection
 ): Promise<k8s.KubectlV1.ShellResult | undefined> {
     const asoYamlFile = "https://github.com/Azure/azure-service-operator/releases/download/v2.0.0-beta.0/azureserviceoperator_v2.0.0-beta.0.yaml";
     const command = `create -f ${asoYamlFile}`;
     const failureDescription = "Installing operator resoruce had following error";
 
-    const result = await invokeKubectlCommand(kubectl, clusterKubeConfig, command, failureDescription);
+    const result = await invokeKubectlCommand(kubectl, clusterConnection, command, failureDescription);
     return result;
 }
 
 async function installOperatorSettings(
     kubectl: k8s.KubectlV1,
     operatorSettingInfo: OperatorSettings,
-    clusterKubeConfig: string
+    clusterConnection: ClusterConnection
 ): Promise<k8s.KubectlV1.ShellResult | undefined> {
     const extensionPath = getExtensionPath();
     if (failed(extensionPath)) {
@@ -120,7 +117,7 @@ async function installOperatorSettings(
 
     const command = `apply -f ${templateYaml.name}`;
     const failureDescription = "Install operator settings had following error";
-    const result = await invokeKubectlCommand(kubectl, clusterKubeConfig, command, failureDescription);
+    const result = await invokeKubectlCommand(kubectl, clusterConnection, command, failureDescription, [templateYaml.name]);
     return result;
 }
 
@@ -144,14 +141,13 @@ function isInstallationSuccessfull(
 
 async function invokeKubectlCommand(
     kubectl: k8s.KubectlV1,
-    clusterKubeconfig: string,
+    clusterConnection: ClusterConnection,
     command: string,
     failureDescription: string,
+    attachments: string[] = []
 ): Promise<k8s.KubectlV1.ShellResult | undefined> {
     try {
-        const runResult = await tmpfile.withOptionalTempFile<k8s.KubectlV1.ShellResult | undefined>(
-            clusterKubeconfig, "yaml",
-            (f) => kubectl.invokeCommand(`${command} --kubeconfig="${f}"`));
+        const runResult = await runClusterKubectlCommand(kubectl, clusterConnection, command, attachments);
 
         return runResult;
     } catch (e) {
@@ -7,12 +7,12 @@ import {
     convertAzureCloudEnv,
     createASOWebView
 } from './helpers/azureservicehtmlhelper';
-import * as clusters from '../utils/clusters';
 import { InstallationResponse } from './models/installationResponse';
 import { getAksClusterTreeItem } from '../utils/clusters';
 import { getExtensionPath } from '../utils/host';
 import { createWebView } from '../utils/webviews';
 import { failed } from '../utils/errorable';
+import { getClusterConnection } from '../utils/kubectl';
 
 export default async function installAzureServiceOperator(
     _context: IActionContext,
@@ -48,9 +48,9 @@ export async function install(
 ): Promise<void> {
     const installationResponse: InstallationResponse = { clusterName: aksCluster.name };
 
-    const clusterKubeConfig = await clusters.getKubeconfigYaml(aksCluster);
-    if (failed(clusterKubeConfig)) {
-        vscode.window.showErrorMessage(clusterKubeConfig.error);
+    const clusterConnection = await getClusterConnection(aksCluster);
+    if (failed(clusterConnection)) {
+        vscode.window.showErrorMessage(clusterConnection.error);
         return undefined;
     }
 
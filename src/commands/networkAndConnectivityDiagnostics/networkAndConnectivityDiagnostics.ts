@@ -1,13 +1,14 @@
 import * as vscode from 'vscode';
 import * as k8s from 'vscode-kubernetes-tools-api';
 import { IActionContext } from "@microsoft/vscode-azext-utils";
-import { AppLensARMResponse, getDetectorInfo, getPortalUrl } from '../utils/detectors';
+import { AppLensARMResponse, getDetectorInfo, getPortalUrl, showDetectorResults } from '../utils/detectors';
 import { convertHtmlJsonConfiguration }  from './helpers/networkconnectivityhtmlhelper';
 import AksClusterTreeItem from '../../tree/aksClusterTreeItem';
 import { getAksClusterTreeItem } from '../utils/clusters';
 import { getExtensionPath, longRunning } from '../utils/host';
 import { failed } from '../utils/errorable';
-import { createWebView, getRenderedContent, getResourceUri } from '../utils/webviews';
+import { getRenderedContent, getResourceUri } from '../utils/webviews';
+import { DetectorHtmlExportData } from '../utils/detectorexport';
 
 export default async function networkAndConnectivityDiagnostics(
     _context: IActionContext,
@@ -43,15 +44,17 @@ async function loadNetworkConnectivityDetector(
         return;
       }
 
-      const webview = createWebView('AKS Diagnostics', `AKS diagnostics view for: ${clustername}`).webview;
-      webview.html = getWebviewContent(detectorInfo.result, extensionPath);
+      await showDetectorResults(cloudTarget, detectorInfo.result, new Map<string, AppLensARMResponse>(), extensionPath,
+        (exportData) => getWebviewContent(cloudTarget, detectorInfo.result, extensionPath, exportData));
     }
   );
 }
 
 function getWebviewContent(
+  cloudTarget: AksClusterTreeItem,
   clusterdata: AppLensARMResponse,
-  vscodeExtensionPath: string
+  vscodeExtensionPath: string,
+  exportData?: DetectorHtmlExportData
 ): string {
   const webviewClusterData = clusterdata?.properties;
   const styleUri = getResourceUri(vscodeExtensionPath, 'common', 'detector.css');
@@ -60,12 +63,13 @@ function getWebviewContent(
     cssuri: styleUri,
     name: webviewClusterData.metadata.name,
     description: webviewClusterData.metadata.description,
-    portalUrl: getPortalUrl(clusterdata),
+    portalUrl: getPortalUrl(cloudTarget, clusterdata),
     networkconfdata: webviewClusterData.dataset[0],
     allocatedoutdata: convertHtmlJsonConfiguration(webviewClusterData, 1),
     subnetdata: convertHtmlJsonConfiguration(webviewClusterData, 2),
     subneterrordata: convertHtmlJsonConfiguration(webviewClusterData, 3),
-    domaindata: convertHtmlJsonConfiguration(webviewClusterData, 4)
+    domaindata: convertHtmlJsonConfiguration(webviewClusterData, 4),
+    ...exportData
   };
 
   return getRenderedContent(templateUri, data);
@@ -9,14 +9,15 @@ import * as path from 'path';
 import * as fs from 'fs';
 import * as semver from 'semver';
 import AksClusterTreeItem from '../../../tree/aksClusterTreeItem';
-import * as tmpfile from '../../utils/tempfile';
 import { getRenderedContent, getResourceUri } from '../../utils/webviews';
 import { Errorable, failed } from '../../utils/errorable';
-import { invokeKubectlCommand } from '../../utils/kubectl';
+import { ClusterConnection, invokeClusterKubectlCommand } from '../../utils/kubectl';
 import { KustomizeConfig } from '../models/kustomizeConfig';
 import { ClusterFeatures } from '../models/clusterFeatures';
 import { ContainerServiceClient } from '@azure/arm-containerservice';
 import { getWindowsNodePoolKubernetesVersions } from '../../utils/clusters';
+import { CloudEnvironment, getCloudEnvironment } from '../../utils/clouds';
+import { Environment } from '@azure/ms-rest-azure-env';
 const tmp = require('tmp');
 
 const {
@@ -24,12 +25,18 @@ const {
     StorageSharedKeyCredential
 } = require("@azure/storage-blob");
 
+// The Periscope secret only holds the storage account name, SAS key and container name, and Periscope
+// uploads the logs to the blob endpoint of the Azure public cloud built from them.
+export function isPeriscopeSupported(environment: CloudEnvironment): boolean {
+    return environment.name === Environment.AzureCloud.name;
+}
+
 export async function getClusterDiagnosticSettings(
     cluster: AksClusterTreeItem
 ): Promise<amon.MonitorManagementModels.DiagnosticSettingsCategoryResourceCollection | undefined> {
     try {
         // Get daignostic setting via diagnostic monitor
-        const diagnosticMonitor = new amon.MonitorManagementClient(cluster.subscription.credentials, cluster.subscription.subscriptionId);
+        const diagnosticMonitor = new amon.MonitorManagementClient(cluster.subscription.credentials, cluster.subscription.subscriptionId, { baseUri: getCloudEnvironment(cluster.subscription).resourceManagerEndpointUrl });
         const diagnosticSettings = await diagnosticMonitor.diagnosticSettings.list(cluster.id!);
 
         return diagnosticSettings;
@@ -89,7 +96,7 @@ export async function getStorageInfo(
     kubectl: k8s.APIAvailable<k8s.KubectlV1>,
     cluster: AksClusterTreeItem,
     diagnosticStorageAccountId: string,
-    clusterKubeConfig: string
+    clusterConnection: ClusterConnection
 ): Promise<Errorable<PeriscopeStorage>> {
     try {
         const { resourceGroupName, name: accountName } = parseResource(diagnosticStorageAccountId);
@@ -99,12 +106,12 @@ export async function getStorageInfo(
         }
 
         // Get keys from storage client.
-        const storageClient = new ast.StorageManagementClient(cluster.subscription.credentials, cluster.subscription.subscriptionId);
+        const storageClient = new ast.StorageManagementClient(cluster.subscription.credentials, cluster.subscription.subscriptionId, { baseUri: getCloudEnvironment(cluster.subscription).resourceManagerEndpointUrl });
         const storageAccKeyList = await storageClient.storageAccounts.listKeys(resourceGroupName, accountName);
         const storageKey = storageAccKeyList.keys?.find((it) => it.keyName === "key1")?.value!;
 
         // Get container name from cluster-info default behaviour was APIServerName without
-        const containerName = await extractContainerName(kubectl, clusterKubeConfig);
+        const containerName = await extractContainerName(kubectl, clusterConnection);
         if (failed(containerName)) return containerName;
 
         const clusterStorageInfo = {
@@ -259,8 +266,8 @@ export function getWebviewContent(
     return getRenderedContent(templateUri, data);
 }
 
-async function extractContainerName(kubectl: k8s.APIAvailable<k8s.KubectlV1>, clusterKubeConfig: string): Promise<Errorable<string>> {
-    const runCommandResult = await getClusterInfo(kubectl, clusterKubeConfig);
+async function extractContainerName(kubectl: k8s.APIAvailable<k8s.KubectlV1>, clusterConnection: ClusterConnection): Promise<Errorable<string>> {
+    const runCommandResult = await getClusterInfo(kubectl, clusterConnection);
     if (failed(runCommandResult)) return runCommandResult;
 
     const hostNameResult = await getHostName(runCommandResult.result);
@@ -281,12 +288,9 @@ async function extractContainerName(kubectl: k8s.APIAvailable<k8s.KubectlV1>, cl
     return { succeeded: true, result: containerName };
 }
 
-async function getClusterInfo(kubectl: k8s.APIAvailable<k8s.KubectlV1>, clusterKubeConfig: string): Promise<Errorable<string>> {
+async function getClusterInfo(kubectl: k8s.APIAvailable<k8s.KubectlV1>, clusterConnection: ClusterConnection): Promise<Errorable<string>> {
     // Run cluster-info to get DNS Core hostname.
-    const runCommandResult = await tmpfile.withOptionalTempFile<Errorable<k8s.KubectlV1.ShellResult>>(
-        clusterKubeConfig,
-        "YAML",
-        (kubeConfigFile) => invokeKubectlCommand(kubectl, kubeConfigFile, 'cluster-info'));
+    const runCommandResult = await invokeClusterKubectlCommand(kubectl, clusterConnection, 'cluster-info');
 
     if (failed(runCommandResult)) return runCommandResult;
 
@@ -1,8 +1,7 @@
 import * as vscode from 'vscode';
 import * as k8s from 'vscode-kubernetes-tools-api';
 import { IActionContext } from '@microsoft/vscode-azext-utils';
-import * as tmpfile from '../utils/tempfile';
-import { CloudType, getAksClusterTreeItem, getContainerClient, getKubeconfigYaml } from '../utils/clusters';
+import { getAksClusterTreeItem, getContainerClient } from '../utils/clusters';
 import { getKustomizeConfig } from '../utils/config';
 import { getExtensionPath, longRunning } from '../utils/host';
 import {
@@ -12,14 +11,15 @@ import {
     prepareAKSPeriscopeKustomizeOverlay,
     generateDownloadableLinks,
     getWebviewContent,
-    getClusterFeatures
+    getClusterFeatures,
+    isPeriscopeSupported
 } from './helpers/periscopehelper';
 import { PeriscopeStorage } from './models/storage';
 import AksClusterTreeItem from '../../tree/aksClusterTreeItem';
 import { createWebView } from '../utils/webviews';
 import { Errorable, failed } from '../utils/errorable';
-import { invokeKubectlCommand } from '../utils/kubectl';
-import { getCloudType } from '../../azure-api-utils';
+import { ClusterConnection, getClusterConnection, invokeClusterKubectlCommand } from '../utils/kubectl';
+import { getCloudEnvironment } from '../utils/clouds';
 
 export default async function periscope(
     _context: IActionContext,
@@ -38,34 +38,25 @@ export default async function periscope(
         return;
     }
 
-    // Once Periscope will support usgov endpoints all we need is to remove this check.
-    // I have done background plumbing for vscode to fetch downlodable link from correct endpoint.
-    const cloudType = getCloudType(cluster.result);
-
-    switch (cloudType) {
-        case CloudType.USGov:
-          vscode.window.showInformationMessage(`Periscope is not supported in ${cloudType} cloud.`);
-          return;
-        case CloudType.Public:
-          break;
-        default:
-          vscode.window.showErrorMessage(`Unrecognised cloud type ${cloudType}.`);
-          return;
-      }
-
-    const clusterKubeConfig = await getKubeconfigYaml(cluster.result);
-    if (failed(clusterKubeConfig)) {
-        vscode.window.showErrorMessage(clusterKubeConfig.error);
+    const environment = getCloudEnvironment(cluster.result.subscription);
+    if (!isPeriscopeSupported(environment)) {
+        vscode.window.showInformationMessage(`Periscope is not supported in ${environment.name} cloud: it can only upload logs to storage accounts in the Azure public cloud.`);
         return;
     }
 
-    await runAKSPeriscope(kubectl, cluster.result, clusterKubeConfig.result);
+    const clusterConnection = await getClusterConnection(cluster.result);
+    if (failed(clusterConnection)) {
+        vscode.window.showErrorMessage(clusterConnection.error);
+        return;
+    }
+
+    await runAKSPeriscope(kubectl, cluster.result, clusterConnection.result);
 }
 
 async function runAKSPeriscope(
     kubectl: k8s.APIAvailable<k8s.KubectlV1>,
     cluster: AksClusterTreeItem,
-    clusterKubeConfig: string
+    clusterConnection: ClusterConnection
 ): Promise<void> {
     const clusterName = cluster.name;
 
@@ -86,7 +77,7 @@ async function runAKSPeriscope(
     if (!clusterStorageAccountId) return undefined;
 
     const clusterStorageInfo = await longRunning(`Generating SAS for ${clusterName} cluster.`,
-        () => getStorageInfo(kubectl, cluster, clusterStorageAccountId, clusterKubeConfig)
+        () => getStorageInfo(kubectl, cluster, clusterStorageAccountId, clusterConnection)
     );
 
     if (failed(clusterStorageInfo)) {
@@ -122,7 +113,7 @@ async function runAKSPeriscope(
     }
 
     const runCommandResult = await longRunning(`Deploying AKS Periscope to ${clusterName}.`,
-        () => deployKustomizeOverlay(kubectl, aksDeploymentFile.result, clusterKubeConfig)
+        () => deployKustomizeOverlay(kubectl, aksDeploymentFile.result, clusterConnection)
     );
 
     if (failed(runCommandResult)) {
@@ -136,19 +127,17 @@ async function runAKSPeriscope(
 async function deployKustomizeOverlay(
     kubectl: k8s.APIAvailable<k8s.KubectlV1>,
     overlayDir: string,
-    clusterKubeConfig: string
+    clusterConnection: ClusterConnection
 ): Promise<Errorable<k8s.KubectlV1.ShellResult>> {
-    return await tmpfile.withOptionalTempFile<Errorable<k8s.KubectlV1.ShellResult>>(clusterKubeConfig, "YAML", async kubeConfigFile => {
-        // Clean up running instance (without an error if it doesn't yet exist).
-        const deleteResult = await invokeKubectlCommand(kubectl, kubeConfigFile, 'delete ns aks-periscope --ignore-not-found=true');
-        if (failed(deleteResult)) return deleteResult;
+    // Clean up running instance (without an error if it doesn't yet exist).
+    const deleteResult = await invokeClusterKubectlCommand(kubectl, clusterConnection, 'delete ns aks-periscope --ignore-not-found=true');
+    if (failed(deleteResult)) return deleteResult;
 
-        // Deploy aks-periscope.
-        const applyResult = await invokeKubectlCommand(kubectl, kubeConfigFile, `apply -k ${overlayDir}`);
-        if (failed(applyResult)) return applyResult;
+    // Deploy aks-periscope.
+    const applyResult = await invokeClusterKubectlCommand(kubectl, clusterConnection, `apply -k ${overlayDir}`, [overlayDir]);
+    if (failed(applyResult)) return applyResult;
 
-        return invokeKubectlCommand(kubectl, kubeConfigFile, 'cluster-info');
-    });
+    return invokeClusterKubectlCommand(kubectl, clusterConnection, 'cluster-info');
 }
 
 async function createPeriscopeWebView(
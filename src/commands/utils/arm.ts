@@ -0,0 +1,44 @@
+import { URL } from 'url';
+import { ResourceManagementClient } from '@azure/arm-resources';
+import { ISubscriptionContext } from '@microsoft/vscode-azext-utils';
+import { getCloudEnvironment } from './clouds';
+import { Errorable } from './errorable';
+
+// Sends a request to Azure Resource Manager, for resource types and API versions that are not covered by
+// the SDKs this extension depends on. `path` is relative to the Resource Manager endpoint, e.g. a resource ID,
+// and may include query parameters other than the API version.
+export async function sendArmRequest(
+    subscription: ISubscriptionContext,
+    method: "GET" | "PUT" | "POST" | "DELETE",
+    path: string,
+    apiVersion: string,
+    body?: any
+): Promise<Errorable<any>> {
+    try {
+        const environment = getCloudEnvironment(subscription);
+        const client = new ResourceManagementClient(subscription.credentials, subscription.subscriptionId, { baseUri: environment.resourceManagerEndpointUrl });
+        const response = await client.sendRequest({
+            method,
+            url: `${environment.resourceManagerEndpointUrl}${path}${path.includes("?") ? "&" : "?"}api-version=${apiVersion}`,
+            body
+        });
+
+        if (response.status >= 300) {
+            const error = response.parsedBody?.error;
+            return { succeeded: false, error: error ? `${error.code}: ${error.message}` : `${response.status} ${response.bodyAsText}` };
+        }
+
+        return { succeeded: true, result: response.parsedBody };
+    } catch (ex) {
+        return { succeeded: false, error: `${ex}` };
+    }
+}
+
+// The next link of a list response is an absolute URL including the API version, which sendArmRequest adds
+// again, so returns the path and query parameters other than the API version.
+export function getNextLinkPath(nextLink: string): string {
+    const url = new URL(nextLink);
+    url.searchParams.delete("api-version");
+    const query = url.searchParams.toString();
+    return query ? `${url.pathname}?${query}` : url.pathname;
+}
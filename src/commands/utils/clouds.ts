@@ -0,0 +1,29 @@
+import { ISubscriptionContext } from '@microsoft/vscode-azext-utils';
+const meta = require('../../../package.json');
+
+export interface CloudEnvironment {
+    readonly name: string;
+    readonly resourceManagerEndpointUrl: string;
+    readonly portalUrl: string;
+    readonly activeDirectoryEndpointUrl: string;
+}
+
+export function getCloudEnvironment(subscription: ISubscriptionContext): CloudEnvironment {
+    const environment = subscription.environment;
+
+    return {
+        name: environment.name,
+        resourceManagerEndpointUrl: trimTrailingSlash(environment.resourceManagerEndpointUrl),
+        portalUrl: trimTrailingSlash(environment.portalUrl),
+        activeDirectoryEndpointUrl: trimTrailingSlash(environment.activeDirectoryEndpointUrl)
+    };
+}
+
+export function getPortalResourceUrl(environment: CloudEnvironment, armId: string, blade: string): string {
+    // armid is in the format: /subscriptions/<sub_id>/resourceGroups/<resource_group>/providers/<container_service>/managedClusters/<aks_clustername>
+    return `${environment.portalUrl}/#resource${armId}/${blade}?referrer_source=vscode&referrer_context=${meta.name}`;
+}
+
+function trimTrailingSlash(url: string): string {
+    return url.replace(/\/+$/, "");
+}
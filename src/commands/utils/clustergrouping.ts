@@ -0,0 +1,110 @@
+import { GenericResource } from "@azure/arm-resources/esm/models";
+import { parseResource } from "../../azure-api-utils";
+
+export enum ClusterGrouping {
+    None = "none",
+    ResourceGroup = "resourceGroup",
+    Location = "location",
+    Tag = "tag"
+}
+
+export interface ClusterFilter {
+    // A name, matched anywhere in the cluster name, or a pattern using * and ? wildcards.
+    readonly namePattern?: string;
+    readonly tagName?: string;
+    // If undefined, clusters with the tag match whatever its value.
+    readonly tagValue?: string;
+}
+
+export interface ClusterGroup {
+    readonly name: string;
+    readonly clusters: GenericResource[];
+}
+
+export function isClusterFilterEmpty(filter: ClusterFilter): boolean {
+    return !filter.namePattern && !filter.tagName;
+}
+
+export function matchesClusterFilter(cluster: GenericResource, filter: ClusterFilter): boolean {
+    if (filter.namePattern && !getNamePatternRegExp(filter.namePattern).test(cluster.name || "")) {
+        return false;
+    }
+
+    if (filter.tagName) {
+        const value = getTagValue(cluster, filter.tagName);
+        if (value === undefined || (filter.tagValue !== undefined && value !== filter.tagValue)) {
+            return false;
+        }
+    }
+
+    return true;
+}
+
+export function describeClusterFilter(filter: ClusterFilter): string {
+    const parts: string[] = [];
+    if (filter.namePattern) {
+        parts.push(`name: ${filter.namePattern}`);
+    }
+
+    if (filter.tagName) {
+        parts.push(`tag: ${formatTagFilter(filter.tagName, filter.tagValue)}`);
+    }
+
+    return parts.join(", ");
+}
+
+export function formatTagFilter(tagName: string, tagValue: string | undefined): string {
+    return tagValue === undefined ? tagName : `${tagName}=${tagValue}`;
+}
+
+// Parses a tag filter of the form "name" or "name=value".
+export function parseTagFilter(text: string): { tagName: string, tagValue?: string } {
+    const separator = text.indexOf("=");
+    if (separator < 0) {
+        return { tagName: text.trim() };
+    }
+
+    return { tagName: text.substring(0, separator).trim(), tagValue: text.substring(separator + 1).trim() };
+}
+
+// Groups the clusters by the given property, with groups and the clusters in them sorted by name.
+export function groupClusters(clusters: GenericResource[], grouping: ClusterGrouping, tagName: string): ClusterGroup[] {
+    const groups = new Map<string, GenericResource[]>();
+    for (const cluster of clusters) {
+        const name = getGroupName(cluster, grouping, tagName);
+        groups.set(name, [...(groups.get(name) || []), cluster]);
+    }
+
+    return [...groups.entries()]
+        .map(([name, groupClusters]) => ({ name, clusters: sortClusters(groupClusters) }))
+        .sort((a, b) => compareNames(a.name, b.name));
+}
+
+export function sortClusters(clusters: GenericResource[]): GenericResource[] {
+    return [...clusters].sort((a, b) => compareNames(a.name || "", b.name || ""));
+}
+
+function getGroupName(cluster: GenericResource, grouping: ClusterGrouping, tagName: string): string {
+    switch (grouping) {
+        case ClusterGrouping.ResourceGroup: return parseResource(cluster.id || "").resourceGroupName || "(no resource group)";
+        case ClusterGrouping.Location: return cluster.location || "(no location)";
+        case ClusterGrouping.Tag: return getTagValue(cluster, tagName) ?? `(no ${tagName} tag)`;
+        default: return "";
+    }
+}
+
+// Tag names are case-insensitive in Azure, but their values are not.
+function getTagValue(cluster: GenericResource, tagName: string): string | undefined {
+    const key = Object.keys(cluster.tags || {}).find((k) => k.toLowerCase() === tagName.toLowerCase());
+    return key === undefined ? undefined : cluster.tags![key];
+}
+
+function getNamePatternRegExp(pattern: string): RegExp {
+    const hasWildcards = /[*?]/.test(pattern);
+    const escaped = pattern.replace(/[.+^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*").replace(/\?/g, ".");
+    return new RegExp(hasWildcards ? `^${escaped}$` : escaped, "i");
+}
+
+function compareNames(a: string, b: string): number {
+    return a.localeCompare(b, undefined, { sensitivity: "base" });
+}
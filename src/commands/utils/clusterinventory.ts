@@ -0,0 +1,198 @@
+import { ResourceManagementClient } from '@azure/arm-resources';
+import { GenericResource } from "@azure/arm-resources/esm/models";
+import { ISubscriptionContext } from '@microsoft/vscode-azext-utils';
+import { listAll } from '../../azure-api-utils';
+import { sendArmRequest } from './arm';
+import { getCloudEnvironment } from './clouds';
+import { getClusterInventoryConfig } from './config';
+import { Errorable, failed, succeeded } from './errorable';
+import { getClusterInventoryEntry, setClusterInventoryEntry } from './state';
+
+const managedClusterResourceType = "Microsoft.ContainerService/managedClusters";
+const resourceGraphApiVersion = "2021-03-01";
+
+export interface ClusterInventoryEntry {
+    readonly clusters: GenericResource[];
+    // Milliseconds since the epoch.
+    readonly retrievedAt: number;
+}
+
+// Loads of the clusters of each subscription that are in progress, so that concurrent requests share them.
+const pendingLoads = new Map<string, Promise<Errorable<GenericResource[]>>>();
+
+// Returns the clusters of the subscription from the inventory if they are recent enough. Otherwise the cached
+// clusters (if any) are returned straight away and reloaded in the background, calling `onUpdated` if they changed.
+export async function getSubscriptionClusters(
+    subscription: ISubscriptionContext,
+    onUpdated: () => void
+): Promise<Errorable<GenericResource[]>> {
+    const entry = getClusterInventoryEntry(subscription.subscriptionId);
+    if (entry && isInventoryEntryFresh(entry, Date.now(), getClusterInventoryConfig().cacheDurationMinutes)) {
+        return { succeeded: true, result: entry.clusters };
+    }
+
+    const load = pendingLoads.get(subscription.subscriptionId) || beginLoadSubscriptionClusters(subscription);
+    if (!entry) {
+        return await load;
+    }
+
+    load.then((clusters) => {
+        if (succeeded(clusters) && !haveSameClusters(entry.clusters, clusters.result)) {
+            onUpdated();
+        }
+    });
+
+    return { succeeded: true, result: entry.clusters };
+}
+
+// Starts loading the clusters of all subscriptions whose inventory is out of date, with a single Azure Resource Graph
+// query per tenant, so that they are ready by the time the subscriptions are expanded.
+export function beginLoadClusterInventory(subscriptions: ISubscriptionContext[]): void {
+    const config = getClusterInventoryConfig();
+    if (!config.useResourceGraph) {
+        return;
+    }
+
+    const now = Date.now();
+    const outdated = subscriptions.filter((s) => {
+        const entry = getClusterInventoryEntry(s.subscriptionId);
+        return !pendingLoads.has(s.subscriptionId) && !(entry && isInventoryEntryFresh(entry, now, config.cacheDurationMinutes));
+    });
+
+    const tenantIds = [...new Set(outdated.map((s) => s.tenantId))];
+    for (const tenantId of tenantIds) {
+        const tenantSubscriptions = outdated.filter((s) => s.tenantId === tenantId);
+        const query = queryResourceGraphClusters(tenantSubscriptions);
+        for (const subscription of tenantSubscriptions) {
+            trackLoad(subscription.subscriptionId, getQueriedClusters(subscription, query));
+        }
+    }
+}
+
+// Drops the subscription's clusters from the inventory, so that they are reloaded when next needed.
+export async function invalidateClusterInventory(subscriptionId: string): Promise<void> {
+    await setClusterInventoryEntry(subscriptionId, undefined);
+}
+
+// Applies the tags of an updated cluster to the subscription's inventory, so that grouping and filtering by tag
+// reflect them without listing the clusters again.
+export async function setInventoryClusterTags(subscriptionId: string, clusterId: string, tags: { [name: string]: string } | undefined): Promise<void> {
+    const entry = getClusterInventoryEntry(subscriptionId);
+    if (entry) {
+        await setClusterInventoryEntry(subscriptionId, { ...entry, clusters: withClusterTags(entry.clusters, clusterId, tags) });
+    }
+}
+
+export function withClusterTags(clusters: GenericResource[], clusterId: string, tags: { [name: string]: string } | undefined): GenericResource[] {
+    return clusters.map((c) => (c.id || "").toLowerCase() === clusterId.toLowerCase() ? { ...c, tags } : c);
+}
+
+export function isInventoryEntryFresh(entry: ClusterInventoryEntry, now: number, cacheDurationMinutes: number): boolean {
+    return now - entry.retrievedAt < cacheDurationMinutes * 60 * 1000;
+}
+
+export function getResourceGraphQuery(): string {
+    // Include what the status of the clusters is derived from, so that the tree can show it without reading each cluster.
+    return `resources | where type =~ '${managedClusterResourceType}' | project id, name, location, tags, subscriptionId, ` +
+        "provisioningState = tostring(properties.provisioningState), powerState = tostring(properties.powerState.code), " +
+        "kubernetesVersion = coalesce(tostring(properties.currentKubernetesVersion), tostring(properties.kubernetesVersion))";
+}
+
+// Maps Resource Graph rows to the resources of each subscription, including subscriptions without clusters.
+export function getResourceGraphClusters(rows: any[], subscriptionIds: string[]): Map<string, GenericResource[]> {
+    const clusters = new Map<string, GenericResource[]>(subscriptionIds.map((id) => [id, []]));
+    for (const row of rows) {
+        const subscriptionId = subscriptionIds.find((id) => id.toLowerCase() === `${row.subscriptionId}`.toLowerCase());
+        if (subscriptionId) {
+            // Resource Graph lower-cases resource types, so use the type as ARM reports it.
+            // The status properties are named as in the cluster itself, and empty if the cluster doesn't have them.
+            clusters.get(subscriptionId)!.push({
+                id: row.id,
+                name: row.name,
+                type: managedClusterResourceType,
+                location: row.location,
+                tags: row.tags || undefined,
+                properties: {
+                    provisioningState: row.provisioningState || undefined,
+                    powerState: row.powerState ? { code: row.powerState } : undefined,
+                    kubernetesVersion: row.kubernetesVersion || undefined
+                }
+            });
+        }
+    }
+
+    return clusters;
+}
+
+export function haveSameClusters(a: GenericResource[], b: GenericResource[]): boolean {
+    const normalize = (clusters: GenericResource[]) => JSON.stringify(
+        clusters
+            .map((c) => ({ id: (c.id || "").toLowerCase(), name: c.name, location: c.location, tags: c.tags || {}, properties: c.properties || {} }))
+            .sort((x, y) => x.id.localeCompare(y.id)));
+    return normalize(a) === normalize(b);
+}
+
+// Reloads the clusters of a single subscription the same way as the whole inventory is loaded, so that the
+// clusters keep the status properties that Resource Graph provides.
+function beginLoadSubscriptionClusters(subscription: ISubscriptionContext): Promise<Errorable<GenericResource[]>> {
+    const load = getClusterInventoryConfig().useResourceGraph ?
+        getQueriedClusters(subscription, queryResourceGraphClusters([subscription])) :
+        listSubscriptionClusters(subscription);
+    return trackLoad(subscription.subscriptionId, load);
+}
+
+// If Resource Graph can't be queried, falls back to listing the subscription's resources.
+async function getQueriedClusters(
+    subscription: ISubscriptionContext,
+    query: Promise<Errorable<Map<string, GenericResource[]>>>
+): Promise<Errorable<GenericResource[]>> {
+    const clusters = await query;
+    if (failed(clusters)) {
+        return await listSubscriptionClusters(subscription);
+    }
+
+    return { succeeded: true, result: clusters.result.get(subscription.subscriptionId) || [] };
+}
+
+function trackLoad(subscriptionId: string, load: Promise<Errorable<GenericResource[]>>): Promise<Errorable<GenericResource[]>> {
+    const trackedLoad = load.then(async (clusters) => {
+        if (succeeded(clusters)) {
+            await setClusterInventoryEntry(subscriptionId, { clusters: clusters.result, retrievedAt: Date.now() });
+        }
+
+        pendingLoads.delete(subscriptionId);
+        return clusters;
+    });
+
+    pendingLoads.set(subscriptionId, trackedLoad);
+    return trackedLoad;
+}
+
+async function listSubscriptionClusters(subscription: ISubscriptionContext): Promise<Errorable<GenericResource[]>> {
+    try {
+        const client = new ResourceManagementClient(subscription.credentials, subscription.subscriptionId, { baseUri: getCloudEnvironment(subscription).resourceManagerEndpointUrl });
+        const clusters = await listAll(client.resources, client.resources.list({ filter: `resourceType eq '${managedClusterResourceType}'` }));
+        return { succeeded: true, result: clusters };
+    } catch (ex) {
+        return { succeeded: false, error: `Error listing the clusters of subscription ${subscription.subscriptionDisplayName}: ${ex}` };
+    }
+}
+
+// The Resource Graph API is not covered by the resource management SDK, so the query is sent as a raw request.
+async function queryResourceGraphClusters(subscriptions: ISubscriptionContext[]): Promise<Errorable<Map<string, GenericResource[]>>> {
+    const subscriptionIds = subscriptions.map((s) => s.subscriptionId);
+    const rows: any[] = [];
+    let skipToken: string | undefined;
+    do {
+        const body = { subscriptions: subscriptionIds, query: getResourceGraphQuery(), options: { $skipToken: skipToken } };
+        const response = await sendArmRequest(subscriptions[0], "POST", "/providers/Microsoft.ResourceGraph/resources", resourceGraphApiVersion, body);
+        if (failed(response)) {
+            return { succeeded: false, error: `Error querying Azure Resource Graph for clusters: ${response.error}` };
+        }
+
+        rows.push(...(response.result?.data || []));
+        skipToken = response.result?.$skipToken;
+    } while (skipToken);
+
+    return { succeeded: true, result: getResourceGraphClusters(rows, subscriptionIds) };
+}
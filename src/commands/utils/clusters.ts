@@ -1,20 +1,33 @@
 import { API, CloudExplorerV1 } from 'vscode-kubernetes-tools-api';
 import AksClusterTreeItem from "../../tree/aksClusterTreeItem";
-import { getCloudType, parseResource } from "../../azure-api-utils";
+import { parseResource } from "../../azure-api-utils";
 import * as azcs from '@azure/arm-containerservice';
-import { Errorable } from './errorable';
+import { Errorable, failed } from './errorable';
 import { ResourceManagementClient } from '@azure/arm-resources';
-import { SubscriptionTreeNode } from '../../tree/subscriptionTreeItem';
+import SubscriptionTreeItem from '../../tree/subscriptionTreeItem';
+import AgentPoolTreeItem from '../../tree/agentPoolTreeItem';
+import { OperationPoller, OperationResponseOptions, trackOperation } from './operations';
+import { getAadAuthenticationConfig } from './config';
+import { convertAadKubeconfig } from './kubelogin';
+import { getCloudEnvironment } from './clouds';
+import { ISubscriptionContext } from '@microsoft/vscode-azext-utils';
 
 export interface ClusterARMResponse {
     readonly id: string;
     readonly name: string;
     readonly location: string;
     readonly resourceGroup?: string;
+    readonly tags?: { [key: string]: string };
+    readonly sku?: any;
+    readonly identity?: any;
     readonly properties: any;
     readonly type: string;
 }
 
+// The API version used to read cluster properties, which determines the shape of ClusterARMResponse.properties.
+// It is the API version of the container service SDK, so that clusters read here match the ones the SDK writes.
+export const clusterPropertiesApiVersion = "2024-09-01";
+
 export enum ClusterStartStopState {
     Started = 'Started',
     Starting = 'Starting',
@@ -22,9 +35,9 @@ export enum ClusterStartStopState {
     Stopping = 'Stopping'
 }
 
-export enum CloudType {
-    Public = "public",
-    USGov = "usgov"
+export enum KubeconfigCredentialType {
+    User = "clusterUser",
+    Admin = "clusterAdmin"
 }
 
 export function getAksClusterTreeItem(commandTarget: any, cloudExplorer: API<CloudExplorerV1>): Errorable<AksClusterTreeItem> {
@@ -50,7 +63,7 @@ export function getAksClusterTreeItem(commandTarget: any, cloudExplorer: API<Clo
     return { succeeded: true, result: cluster };
 }
 
-export function getAksClusterSubscriptionItem(commandTarget: any, cloudExplorer: API<CloudExplorerV1>): Errorable<SubscriptionTreeNode> {
+export function getAksClusterSubscriptionItem(commandTarget: any, cloudExplorer: API<CloudExplorerV1>): Errorable<SubscriptionTreeItem> {
     if (!cloudExplorer.available) {
         return { succeeded: false, error: 'Cloud explorer is unavailable.'};
     }
@@ -65,7 +78,7 @@ export function getAksClusterSubscriptionItem(commandTarget: any, cloudExplorer:
         return { succeeded: false, error: 'This command only applies to AKS subscription.'};
     }
 
-    const cloudResource = cloudTarget.cloudResource as SubscriptionTreeNode;
+    const cloudResource = cloudTarget.cloudResource as SubscriptionTreeItem;
     if (cloudResource === undefined) {
         return { succeeded: false, error: 'Cloud target cluster resource is not of type AksClusterSubscriptionItem.'};
     }
@@ -73,24 +86,53 @@ export function getAksClusterSubscriptionItem(commandTarget: any, cloudExplorer:
     return { succeeded: true, result: cloudResource };
 }
 
-export async function getKubeconfigYaml(target: AksClusterTreeItem): Promise<Errorable<string>> {
+export function getAksAgentPoolTreeItem(commandTarget: any, cloudExplorer: API<CloudExplorerV1>): Errorable<AgentPoolTreeItem> {
+    if (!cloudExplorer.available) {
+        return { succeeded: false, error: 'Cloud explorer is unavailable.'};
+    }
+
+    const cloudTarget = cloudExplorer.api.resolveCommandTarget(commandTarget) as CloudExplorerV1.CloudExplorerResourceNode;
+
+    const isAgentPoolTarget = cloudTarget !== undefined &&
+        cloudTarget.cloudName === "Azure" &&
+        cloudTarget.cloudResource.nodeType === "agentPool";
+
+    if (!isAgentPoolTarget) {
+        return { succeeded: false, error: 'This command only applies to AKS node pools.'};
+    }
+
+    const agentPool = cloudTarget.cloudResource as AgentPoolTreeItem;
+    if (agentPool === undefined) {
+        return { succeeded: false, error: 'Cloud target node pool resource is not of type AgentPoolTreeItem.'};
+    }
+
+    return { succeeded: true, result: agentPool };
+}
+
+export async function getKubeconfigYaml(
+    target: AksClusterTreeItem,
+    credentialType: KubeconfigCredentialType = KubeconfigCredentialType.User
+): Promise<Errorable<string>> {
     const { resourceGroupName, name } = parseResource(target.id!);
     if (!resourceGroupName || !name) {
         return { succeeded: false, error: `Invalid ARM id ${target.id}`};
     }
 
     const client = getContainerClient(target);
-    let clusterUserCredentials: azcs.CredentialResults;
+    const isAdmin = credentialType === KubeconfigCredentialType.Admin;
+    let clusterCredentials: azcs.CredentialResults;
 
     try {
-        clusterUserCredentials = await client.managedClusters.listClusterUserCredentials(resourceGroupName, name);
+        clusterCredentials = isAdmin ?
+            await client.managedClusters.listClusterAdminCredentials(resourceGroupName, name) :
+            await client.managedClusters.listClusterUserCredentials(resourceGroupName, name);
     } catch (e) {
-        return { succeeded: false, error: `Failed to retrieve user credentials for cluster ${name}: ${e}`};
+        return { succeeded: false, error: `Failed to retrieve ${isAdmin ? "admin" : "user"} credentials for cluster ${name}: ${e}`};
     }
 
-    const kubeconfigCredResult = clusterUserCredentials.kubeconfigs!.find((kubeInfo) => kubeInfo.name === "clusterUser");
+    const kubeconfigCredResult = clusterCredentials.kubeconfigs!.find((kubeInfo) => kubeInfo.name === credentialType);
     if (kubeconfigCredResult === undefined) {
-        return { succeeded: false, error: `No "clusterUser" kubeconfig found for cluster ${name}.`};
+        return { succeeded: false, error: `No "${credentialType}" kubeconfig found for cluster ${name}.`};
     }
 
     const kubeconfig = kubeconfigCredResult.value?.toString();
@@ -101,13 +143,62 @@ export async function getKubeconfigYaml(target: AksClusterTreeItem): Promise<Err
     return { succeeded: true, result: kubeconfig };
 }
 
+// Returns a kubeconfig that can be used by kubectl without user interaction. For AAD-enabled clusters,
+// the interactive devicecode login is replaced according to the aks.aad.authenticationMode setting.
+export async function getNonInteractiveKubeconfigYaml(target: AksClusterTreeItem): Promise<Errorable<string>> {
+    const kubeconfig = await getKubeconfigYaml(target);
+    if (failed(kubeconfig)) {
+        return kubeconfig;
+    }
+
+    const isAadEnabled = await isAadEnabledCluster(target);
+    if (failed(isAadEnabled)) {
+        return isAadEnabled;
+    }
+
+    if (!isAadEnabled.result) {
+        return kubeconfig;
+    }
+
+    const aadConfig = getAadAuthenticationConfig();
+    if (failed(aadConfig)) {
+        return aadConfig;
+    }
+
+    return await convertAadKubeconfig(kubeconfig.result, aadConfig.result, (serverId) => getAadToken(target, serverId));
+}
+
+async function isAadEnabledCluster(target: AksClusterTreeItem): Promise<Errorable<boolean>> {
+    try {
+        const containerClient = getContainerClient(target);
+        const managedCluster = await containerClient.managedClusters.get(target.resourceGroupName, target.name);
+
+        return { succeeded: true, result: managedCluster.aadProfile !== undefined };
+    } catch (ex) {
+        return { succeeded: false, error: `Error retrieving ${target.name} managed cluster: ${ex}` };
+    }
+}
+
+export async function getAadToken(target: AksClusterTreeItem, serverId: string): Promise<Errorable<string>> {
+    try {
+        const accessToken = await target.subscription.credentials.getToken(`${serverId}/.default`);
+        if (!accessToken?.token) {
+            return { succeeded: false, error: `Unable to get an Azure AD token for cluster ${target.name} from the signed-in Azure account.` };
+        }
+
+        return { succeeded: true, result: accessToken.token };
+    } catch (ex) {
+        return { succeeded: false, error: `Unable to get an Azure AD token for cluster ${target.name}: ${ex}` };
+    }
+}
+
 export async function getClusterProperties(
     target: AksClusterTreeItem,
     clusterName: string
 ): Promise<Errorable<ClusterARMResponse>> {
     try {
-        const client = new ResourceManagementClient(target.subscription.credentials, target.subscription.subscriptionId, { noRetryPolicy: true });
-        const clusterInfo = await client.resources.get(target.resourceGroupName, target.resourceType, "", "", clusterName, "2022-02-01");
+        const client = new ResourceManagementClient(target.subscription.credentials, target.subscription.subscriptionId, { noRetryPolicy: true, baseUri: getCloudEnvironment(target.subscription).resourceManagerEndpointUrl });
+        const clusterInfo = await client.resources.get(target.resourceGroupName, target.resourceType, "", "", clusterName, clusterPropertiesApiVersion);
 
         return { succeeded: true, result: <ClusterARMResponse>clusterInfo };
     } catch (ex) {
@@ -141,43 +232,82 @@ export async function determineClusterState(
 export async function startCluster(
     target: AksClusterTreeItem,
     clusterName: string,
-    clusterState: string
+    clusterState: string,
+    onStateChange: (state: string) => void
 ): Promise<Errorable<string>> {
-    try {
-        const containerClient = getContainerClient(target);
+    if (clusterState === ClusterStartStopState.Stopping) {
+        return { succeeded: false, error: `Cluster ${clusterName} is in Stopping state wait until cluster is fully stopped.` };
+    } else if (clusterState !== ClusterStartStopState.Stopped) {
+        return { succeeded: false, error: `Cluster ${clusterName} is already Started.` };
+    }
 
-        if (clusterState === ClusterStartStopState.Stopped ) {
-            containerClient.managedClusters.beginStartAndWait(target.resourceGroupName, clusterName, undefined);
-        } else if ( clusterState === ClusterStartStopState.Stopping) {
-            return { succeeded: false, error: `Cluster ${clusterName} is in Stopping state wait until cluster is fully stopped.` };
-        } else {
-            return { succeeded: false, error: `Cluster ${clusterName} is already Started.` };
-        }
+    const containerClient = getContainerClient(target);
+    const result = await trackOperation(
+        `Starting cluster ${clusterName}.`,
+        (options) => containerClient.managedClusters.beginStart(target.resourceGroupName, clusterName, options),
+        () => reportClusterState(target, clusterName, onStateChange)
+    );
 
-        return { succeeded: true, result: "Start cluster succeeded." };
-    } catch (ex) {
-        return { succeeded: false, error: `Error invoking ${clusterName} managed cluster: ${ex}` };
+    if (failed(result)) {
+        return { succeeded: false, error: `Error starting ${clusterName} managed cluster: ${result.error}` };
     }
+
+    return { succeeded: true, result: `Cluster ${clusterName} started.` };
 }
 
 export async function stopCluster(
     target: AksClusterTreeItem,
     clusterName: string,
-    clusterState: string
+    clusterState: string,
+    onStateChange: (state: string) => void
 ): Promise<Errorable<string>> {
-    try {
-        const containerClient = getContainerClient(target);
+    if (clusterState !== ClusterStartStopState.Started) {
+        return { succeeded: false, error: `Cluster ${clusterName} is either Stopped or in Stopping state.` };
+    }
 
-        if (clusterState === ClusterStartStopState.Started) {
-            containerClient.managedClusters.beginStopAndWait(target.resourceGroupName, clusterName, undefined);
-        }  else {
-            return { succeeded: false, error: `Cluster ${clusterName} is either Stopped or in Stopping state.` };
-        }
+    const containerClient = getContainerClient(target);
+    const result = await trackOperation(
+        `Stopping cluster ${clusterName}.`,
+        (options) => containerClient.managedClusters.beginStop(target.resourceGroupName, clusterName, options),
+        () => reportClusterState(target, clusterName, onStateChange)
+    );
 
-        return { succeeded: true, result: "Stop cluster succeeded." };
-    } catch (ex) {
-        return { succeeded: false, error: `Error invoking ${clusterName} managed cluster: ${ex}` };
+    if (failed(result)) {
+        return { succeeded: false, error: `Error stopping ${clusterName} managed cluster: ${result.error}` };
     }
+
+    return { succeeded: true, result: `Cluster ${clusterName} stopped.` };
+}
+
+export async function deleteCluster(
+    target: AksClusterTreeItem
+): Promise<Errorable<void>> {
+    const containerClient = getContainerClient(target);
+    const result = await trackOperation(
+        `Deleting cluster ${target.name}.`,
+        (options) => containerClient.managedClusters.beginDelete(target.resourceGroupName, target.name, options),
+        async () => `Cluster is ${(await containerClient.managedClusters.get(target.resourceGroupName, target.name)).provisioningState}.`
+    );
+
+    if (failed(result)) {
+        return { succeeded: false, error: `Error deleting ${target.name} managed cluster: ${result.error}` };
+    }
+
+    return { succeeded: true, result: undefined };
+}
+
+async function reportClusterState(
+    target: AksClusterTreeItem,
+    clusterName: string,
+    onStateChange: (state: string) => void
+): Promise<string | undefined> {
+    const clusterState = await determineClusterState(target, clusterName);
+    if (failed(clusterState)) {
+        return undefined;
+    }
+
+    onStateChange(clusterState.result);
+    return `Cluster is ${clusterState.result}.`;
 }
 
 export async function getWindowsNodePoolKubernetesVersions(
@@ -209,13 +339,59 @@ export async function getWindowsNodePoolKubernetesVersions(
     }
 }
 
-export function getContainerClient(target: AksClusterTreeItem): azcs.ContainerServiceClient {
-    const cloudType = getCloudType(target);
+export async function getAgentPools(
+    target: AksClusterTreeItem
+): Promise<Errorable<azcs.AgentPool[]>> {
+    try {
+        const containerClient = getContainerClient(target);
+        const agentPools: azcs.AgentPool[] = [];
+        for await (const page of containerClient.agentPools.list(target.resourceGroupName, target.name).byPage()) {
+            agentPools.push(...page);
+        }
 
-    switch (cloudType){
-        case CloudType.USGov:
-            return new azcs.ContainerServiceClient(target.subscription.credentials, target.subscription.subscriptionId, {endpoint:  "https://management.usgovcloudapi.net"});
-        default:
-            return new azcs.ContainerServiceClient(target.subscription.credentials, target.subscription.subscriptionId);
+        return { succeeded: true, result: agentPools };
+    } catch (ex) {
+        return { succeeded: false, error: `Error retrieving node pools for ${target.name}: ${ex}` };
+    }
+}
+
+export async function getManagedCluster(
+    target: AksClusterTreeItem
+): Promise<Errorable<azcs.ManagedCluster>> {
+    try {
+        const containerClient = getContainerClient(target);
+        const cluster = await containerClient.managedClusters.get(target.resourceGroupName, target.name);
+        return { succeeded: true, result: cluster };
+    } catch (ex) {
+        return { succeeded: false, error: `Error retrieving cluster ${target.name}: ${ex}` };
     }
-}
\ No newline at end of file
+}
+
+export function getContainerClient(target: AksClusterTreeItem): azcs.ContainerServiceClient {
+    return getSubscriptionContainerClient(target.subscription);
+}
+
+export function getSubscriptionContainerClient(subscription: ISubscriptionContext): azcs.ContainerServiceClient {
+    const environment = getCloudEnvironment(subscription);
+    return new azcs.ContainerServiceClient(subscription.credentials, subscription.subscriptionId, { endpoint: environment.resourceManagerEndpointUrl });
+}
+
+// Managed cluster PATCH only updates tags, so settings are changed by writing back the current cluster
+// after applying `update` to it. The write is conditional on the ETag of the cluster that was read, so that
+// it fails rather than reverting changes made to the cluster in the meantime.
+export async function beginUpdateManagedCluster(
+    target: AksClusterTreeItem,
+    update: (cluster: azcs.ManagedCluster) => void,
+    options?: OperationResponseOptions
+): Promise<OperationPoller<azcs.ManagedCluster>> {
+    const containerClient = getContainerClient(target);
+    const cluster = await containerClient.managedClusters.get(target.resourceGroupName, target.name);
+    update(cluster);
+
+    return await containerClient.managedClusters.beginCreateOrUpdate(target.resourceGroupName, target.name, cluster, { ...options, ifMatch: cluster.eTag });
+}
+
+export async function getProvisioningState(target: AksClusterTreeItem): Promise<string | undefined> {
+    const cluster = await getManagedCluster(target);
+    return failed(cluster) ? undefined : cluster.result.provisioningState;
+}
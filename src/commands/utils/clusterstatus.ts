@@ -0,0 +1,75 @@
+import { ManagedCluster } from '@azure/arm-containerservice';
+import { GenericResource } from "@azure/arm-resources/esm/models";
+
+export enum ClusterStatus {
+    Running = "Running",
+    Stopped = "Stopped",
+    Failed = "Failed",
+    Updating = "Updating"
+}
+
+// Provisioning states in which the cluster is not undergoing an operation.
+const settledProvisioningStates = ["Succeeded", "Canceled"];
+
+export function getClusterStatus(cluster: ManagedCluster): ClusterStatus {
+    if (cluster.provisioningState === "Failed") {
+        return ClusterStatus.Failed;
+    }
+
+    if (cluster.provisioningState && !settledProvisioningStates.includes(cluster.provisioningState)) {
+        return ClusterStatus.Updating;
+    }
+
+    return cluster.powerState?.code === "Stopped" ? ClusterStatus.Stopped : ClusterStatus.Running;
+}
+
+// Returns the cluster as far as the cluster listing describes it, or undefined if the listing doesn't include its
+// status. Clusters listed from Azure Resource Graph have the status properties named as in the cluster itself.
+export function getListedCluster(resource: GenericResource): ManagedCluster | undefined {
+    if (!resource.properties?.provisioningState) {
+        return undefined;
+    }
+
+    return { name: resource.name, location: resource.location || "", ...resource.properties };
+}
+
+export function getClusterDescription(cluster: ManagedCluster): string {
+    const version = cluster.currentKubernetesVersion || cluster.kubernetesVersion;
+    const parts = [version ? `v${version}` : undefined, cluster.location];
+
+    // The icon distinguishes the status, but spell out operations in progress since they are transient.
+    if (getClusterStatus(cluster) === ClusterStatus.Updating) {
+        parts.push(cluster.provisioningState);
+    }
+
+    return parts.filter((p) => p).join(" · ");
+}
+
+export function getClusterTooltip(cluster: ManagedCluster): string {
+    const version = cluster.currentKubernetesVersion || cluster.kubernetesVersion;
+    const lines = [
+        `${cluster.name}`,
+        `Status: ${getClusterStatus(cluster)}`,
+        `Provisioning State: ${cluster.provisioningState}`,
+        `Power State: ${cluster.powerState?.code}`,
+        `Kubernetes Version: ${version}`,
+        `Location: ${cluster.location}`
+    ];
+
+    // The cluster listing doesn't include these, so they are only shown once the cluster itself has been read.
+    if (cluster.agentPoolProfiles) {
+        lines.push(`Node Pools: ${cluster.agentPoolProfiles.length}`);
+    }
+
+    if (cluster.sku) {
+        lines.push(`Pricing Tier: ${cluster.sku.tier || "Free"}`);
+    }
+
+    if (cluster.apiServerAccessProfile?.enablePrivateCluster) {
+        lines.push(`Private FQDN: ${cluster.privateFqdn}`);
+    } else if (cluster.fqdn) {
+        lines.push(`FQDN: ${cluster.fqdn}`);
+    }
+
+    return lines.join('\n');
+}
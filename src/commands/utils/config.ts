@@ -1,6 +1,8 @@
 import * as vscode from 'vscode';
 import { combine, failed, Errorable } from './errorable';
 import { KustomizeConfig } from '../periscope/models/kustomizeConfig';
+import { AadAuthenticationConfig, AadAuthenticationMode } from './kubelogin';
+import { ClusterGrouping } from './clustergrouping';
 
 export function getKustomizeConfig(): Errorable<KustomizeConfig> {
     const periscopeConfig = vscode.workspace.getConfiguration('aks.periscope');
@@ -25,6 +27,61 @@ export function getKustomizeConfig(): Errorable<KustomizeConfig> {
     return { succeeded: true, result: config };
 }
 
+export function getAadAuthenticationConfig(): Errorable<AadAuthenticationConfig> {
+    const aadConfig = vscode.workspace.getConfiguration('aks.aad');
+    const props = combine([
+        getConfigValue(aadConfig, 'authenticationMode'),
+        getConfigValue(aadConfig, 'servicePrincipalClientId')
+    ]);
+
+    if (failed(props)) {
+        return { succeeded: false, error: `Failed to read aks.aad configuration: ${props.error}` };
+    }
+
+    const config = {
+        mode: props.result[0] as AadAuthenticationMode,
+        servicePrincipalClientId: props.result[1]
+    };
+
+    return { succeeded: true, result: config };
+}
+
+export interface ClusterGroupingConfig {
+    readonly grouping: ClusterGrouping;
+    readonly tagName: string;
+}
+
+export function getClusterGroupingConfig(): ClusterGroupingConfig {
+    const config = vscode.workspace.getConfiguration('aks.clusterGrouping');
+    const grouping = config.get<ClusterGrouping>('groupBy') || ClusterGrouping.None;
+    const tagName = config.get<string>('tagName') || "";
+
+    // Grouping by tag needs a tag name to group by.
+    return { grouping: grouping === ClusterGrouping.Tag && !tagName ? ClusterGrouping.None : grouping, tagName };
+}
+
+export async function setClusterGroupingConfig(config: ClusterGroupingConfig): Promise<void> {
+    const target = vscode.workspace.workspaceFolders ? vscode.ConfigurationTarget.Workspace : vscode.ConfigurationTarget.Global;
+    const groupingConfig = vscode.workspace.getConfiguration('aks.clusterGrouping');
+    await groupingConfig.update('groupBy', config.grouping, target);
+    if (config.grouping === ClusterGrouping.Tag) {
+        await groupingConfig.update('tagName', config.tagName, target);
+    }
+}
+
+export interface ClusterInventoryConfig {
+    readonly cacheDurationMinutes: number;
+    readonly useResourceGraph: boolean;
+}
+
+export function getClusterInventoryConfig(): ClusterInventoryConfig {
+    const config = vscode.workspace.getConfiguration('aks.clusterInventory');
+    return {
+        cacheDurationMinutes: config.get<number>('cacheDurationMinutes') ?? 10,
+        useResourceGraph: config.get<boolean>('useResourceGraph') ?? true
+    };
+}
+
 function getConfigValue(config: vscode.WorkspaceConfiguration, key: string): Errorable<string> {
     const value = config.get(key);
     if (value === undefined) {
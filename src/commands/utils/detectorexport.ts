@@ -0,0 +1,194 @@
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { AppLensARMResponse, getDetectorInsights } from './detectors';
+import { Errorable, failed } from './errorable';
+import { fs } from './fs';
+import { getResourceUri } from './webviews';
+
+export enum DetectorExportFormat {
+    Html = "HTML",
+    Markdown = "Markdown",
+    Json = "JSON"
+}
+
+const fileExtensions: { [format in DetectorExportFormat]: string } = {
+    [DetectorExportFormat.Html]: "html",
+    [DetectorExportFormat.Markdown]: "md",
+    [DetectorExportFormat.Json]: "json"
+};
+
+export interface DetectorExport {
+    readonly clusterName: string;
+    readonly portalUrl: string;
+    readonly timestamp: Date;
+    // The detector the webview was opened for, and for categories the detectors they consist of.
+    readonly detector: AppLensARMResponse;
+    readonly detectors: Map<string, AppLensARMResponse>;
+}
+
+// Template data that renders a detector webview as a standalone page, without scripts or extension resources.
+export interface DetectorHtmlExportData {
+    readonly isExport: true;
+    readonly inlineCss: string;
+    readonly clusterName: string;
+    readonly exportedAt: string;
+}
+
+export function getDetectorDisplayName(detector: AppLensARMResponse): string {
+    return detector.properties?.metadata?.name || detector.name;
+}
+
+export function formatExportTimestamp(timestamp: Date): string {
+    return `${timestamp.toISOString().substring(0, 19).replace("T", " ")} UTC`;
+}
+
+export function getExportFileName(detectorExport: DetectorExport, format: DetectorExportFormat): string {
+    const time = detectorExport.timestamp.toISOString().substring(0, 19).replace(/[-:]/g, "");
+    const name = `${detectorExport.clusterName}-${detectorExport.detector.name}-${time}`.replace(/[^A-Za-z0-9_.-]/g, "-");
+    return `${name}.${fileExtensions[format]}`;
+}
+
+export function getJsonExport(detectorExport: DetectorExport): string {
+    const content = {
+        clusterName: detectorExport.clusterName,
+        detector: detectorExport.detector.name,
+        timestamp: detectorExport.timestamp.toISOString(),
+        portalUrl: detectorExport.portalUrl,
+        response: detectorExport.detector,
+        detectors: [...detectorExport.detectors.entries()].reduce((obj, [id, detector]) => ({ ...obj, [id]: detector }), {})
+    };
+
+    return JSON.stringify(content, null, 2);
+}
+
+export function getMarkdownExport(detectorExport: DetectorExport): string {
+    const lines = [
+        `# ${getDetectorDisplayName(detectorExport.detector)}: ${detectorExport.clusterName}`,
+        "",
+        `- **Cluster:** ${detectorExport.clusterName}`,
+        `- **Detector:** ${detectorExport.detector.name}`,
+        `- **Time:** ${formatExportTimestamp(detectorExport.timestamp)}`,
+        `- **AKS Diagnostics:** ${detectorExport.portalUrl}`
+    ];
+
+    // Categories only list their detectors, so their insights come from the detectors themselves.
+    const detectors = detectorExport.detectors.size > 0 ? [...detectorExport.detectors.values()] : [detectorExport.detector];
+    for (const detector of detectors) {
+        lines.push("", `## ${getDetectorDisplayName(detector)}`);
+        const insights = getDetectorInsights(detector);
+        if (insights.length === 0) {
+            lines.push("", "No insights.");
+        }
+
+        for (const insight of insights) {
+            lines.push("", `**${insight.status}:** ${toMarkdownText(insight.message)}`);
+            const details = insight.details.filter((d) => d.key || d.value);
+            if (details.length > 0) {
+                lines.push("", "| | |", "|---|---|", ...details.map((d) => `| ${toMarkdownCell(d.key)} | ${toMarkdownCell(d.value)} |`));
+            }
+        }
+    }
+
+    return lines.join("\n") + "\n";
+}
+
+// Handles the export action of a detector webview. `renderHtml` renders the webview with the given export data.
+export function handleDetectorExport(
+    webview: vscode.Webview,
+    detectorExport: DetectorExport,
+    vscodeExtensionPath: string,
+    renderHtml: (exportData: DetectorHtmlExportData) => string
+): void {
+    webview.onDidReceiveMessage(
+        async (message) => {
+            if (message.command !== "exportDetector") {
+                return;
+            }
+
+            await exportDetector(detectorExport, vscodeExtensionPath, renderHtml);
+        },
+        undefined
+    );
+}
+
+async function exportDetector(
+    detectorExport: DetectorExport,
+    vscodeExtensionPath: string,
+    renderHtml: (exportData: DetectorHtmlExportData) => string
+): Promise<void> {
+    const formatItems = [
+        { label: DetectorExportFormat.Html, description: "Self-contained web page", format: DetectorExportFormat.Html },
+        { label: DetectorExportFormat.Markdown, description: "Summary for GitHub issues", format: DetectorExportFormat.Markdown },
+        { label: DetectorExportFormat.Json, description: "Raw detector data", format: DetectorExportFormat.Json }
+    ];
+
+    const selected = await vscode.window.showQuickPick(formatItems, { placeHolder: "Format to export the diagnostics results in" });
+    if (!selected) {
+        return;
+    }
+
+    const format = selected.format;
+    const defaultFolder = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || os.homedir();
+    const uri = await vscode.window.showSaveDialog({
+        defaultUri: vscode.Uri.file(path.join(defaultFolder, getExportFileName(detectorExport, format))),
+        filters: { [format]: [fileExtensions[format]] },
+        saveLabel: "Export"
+    });
+
+    if (!uri) {
+        return;
+    }
+
+    const content = await getExportContent(detectorExport, format, vscodeExtensionPath, renderHtml);
+    if (failed(content)) {
+        vscode.window.showErrorMessage(content.error);
+        return;
+    }
+
+    try {
+        await fs.writeFile(uri.fsPath, content.result);
+    } catch (e) {
+        vscode.window.showErrorMessage(`Unable to write ${uri.fsPath}: ${e}`);
+        return;
+    }
+
+    vscode.window.showInformationMessage(`Exported ${getDetectorDisplayName(detectorExport.detector)} results of ${detectorExport.clusterName} to ${uri.fsPath}.`);
+}
+
+async function getExportContent(
+    detectorExport: DetectorExport,
+    format: DetectorExportFormat,
+    vscodeExtensionPath: string,
+    renderHtml: (exportData: DetectorHtmlExportData) => string
+): Promise<Errorable<string>> {
+    if (format === DetectorExportFormat.Markdown) {
+        return { succeeded: true, result: getMarkdownExport(detectorExport) };
+    }
+
+    if (format === DetectorExportFormat.Json) {
+        return { succeeded: true, result: getJsonExport(detectorExport) };
+    }
+
+    const stylePath = getResourceUri(vscodeExtensionPath, 'common', 'detector.css').fsPath;
+    try {
+        const inlineCss = await fs.readFile(stylePath, 'utf8');
+        const exportData: DetectorHtmlExportData = {
+            isExport: true,
+            inlineCss,
+            clusterName: detectorExport.clusterName,
+            exportedAt: formatExportTimestamp(detectorExport.timestamp)
+        };
+        return { succeeded: true, result: renderHtml(exportData) };
+    } catch (e) {
+        return { succeeded: false, error: `Unable to read ${stylePath}: ${e}` };
+    }
+}
+
+function toMarkdownText(text: string): string {
+    return text.replace(/\r?\n/g, " ").trim();
+}
+
+function toMarkdownCell(text: string): string {
+    return text.replace(/\|/g, "\\|").replace(/\r?\n/g, "<br>").trim();
+}
@@ -1,7 +1,10 @@
 import { ResourceManagementClient } from "@azure/arm-resources";
 import { Errorable, combine, failed } from "./errorable";
 import AksClusterTreeItem from '../../tree/aksClusterTreeItem';
-const meta = require('../../../package.json');
+import { getCloudEnvironment, getPortalResourceUrl } from './clouds';
+import { createWebView } from './webviews';
+import { DetectorHtmlExportData, handleDetectorExport } from './detectorexport';
+import { recordDiagnosticsRun } from './diagnosticshistory';
 
 export interface AppLensARMResponse {
     readonly id: string;
@@ -12,6 +15,30 @@ export interface AppLensARMResponse {
     readonly type: string;
 }
 
+// Ordered from most to least severe.
+export enum InsightStatus {
+    Critical = "Critical",
+    Warning = "Warning",
+    Success = "Success",
+    Info = "Info",
+    None = "None"
+}
+
+const statusSeverity = [InsightStatus.Critical, InsightStatus.Warning, InsightStatus.Success, InsightStatus.Info, InsightStatus.None];
+
+export interface DetectorInsight {
+    readonly status: InsightStatus;
+    readonly message: string;
+    readonly details: { readonly key: string; readonly value: string }[];
+}
+
+export interface DetectorReport {
+    readonly name: string;
+    readonly description?: string;
+    readonly status: InsightStatus;
+    readonly insights: DetectorInsight[];
+}
+
 export async function getDetectorListData(
     cloudTarget: AksClusterTreeItem,
     clusterAppLensData: AppLensARMResponse
@@ -49,7 +76,7 @@ export async function getDetectorInfo(
     detectorName: string
 ): Promise<Errorable<AppLensARMResponse>> {
     try {
-        const client = new ResourceManagementClient(target.subscription.credentials, target.subscription.subscriptionId, { noRetryPolicy: true });
+        const client = new ResourceManagementClient(target.subscription.credentials, target.subscription.subscriptionId, { noRetryPolicy: true, baseUri: getCloudEnvironment(target.subscription).resourceManagerEndpointUrl });
         // armid is in the format: /subscriptions/<sub_id>/resourceGroups/<resource_group>/providers/<container_service>/managedClusters/<aks_clustername>
         const resourceGroup = target.armId.split("/")[4];
         const detectorInfo = await client.resources.get(
@@ -62,6 +89,77 @@ export async function getDetectorInfo(
     }
 }
 
-export function getPortalUrl(clusterdata: AppLensARMResponse) {
-    return `https://portal.azure.com/#resource${clusterdata.id.split('detectors')[0]}aksDiagnostics?referrer_source=vscode&referrer_context=${meta.name}`;
+export function getPortalUrl(target: AksClusterTreeItem, clusterdata: AppLensARMResponse) {
+    const clusterId = clusterdata.id.split('/detectors')[0];
+    return getPortalResourceUrl(getCloudEnvironment(target.subscription), clusterId, "aksDiagnostics");
+}
+
+// Shows the results of a detector (and for categories, of the detectors they consist of) in a webview from
+// which they can be exported, and records them in the diagnostics history. `renderHtml` renders the webview,
+// as a standalone page if given export data.
+export async function showDetectorResults(
+    cloudTarget: AksClusterTreeItem,
+    detector: AppLensARMResponse,
+    detectors: Map<string, AppLensARMResponse>,
+    extensionPath: string,
+    renderHtml: (exportData?: DetectorHtmlExportData) => string
+): Promise<void> {
+    const webview = createWebView('AKS Diagnostics', `AKS diagnostics view for: ${cloudTarget.name}`).webview;
+    const detectorExport = {
+        clusterName: cloudTarget.name,
+        portalUrl: getPortalUrl(cloudTarget, detector),
+        timestamp: new Date(),
+        detector,
+        detectors
+    };
+
+    handleDetectorExport(webview, detectorExport, extensionPath, renderHtml);
+    webview.html = renderHtml();
+    await recordDiagnosticsRun(cloudTarget, detector, [...detectors.values()], detectorExport.timestamp);
+}
+
+export function getInsightStatus(value: any): InsightStatus | undefined {
+    const name = String(value).toLowerCase();
+    return statusSeverity.find((s) => s.toLowerCase() === name);
+}
+
+export function getWorstStatus(statuses: InsightStatus[]): InsightStatus {
+    return statusSeverity.find((s) => statuses.includes(s)) || InsightStatus.None;
+}
+
+// Insight tables have rows of [status, message, key, value], with consecutive rows of the same status
+// and message making up one insight. Datasets that aren't insight tables are skipped.
+export function getDetectorInsights(detector: AppLensARMResponse): DetectorInsight[] {
+    const datasets: any[] = detector.properties?.dataset || [];
+    const insights: DetectorInsight[] = [];
+    for (const dataset of datasets) {
+        const rows: any[][] = dataset?.table?.rows || [];
+        for (const row of rows) {
+            const status = Array.isArray(row) ? getInsightStatus(row[0]) : undefined;
+            if (!status) {
+                continue;
+            }
+
+            const message = String(row[1] ?? "");
+            const detail = { key: String(row[2] ?? ""), value: String(row[3] ?? "") };
+            const last = insights[insights.length - 1];
+            if (last && last.status === status && last.message === message) {
+                last.details.push(detail);
+            } else {
+                insights.push({ status, message, details: [detail] });
+            }
+        }
+    }
+
+    return insights;
+}
+
+export function getDetectorReport(detector: AppLensARMResponse): DetectorReport {
+    const insights = getDetectorInsights(detector);
+    return {
+        name: detector.properties?.metadata?.name || detector.name,
+        description: detector.properties?.metadata?.description || undefined,
+        status: getWorstStatus(insights.map((i) => i.status)),
+        insights
+    };
 }
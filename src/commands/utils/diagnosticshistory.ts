@@ -0,0 +1,184 @@
+import { createHash, randomUUID } from 'crypto';
+import * as path from 'path';
+import AksClusterTreeItem from '../../tree/aksClusterTreeItem';
+import { AppLensARMResponse, DetectorReport, getDetectorReport, getWorstStatus, InsightStatus } from './detectors';
+import { fs } from './fs';
+import { getGlobalStoragePath } from './state';
+
+// Runs are stored in a file per cluster and detector, within a directory per cluster under the extension's
+// global storage, so that recording a run only rewrites the runs of that cluster and detector.
+const historyDirName = "diagnosticsHistory";
+
+// Older runs are dropped, so that the history of a cluster doesn't grow without bound.
+export const maxRunsPerDetector = 20;
+
+// The history of clusters that haven't been diagnosed for this long is removed, so that the history of
+// clusters that were deleted (or are no longer looked after) doesn't accumulate.
+export const maxHistoryAgeDays = 90;
+
+export interface DiagnosticsRun {
+    readonly id: string;
+    readonly clusterId: string;
+    readonly clusterName: string;
+    readonly detectorName: string;
+    readonly displayName: string;
+    // Milliseconds since the epoch.
+    readonly timestamp: number;
+    readonly status: InsightStatus;
+    readonly detectors: DetectorReport[];
+}
+
+export interface DetectorChange {
+    readonly name: string;
+    // Undefined if the detector didn't report in that run.
+    readonly previousStatus?: InsightStatus;
+    readonly currentStatus?: InsightStatus;
+    readonly previousInsights: string[];
+    readonly currentInsights: string[];
+}
+
+// Cluster IDs contain slashes and can be longer than file names may be, so directories are named by their hash.
+export function getClusterHistoryDirName(clusterId: string): string {
+    return createHash("sha256").update(clusterId.toLowerCase()).digest("hex");
+}
+
+export function getDetectorHistoryFileName(detectorName: string): string {
+    return `${detectorName.replace(/[^A-Za-z0-9_.-]/g, "-")}.json`;
+}
+
+export function isHistoryExpired(lastModified: number, now: number): boolean {
+    return now - lastModified > maxHistoryAgeDays * 24 * 60 * 60 * 1000;
+}
+
+// Categories only list their detectors, so their results are those of the detectors they consist of.
+export function createDiagnosticsRun(
+    clusterId: string,
+    clusterName: string,
+    detector: AppLensARMResponse,
+    detectors: AppLensARMResponse[],
+    timestamp: Date
+): DiagnosticsRun {
+    const detectorReports = (detectors.length > 0 ? detectors : [detector]).map(getDetectorReport);
+    return {
+        id: randomUUID(),
+        clusterId,
+        clusterName,
+        detectorName: detector.name,
+        displayName: detector.properties?.metadata?.name || detector.name,
+        timestamp: timestamp.getTime(),
+        status: getWorstStatus(detectorReports.map((d) => d.status)),
+        detectors: detectorReports
+    };
+}
+
+// Returns the runs with the new run added, newest first.
+export function addDiagnosticsRun(runs: DiagnosticsRun[], run: DiagnosticsRun): DiagnosticsRun[] {
+    return [run, ...runs]
+        .sort((a, b) => b.timestamp - a.timestamp)
+        .slice(0, maxRunsPerDetector);
+}
+
+// Orders runs by diagnostics, newest first.
+export function sortDiagnosticsRuns(runs: DiagnosticsRun[]): DiagnosticsRun[] {
+    return [...runs].sort((a, b) => a.displayName.localeCompare(b.displayName) || b.timestamp - a.timestamp);
+}
+
+// Lists the detectors whose status or insights differ between the runs, matching detectors by name.
+export function compareDiagnosticsRuns(previous: DiagnosticsRun, current: DiagnosticsRun): DetectorChange[] {
+    const names = [...current.detectors, ...previous.detectors]
+        .map((d) => d.name)
+        .filter((name, i, all) => all.indexOf(name) === i);
+
+    const changes: DetectorChange[] = [];
+    for (const name of names) {
+        const previousDetector = previous.detectors.find((d) => d.name === name);
+        const currentDetector = current.detectors.find((d) => d.name === name);
+        const previousInsights = getInsightSummaries(previousDetector);
+        const currentInsights = getInsightSummaries(currentDetector);
+        const isUnchanged = previousDetector?.status === currentDetector?.status &&
+            previousInsights.length === currentInsights.length &&
+            previousInsights.every((insight, i) => insight === currentInsights[i]);
+
+        if (!isUnchanged) {
+            changes.push({ name, previousStatus: previousDetector?.status, currentStatus: currentDetector?.status, previousInsights, currentInsights });
+        }
+    }
+
+    return changes;
+}
+
+// The history is secondary to the diagnostics results being shown, so failing to record a run is not reported.
+export async function recordDiagnosticsRun(
+    target: AksClusterTreeItem,
+    detector: AppLensARMResponse,
+    detectors: AppLensARMResponse[],
+    timestamp: Date
+): Promise<void> {
+    const historyPath = getHistoryPath();
+    if (!historyPath) {
+        return;
+    }
+
+    const run = createDiagnosticsRun(target.armId, target.name, detector, detectors, timestamp);
+    const clusterPath = path.join(historyPath, getClusterHistoryDirName(run.clusterId));
+    const filePath = path.join(clusterPath, getDetectorHistoryFileName(run.detectorName));
+    try {
+        await fs.mkdir(clusterPath, { recursive: true });
+        await fs.writeFile(filePath, JSON.stringify(addDiagnosticsRun(await readRuns(filePath), run)));
+        await pruneDiagnosticsHistory(historyPath, Date.now());
+    } catch {
+        // Nothing to do: see above.
+    }
+}
+
+export async function getClusterDiagnosticsRuns(clusterId: string): Promise<DiagnosticsRun[]> {
+    const historyPath = getHistoryPath();
+    if (!historyPath) {
+        return [];
+    }
+
+    const clusterPath = path.join(historyPath, getClusterHistoryDirName(clusterId));
+    const fileNames: string[] = await fs.readdir(clusterPath).catch(() => []);
+    const runs = await Promise.all(fileNames.map((fileName) => readRuns(path.join(clusterPath, fileName))));
+    return sortDiagnosticsRuns(runs.reduce((all, r) => all.concat(r), []));
+}
+
+// Like recording runs, failing to delete them is not reported: the history is pruned eventually anyway.
+export async function deleteClusterDiagnosticsHistory(clusterId: string): Promise<void> {
+    const historyPath = getHistoryPath();
+    if (historyPath) {
+        await fs.rm(path.join(historyPath, getClusterHistoryDirName(clusterId)), { recursive: true, force: true }).catch(() => undefined);
+    }
+}
+
+function getHistoryPath(): string | undefined {
+    const storagePath = getGlobalStoragePath();
+    return storagePath ? path.join(storagePath, historyDirName) : undefined;
+}
+
+async function readRuns(filePath: string): Promise<DiagnosticsRun[]> {
+    try {
+        const runs = JSON.parse(await fs.readFile(filePath, 'utf8'));
+        return Array.isArray(runs) ? runs : [];
+    } catch {
+        return [];
+    }
+}
+
+// Removes the history of clusters none of whose diagnostics have been recorded recently.
+async function pruneDiagnosticsHistory(historyPath: string, now: number): Promise<void> {
+    const clusterDirNames: string[] = await fs.readdir(historyPath);
+    for (const clusterDirName of clusterDirNames) {
+        const clusterPath = path.join(historyPath, clusterDirName);
+        const fileNames: string[] = await fs.readdir(clusterPath);
+        const stats = await Promise.all(fileNames.map((fileName) => fs.stat(path.join(clusterPath, fileName))));
+        const lastModified = Math.max(0, ...stats.map((s) => s.mtimeMs));
+        if (isHistoryExpired(lastModified, now)) {
+            await fs.rm(clusterPath, { recursive: true, force: true });
+        }
+    }
+}
+
+function getInsightSummaries(detector: DetectorReport | undefined): string[] {
+    return (detector?.insights || []).map((i) => `${i.status}: ${i.message}`);
+}
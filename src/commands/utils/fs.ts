@@ -5,6 +5,9 @@ export const fs = {
     copyFile: util.promisify(sysfs.copyFile),
     exists: util.promisify(sysfs.exists),
     mkdir: util.promisify(sysfs.mkdir),
+    readdir: util.promisify(sysfs.readdir),
     readFile: util.promisify(sysfs.readFile),
+    rm: util.promisify(sysfs.rm),
+    stat: util.promisify(sysfs.stat),
     writeFile: util.promisify(sysfs.writeFile),
 };
\ No newline at end of file
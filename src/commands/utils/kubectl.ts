@@ -1,8 +1,94 @@
 import { APIAvailable, KubectlV1 } from 'vscode-kubernetes-tools-api';
-import { Errorable } from './errorable';
+import AksClusterTreeItem from '../../tree/aksClusterTreeItem';
+import { getAadToken, getContainerClient, getNonInteractiveKubeconfigYaml } from './clusters';
+import { Errorable, failed } from './errorable';
+import { runKubectlCommand } from './runcommand';
+import { withOptionalTempFile } from './tempfile';
+
+// The server application of AKS-managed Azure AD integration, which issues the tokens accepted by the API server.
+const aksAadServerAppId = "6dae42f8-4368-4678-94ff-3960e28e3630";
+
+export enum ClusterConnectionType {
+    Kubeconfig = "kubeconfig",
+    RunCommand = "runCommand"
+}
+
+// How kubectl commands reach a cluster: directly using a kubeconfig, or, for private clusters whose API
+// server is not reachable from this machine, through the AKS Run Command API.
+export type ClusterConnection =
+    { readonly type: ClusterConnectionType.Kubeconfig, readonly kubeconfigYaml: string } |
+    { readonly type: ClusterConnectionType.RunCommand, readonly cluster: AksClusterTreeItem, readonly clusterToken?: string };
+
+export async function getClusterConnection(target: AksClusterTreeItem): Promise<Errorable<ClusterConnection>> {
+    let managedCluster;
+    try {
+        managedCluster = await getContainerClient(target).managedClusters.get(target.resourceGroupName, target.name);
+    } catch (ex) {
+        return { succeeded: false, error: `Error retrieving ${target.name} managed cluster: ${ex}` };
+    }
+
+    if (!managedCluster.apiServerAccessProfile?.enablePrivateCluster) {
+        const kubeconfig = await getNonInteractiveKubeconfigYaml(target);
+        if (failed(kubeconfig)) {
+            return kubeconfig;
+        }
+
+        return { succeeded: true, result: { type: ClusterConnectionType.Kubeconfig, kubeconfigYaml: kubeconfig.result } };
+    }
+
+    if (!managedCluster.aadProfile) {
+        return { succeeded: true, result: { type: ClusterConnectionType.RunCommand, cluster: target } };
+    }
+
+    const clusterToken = await getAadToken(target, managedCluster.aadProfile.serverAppID || aksAadServerAppId);
+    if (failed(clusterToken)) {
+        return clusterToken;
+    }
+
+    return { succeeded: true, result: { type: ClusterConnectionType.RunCommand, cluster: target, clusterToken: clusterToken.result } };
+}
 
 export async function invokeKubectlCommand(kubectl: APIAvailable<KubectlV1>, kubeConfigFile: string, command: string) : Promise<Errorable<KubectlV1.ShellResult>> {
     const shellResult = await kubectl.api.invokeCommand(`--kubeconfig="${kubeConfigFile}" ${command}`);
+    return checkShellResult(shellResult, command);
+}
+
+// Runs a kubectl command against the cluster. `attachments` are the local files and directories
+// referenced by the command, which are uploaded with the command when it is run through Run Command.
+export async function invokeClusterKubectlCommand(
+    kubectl: APIAvailable<KubectlV1>,
+    connection: ClusterConnection,
+    command: string,
+    attachments: string[] = []
+): Promise<Errorable<KubectlV1.ShellResult>> {
+    let shellResult: KubectlV1.ShellResult | undefined;
+    try {
+        shellResult = await runClusterKubectlCommand(kubectl.api, connection, command, attachments);
+    } catch (ex) {
+        return { succeeded: false, error: `Failed to run kubectl command: ${command}\nError: ${ex}` };
+    }
+
+    return checkShellResult(shellResult, command);
+}
+
+// Like invokeClusterKubectlCommand, but returns the result of commands that exit with an error,
+// and throws if the command could not be run.
+export async function runClusterKubectlCommand(
+    kubectl: KubectlV1,
+    connection: ClusterConnection,
+    command: string,
+    attachments: string[] = []
+): Promise<KubectlV1.ShellResult | undefined> {
+    switch (connection.type) {
+        case ClusterConnectionType.Kubeconfig:
+            return await withOptionalTempFile(connection.kubeconfigYaml, "YAML",
+                (kubeConfigFile) => kubectl.invokeCommand(`--kubeconfig="${kubeConfigFile}" ${command}`));
+        case ClusterConnectionType.RunCommand:
+            return await runKubectlCommand(connection.cluster, command, attachments, connection.clusterToken);
+    }
+}
+
+function checkShellResult(shellResult: KubectlV1.ShellResult | undefined, command: string): Errorable<KubectlV1.ShellResult> {
     if (shellResult === undefined) {
         return { succeeded: false, error: `Failed to run kubectl command: ${command}` };
     }
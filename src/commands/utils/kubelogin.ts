@@ -0,0 +1,126 @@
+import * as yaml from 'js-yaml';
+import { Errorable, failed } from './errorable';
+
+export enum AadAuthenticationMode {
+    // Use a token for the account signed in to VS Code. Tokens are short-lived, so this is only
+    // suitable for kubeconfigs that are used immediately (e.g. for a single kubectl invocation).
+    VSCodeAccount = "vscodeAccount",
+    AzureCli = "azurecli",
+    ServicePrincipal = "spn"
+}
+
+export interface AadAuthenticationConfig {
+    readonly mode: AadAuthenticationMode;
+    readonly servicePrincipalClientId: string;
+}
+
+export interface AadServerInfo {
+    readonly serverId: string;
+    readonly tenantId?: string;
+    readonly environment?: string;
+}
+
+export type AadTokenProvider = (serverId: string) => Promise<Errorable<string>>;
+
+// Converts the users in an AAD cluster kubeconfig, which authenticate interactively with kubelogin's
+// devicecode mode (or the legacy azure auth-provider), into users that authenticate non-interactively.
+export async function convertAadKubeconfig(
+    kubeconfigYaml: string,
+    config: AadAuthenticationConfig,
+    getToken: AadTokenProvider
+): Promise<Errorable<string>> {
+    let kubeconfig: any;
+    try {
+        kubeconfig = yaml.safeLoad(kubeconfigYaml);
+    } catch (e) {
+        return { succeeded: false, error: `Unable to parse kubeconfig: ${e}` };
+    }
+
+    for (const user of kubeconfig?.users || []) {
+        const serverInfo = getAadServerInfo(user.user);
+        if (!serverInfo) {
+            continue;
+        }
+
+        const converted = await getNonInteractiveUser(serverInfo, config, getToken);
+        if (failed(converted)) {
+            return converted;
+        }
+
+        user.user = converted.result;
+    }
+
+    return { succeeded: true, result: yaml.safeDump(kubeconfig) };
+}
+
+export function getAadServerInfo(user: any): AadServerInfo | undefined {
+    if (user?.exec?.command && /kubelogin(\.exe)?$/.test(user.exec.command)) {
+        const args: string[] = user.exec.args || [];
+        const getArg = (name: string) => {
+            const index = args.indexOf(name);
+            return index >= 0 ? args[index + 1] : undefined;
+        };
+
+        const serverId = getArg("--server-id");
+        return serverId ? { serverId, tenantId: getArg("--tenant-id"), environment: getArg("--environment") } : undefined;
+    }
+
+    const authProvider = user?.["auth-provider"];
+    if (authProvider?.name === "azure" && authProvider.config?.["apiserver-id"]) {
+        return {
+            serverId: authProvider.config["apiserver-id"],
+            tenantId: authProvider.config["tenant-id"],
+            environment: authProvider.config.environment
+        };
+    }
+
+    return undefined;
+}
+
+async function getNonInteractiveUser(
+    serverInfo: AadServerInfo,
+    config: AadAuthenticationConfig,
+    getToken: AadTokenProvider
+): Promise<Errorable<any>> {
+    switch (config.mode) {
+        case AadAuthenticationMode.VSCodeAccount: {
+            const token = await getToken(serverInfo.serverId);
+            if (failed(token)) {
+                return token;
+            }
+
+            return { succeeded: true, result: { token: token.result } };
+        }
+        case AadAuthenticationMode.AzureCli:
+            return { succeeded: true, result: getKubeloginExec(["--login", "azurecli", "--server-id", serverInfo.serverId]) };
+        case AadAuthenticationMode.ServicePrincipal:
+            if (!config.servicePrincipalClientId) {
+                return { succeeded: false, error: "aks.aad.servicePrincipalClientId must be set to use service principal authentication." };
+            }
+
+            // kubelogin reads the client secret from the AAD_SERVICE_PRINCIPAL_CLIENT_SECRET environment variable.
+            return {
+                succeeded: true,
+                result: getKubeloginExec([
+                    "--login", "spn",
+                    "--server-id", serverInfo.serverId,
+                    "--client-id", config.servicePrincipalClientId,
+                    ...(serverInfo.tenantId ? ["--tenant-id", serverInfo.tenantId] : []),
+                    ...(serverInfo.environment ? ["--environment", serverInfo.environment] : [])
+                ])
+            };
+        default:
+            return { succeeded: false, error: `Unrecognised AAD authentication mode ${config.mode}.` };
+    }
+}
+
+function getKubeloginExec(args: string[]): any {
+    return {
+        exec: {
+            apiVersion: "client.authentication.k8s.io/v1beta1",
+            command: "kubelogin",
+            args: ["get-token", ...args],
+            env: null
+        }
+    };
+}
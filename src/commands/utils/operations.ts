@@ -0,0 +1,78 @@
+import * as vscode from 'vscode';
+import { Errorable } from './errorable';
+import { delay } from './webviews';
+
+const statusPollIntervalMs = 15000;
+
+// The subset of the Azure SDK operation options used to observe the responses of a long-running operation.
+export interface OperationResponseOptions {
+    onResponse: (rawResponse: { parsedBody?: any }) => void;
+}
+
+export interface OperationPoller<T> {
+    pollUntilDone(): Promise<T>;
+}
+
+// Starts a long-running Azure operation and waits for it to complete, showing a progress notification
+// that is updated with the status reported by `getStatus`. The notification is independent of any
+// webview, so it stays visible (and the outcome is still returned) if the view that started it is closed.
+export async function trackOperation<T>(
+    title: string,
+    beginOperation: (options: OperationResponseOptions) => Promise<OperationPoller<T>>,
+    getStatus: () => Promise<string | undefined>
+): Promise<Errorable<T>> {
+    const options = {
+        location: vscode.ProgressLocation.Notification,
+        title: title
+    };
+
+    return await vscode.window.withProgress(options, (progress) =>
+        runOperation(beginOperation, getStatus, (status) => progress.report({ message: status })));
+}
+
+// Starts a long-running Azure operation and waits for it to complete, passing the status reported by
+// `getStatus` to `onStatus` while it runs. Used to track several operations in a single notification.
+export async function runOperation<T>(
+    beginOperation: (options: OperationResponseOptions) => Promise<OperationPoller<T>>,
+    getStatus: () => Promise<string | undefined>,
+    onStatus: (status: string) => void
+): Promise<Errorable<T>> {
+    // The poller only reports that the operation failed, so keep the last response body to
+    // surface the resource provider's error code and message instead.
+    let lastResponseBody: any = undefined;
+    const responseOptions = {
+        onResponse: (rawResponse: { parsedBody?: any }) => { lastResponseBody = rawResponse.parsedBody; }
+    };
+
+    let isDone = false;
+    const operation = beginOperation(responseOptions).then((poller) => poller.pollUntilDone());
+    const outcome: Promise<Errorable<T>> = operation.then(
+        (result) => { isDone = true; return { succeeded: true, result }; },
+        (ex) => { isDone = true; return { succeeded: false, error: getOperationError(lastResponseBody) || `${ex}` }; }
+    );
+
+    while (!isDone) {
+        await Promise.race([outcome, delay(statusPollIntervalMs)]);
+        if (isDone) {
+            break;
+        }
+
+        const status = await getStatus().catch(() => undefined);
+        if (status) {
+            onStatus(status);
+        }
+    }
+
+    return await outcome;
+}
+
+function getOperationError(responseBody: any): string | undefined {
+    // Failed operations report an ARM error response: { error: { code, message, details: [...] } }.
+    const error = responseBody?.error;
+    if (!error || !error.message) {
+        return undefined;
+    }
+
+    const details: any[] = error.details || [];
+    return [`${error.code}: ${error.message}`, ...details.map((d) => `${d.code}: ${d.message}`)].join('\n');
+}
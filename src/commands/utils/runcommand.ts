@@ -0,0 +1,63 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { KubectlV1 } from 'vscode-kubernetes-tools-api';
+import AksClusterTreeItem from '../../tree/aksClusterTreeItem';
+import { getContainerClient } from './clusters';
+import { createZip, ZipEntry } from './zip';
+
+export interface RunCommandPayload {
+    readonly command: string;
+    readonly files: ZipEntry[];
+}
+
+// Run Command executes the command in a pod in the cluster, so local files and directories referenced by
+// the command are sent along in a zip archive, and the command refers to them relative to its working directory.
+export function prepareRunCommand(kubectlCommand: string, attachments: string[]): RunCommandPayload {
+    let command = `kubectl ${kubectlCommand}`;
+    const files: ZipEntry[] = [];
+    const names: string[] = [];
+
+    attachments.forEach((attachment, index) => {
+        const basename = path.basename(attachment);
+        const name = names.includes(basename) ? `${index}-${basename}` : basename;
+        names.push(name);
+
+        files.push(...readAttachment(attachment, name));
+        command = command.split(attachment).join(name);
+    });
+
+    return { command, files };
+}
+
+export async function runKubectlCommand(
+    cluster: AksClusterTreeItem,
+    kubectlCommand: string,
+    attachments: string[],
+    clusterToken: string | undefined
+): Promise<KubectlV1.ShellResult> {
+    const payload = prepareRunCommand(kubectlCommand, attachments);
+    const containerClient = getContainerClient(cluster);
+    const result = await containerClient.managedClusters.beginRunCommandAndWait(cluster.resourceGroupName, cluster.name, {
+        command: payload.command,
+        context: payload.files.length > 0 ? createZip(payload.files).toString("base64") : undefined,
+        clusterToken
+    });
+
+    // Run Command reports the combined output of the command, and a reason if it could not be run at all.
+    const code = result.exitCode === undefined ? 1 : result.exitCode;
+    const output = result.logs || "";
+    return { code, stdout: output, stderr: code === 0 ? "" : output || result.reason || "" };
+}
+
+function readAttachment(attachment: string, name: string): ZipEntry[] {
+    if (!fs.statSync(attachment).isDirectory()) {
+        return [{ name, content: fs.readFileSync(attachment) }];
+    }
+
+    const entries: ZipEntry[] = [];
+    for (const child of fs.readdirSync(attachment)) {
+        entries.push(...readAttachment(path.join(attachment, child), `${name}/${child}`));
+    }
+
+    return entries;
+}
@@ -0,0 +1,48 @@
+import * as vscode from 'vscode';
+import { ClusterFilter } from './clustergrouping';
+import { ClusterInventoryEntry } from './clusterinventory';
+
+let EXTENSION_CONTEXT: vscode.ExtensionContext | null = null;
+
+export function setStateContext(context: vscode.ExtensionContext) {
+    EXTENSION_CONTEXT = context;
+}
+
+const clusterFilterKey = "aks.clusterFilter";
+
+// The cluster filter is kept per workspace, so that each workspace can focus on its own clusters.
+export function getClusterFilter(): ClusterFilter {
+    return EXTENSION_CONTEXT?.workspaceState.get<ClusterFilter>(clusterFilterKey) || {};
+}
+
+export async function setClusterFilter(filter: ClusterFilter): Promise<void> {
+    await EXTENSION_CONTEXT?.workspaceState.update(clusterFilterKey, filter);
+}
+
+const clusterInventoryKey = "aks.clusterInventory";
+
+// The cluster inventory is kept across workspaces and sessions, so that the tree can show clusters straight away.
+export function getClusterInventoryEntry(subscriptionId: string): ClusterInventoryEntry | undefined {
+    return getClusterInventory()[subscriptionId];
+}
+
+export async function setClusterInventoryEntry(subscriptionId: string, entry: ClusterInventoryEntry | undefined): Promise<void> {
+    const inventory = { ...getClusterInventory() };
+    if (entry) {
+        inventory[subscriptionId] = entry;
+    } else {
+        delete inventory[subscriptionId];
+    }
+
+    await EXTENSION_CONTEXT?.globalState.update(clusterInventoryKey, inventory);
+}
+
+function getClusterInventory(): { [subscriptionId: string]: ClusterInventoryEntry } {
+    return EXTENSION_CONTEXT?.globalState.get<{ [subscriptionId: string]: ClusterInventoryEntry }>(clusterInventoryKey) || {};
+}
+
+// Data that is too large or changes too often for global state, such as the diagnostics history, is kept
+// in files under the extension's global storage.
+export function getGlobalStoragePath(): string | undefined {
+    return EXTENSION_CONTEXT?.globalStorageUri.fsPath;
+}
@@ -0,0 +1,82 @@
+export interface ZipEntry {
+    // The path of the file in the archive, using forward slashes.
+    readonly name: string;
+    readonly content: Buffer;
+}
+
+const crcTable = createCrcTable();
+
+// Creates a zip archive of uncompressed ("stored") entries, which is sufficient for the small
+// files sent along with commands and avoids depending on a compression library.
+export function createZip(entries: ZipEntry[]): Buffer {
+    const localParts: Buffer[] = [];
+    const centralParts: Buffer[] = [];
+    let offset = 0;
+
+    for (const entry of entries) {
+        const name = Buffer.from(entry.name, "utf8");
+        const crc = crc32(entry.content);
+
+        const localHeader = Buffer.alloc(30);
+        localHeader.writeUInt32LE(0x04034b50, 0);
+        localHeader.writeUInt16LE(20, 4);               // version needed to extract
+        localHeader.writeUInt16LE(0x0800, 6);           // flags: UTF-8 names
+        localHeader.writeUInt16LE(0, 8);                // compression: stored
+        localHeader.writeUInt32LE(0, 10);               // modification time and date
+        localHeader.writeUInt32LE(crc, 14);
+        localHeader.writeUInt32LE(entry.content.length, 18);
+        localHeader.writeUInt32LE(entry.content.length, 22);
+        localHeader.writeUInt16LE(name.length, 26);
+        localHeader.writeUInt16LE(0, 28);               // extra field length
+
+        const centralHeader = Buffer.alloc(46);
+        centralHeader.writeUInt32LE(0x02014b50, 0);
+        centralHeader.writeUInt16LE(20, 4);             // version made by
+        centralHeader.writeUInt16LE(20, 6);             // version needed to extract
+        centralHeader.writeUInt16LE(0x0800, 8);
+        centralHeader.writeUInt16LE(0, 10);
+        centralHeader.writeUInt32LE(0, 12);
+        centralHeader.writeUInt32LE(crc, 16);
+        centralHeader.writeUInt32LE(entry.content.length, 20);
+        centralHeader.writeUInt32LE(entry.content.length, 24);
+        centralHeader.writeUInt16LE(name.length, 28);
+        centralHeader.writeUInt32LE(offset, 42);        // offset of the local header
+
+        localParts.push(localHeader, name, entry.content);
+        centralParts.push(centralHeader, name);
+        offset += localHeader.length + name.length + entry.content.length;
+    }
+
+    const centralDirectory = Buffer.concat(centralParts);
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(entries.length, 8);
+    end.writeUInt16LE(entries.length, 10);
+    end.writeUInt32LE(centralDirectory.length, 12);
+    end.writeUInt32LE(offset, 16);
+
+    return Buffer.concat([...localParts, centralDirectory, end]);
+}
+
+function crc32(data: Buffer): number {
+    let crc = 0xffffffff;
+    for (const byte of data) {
+        crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+    }
+
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+function createCrcTable(): number[] {
+    const table: number[] = [];
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = (c & 1) ? (0xedb88320 ^ (c >>> 1)) : (c >>> 1);
+        }
+
+        table.push(c >>> 0);
+    }
+
+    return table;
+}
@@ -11,6 +11,7 @@ import { Reporter, reporter } from './commands/utils/reporter';
 import installAzureServiceOperator  from './commands/azureServiceOperators/installAzureServiceOperator';
 import { AzureResourceNodeContributor } from './tree/azureResourceNodeContributor';
 import { setAssetContext } from './assets';
+import { setStateContext } from './commands/utils/state';
 import { configureStarterWorkflow, configureHelmStarterWorkflow, configureKomposeStarterWorkflow, configureKustomizeStarterWorkflow } from './commands/aksStarterWorkflow/configureStarterWorkflow';
 import aksCRUDDiagnostics from './commands/aksCRUDDiagnostics/aksCRUDDiagnostics';
 import { failed } from './commands/utils/errorable';
@@ -23,11 +24,30 @@ import aksClusterProperties from './commands/aksClusterProperties/aksClusterProp
 import aksCreateClusterNavToAzurePortal from './commands/aksCreateClusterNavToAzurePortal/aksCreateClusterNavToAzurePortal';
 import { registerAzureUtilsExtensionVariables } from '@microsoft/vscode-azext-azureutils';
 import { aksKubectlGetPodsCommands, aksKubectlGetClusterInfoCommands, aksKubectlGetAPIResourcesCommands, aksKubectlGetNodeCommands, aksKubectlDescribeServicesCommands } from './commands/aksKubectlCommands/aksKubectlCommands';
+import aksDeleteCluster from './commands/aksDeleteCluster/aksDeleteCluster';
+import aksCreateCluster from './commands/aksCreateCluster/aksCreateCluster';
+import aksUpgradeKubernetesVersion from './commands/aksUpgradeKubernetesVersion/aksUpgradeKubernetesVersion';
+import { aksAddNodePool, aksConfigureNodePoolAutoscaler, aksDeleteNodePool, aksScaleNodePool } from './commands/aksNodePools/aksNodePools';
+import { aksMergeKubeconfig, aksRemoveFromKubeconfig } from './commands/aksKubeconfig/aksKubeconfig';
+import aksMaintenanceWindows from './commands/aksMaintenanceWindows/aksMaintenanceWindows';
+import aksExportTemplate from './commands/aksExportTemplate/aksExportTemplate';
+import aksCompareClusters from './commands/aksCompareClusters/aksCompareClusters';
+import aksAddons from './commands/aksAddons/aksAddons';
+import aksEditTags from './commands/aksEditTags/aksEditTags';
+import aksActivityLog from './commands/aksActivityLog/aksActivityLog';
+import { aksUpgradeClusterNodeImages, aksUpgradeNodePoolNodeImage } from './commands/aksUpgradeNodeImage/aksUpgradeNodeImage';
+import { aksFilterClusters, aksGroupClusters } from './commands/aksClusterGrouping/aksClusterGrouping';
+import aksRefreshClusters from './commands/aksRefreshClusters/aksRefreshClusters';
+import aksWorkloadIdentity from './commands/aksWorkloadIdentity/aksWorkloadIdentity';
+import { aksAttachAcr, aksDetachAcr, aksShowAcrAccess } from './commands/aksAttachAcr/aksAttachAcr';
+import aksRunAllDiagnostics from './commands/aksRunAllDiagnostics/aksRunAllDiagnostics';
+import aksDiagnosticsHistory from './commands/aksDiagnosticsHistory/aksDiagnosticsHistory';
 
 export async function activate(context: vscode.ExtensionContext) {
     const cloudExplorer = await k8s.extension.cloudExplorer.v1;
     context.subscriptions.push(new Reporter(context));
     setAssetContext(context);
+    setStateContext(context);
 
     if (cloudExplorer.available) {
         // NOTE: This is boilerplate configuration for the Azure UI extension on which this extension relies.
@@ -63,6 +83,32 @@ export async function activate(context: vscode.ExtensionContext) {
         registerCommandWithTelemetry('aks.aksKubectlGetAPIResourcesCommands', aksKubectlGetAPIResourcesCommands);
         registerCommandWithTelemetry('aks.aksKubectlGetNodeCommands', aksKubectlGetNodeCommands);
         registerCommandWithTelemetry('aks.aksKubectlDescribeServicesCommands', aksKubectlDescribeServicesCommands);
+        registerCommandWithTelemetry('aks.addNodePool', aksAddNodePool);
+        registerCommandWithTelemetry('aks.scaleNodePool', aksScaleNodePool);
+        registerCommandWithTelemetry('aks.configureNodePoolAutoscaler', aksConfigureNodePoolAutoscaler);
+        registerCommandWithTelemetry('aks.deleteNodePool', aksDeleteNodePool);
+        registerCommandWithTelemetry('aks.upgradeKubernetesVersion', aksUpgradeKubernetesVersion);
+        registerCommandWithTelemetry('aks.createCluster', aksCreateCluster);
+        registerCommandWithTelemetry('aks.deleteCluster', aksDeleteCluster);
+        registerCommandWithTelemetry('aks.mergeKubeconfig', aksMergeKubeconfig);
+        registerCommandWithTelemetry('aks.removeFromKubeconfig', aksRemoveFromKubeconfig);
+        registerCommandWithTelemetry('aks.maintenanceWindows', aksMaintenanceWindows);
+        registerCommandWithTelemetry('aks.exportTemplate', aksExportTemplate);
+        registerCommandWithTelemetry('aks.compareClusters', aksCompareClusters);
+        registerCommandWithTelemetry('aks.addons', aksAddons);
+        registerCommandWithTelemetry('aks.editTags', aksEditTags);
+        registerCommandWithTelemetry('aks.activityLog', aksActivityLog);
+        registerCommandWithTelemetry('aks.upgradeClusterNodeImages', aksUpgradeClusterNodeImages);
+        registerCommandWithTelemetry('aks.upgradeNodePoolNodeImage', aksUpgradeNodePoolNodeImage);
+        registerCommandWithTelemetry('aks.groupClusters', aksGroupClusters);
+        registerCommandWithTelemetry('aks.filterClusters', aksFilterClusters);
+        registerCommandWithTelemetry('aks.refreshClusters', aksRefreshClusters);
+        registerCommandWithTelemetry('aks.workloadIdentity', aksWorkloadIdentity);
+        registerCommandWithTelemetry('aks.attachAcr', aksAttachAcr);
+        registerCommandWithTelemetry('aks.detachAcr', aksDetachAcr);
+        registerCommandWithTelemetry('aks.showAcrAccess', aksShowAcrAccess);
+        registerCommandWithTelemetry('aks.runAllDiagnostics', aksRunAllDiagnostics);
+        registerCommandWithTelemetry('aks.showDiagnosticsHistory', aksDiagnosticsHistory);
 
         await registerAzureServiceNodes(context);
 
@@ -0,0 +1,81 @@
+import * as acrhelper from '../../commands/aksAttachAcr/helpers/acrhelper';
+import * as arm from '../../commands/utils/arm';
+import AksClusterTreeItem from '../../tree/aksClusterTreeItem';
+import { Succeeded } from '../../commands/utils/errorable';
+import { expect } from 'chai';
+import sinon = require('sinon');
+
+const subscription = "/subscriptions/00000000-0000-0000-0000-000000000000";
+const roleDefinitions = `${subscription}/providers/Microsoft.Authorization/roleDefinitions`;
+const principalId = "33333333-3333-3333-3333-333333333333";
+
+const registry1 = { id: `${subscription}/resourceGroups/rg-acr/providers/Microsoft.ContainerRegistry/registries/registry1`, name: "registry1", resourceGroup: "rg-acr" };
+const registry2 = { id: `${subscription}/resourceGroups/rg-shared/providers/Microsoft.ContainerRegistry/registries/registry2`, name: "registry2", resourceGroup: "rg-shared" };
+const registry3 = { id: `${subscription}/resourceGroups/rg-other/providers/Microsoft.ContainerRegistry/registries/registry3`, name: "registry3", resourceGroup: "rg-other" };
+
+function assignment(name: string, scope: string, roleDefinitionGuid: string) {
+  return { id: `${scope}/providers/Microsoft.Authorization/roleAssignments/${name}`, scope, roleDefinitionId: `${roleDefinitions}/${roleDefinitionGuid}`, principalId };
+}
+
+describe('Test getKubeletIdentityObjectId', () => {
+  it('should read the kubelet identity from the identity profile', () => {
+    const cluster = { location: "eastus", identityProfile: { kubeletidentity: { objectId: principalId, clientId: "client" } } };
+    expect(acrhelper.getKubeletIdentityObjectId(cluster)).to.equal(principalId);
+    expect(acrhelper.getKubeletIdentityObjectId({ location: "eastus" })).to.be.undefined;
+  });
+});
+
+describe('Test isScopeOf', () => {
+  it('should match the resource and its ancestors', () => {
+    expect(acrhelper.isScopeOf(registry1.id, registry1.id)).to.be.true;
+    expect(acrhelper.isScopeOf(`${subscription}/resourceGroups/RG-ACR`, registry1.id)).to.be.true;
+    expect(acrhelper.isScopeOf(subscription, registry1.id)).to.be.true;
+  });
+
+  it('should not match scopes that only share a prefix', () => {
+    expect(acrhelper.isScopeOf(`${subscription}/resourceGroups/rg`, registry1.id)).to.be.false;
+    expect(acrhelper.isScopeOf(registry2.id, registry1.id)).to.be.false;
+  });
+});
+
+describe('Test getRegistryAccess', () => {
+  const assignments = [
+    assignment("a1", registry1.id, acrhelper.acrPullRoleDefinitionId),
+    assignment("a2", `${subscription}/resourceGroups/rg-shared`, "b24988ac-6180-42a0-ab88-20f7382dd24c"),
+    // Roles that don't include pulling images are ignored.
+    assignment("a3", registry3.id, "4633458b-17de-408a-b874-0445c86b69e6")
+  ];
+
+  it('should find the roles through which each registry can be pulled from', () => {
+    const access = acrhelper.getRegistryAccess([registry1, registry2, registry3], assignments);
+
+    expect(access[0].permissions.map((p) => ({ roleName: p.roleName, isAttachment: p.isAttachment }))).to.deep.equal([{ roleName: "AcrPull", isAttachment: true }]);
+    expect(access[1].permissions.map((p) => ({ roleName: p.roleName, isAttachment: p.isAttachment }))).to.deep.equal([{ roleName: "Contributor", isAttachment: false }]);
+    expect(access[2].permissions).to.deep.equal([]);
+  });
+
+  it('should describe where the role is assigned', () => {
+    const access = acrhelper.getRegistryAccess([registry1, registry2], [...assignments, assignment("a4", subscription, "acdd72a7-3385-48ef-bd42-f606fba81ae7")]);
+
+    expect(access[0].permissions.map((p) => acrhelper.describePullPermission(p, registry1))).to.deep.equal(["AcrPull", "Reader on subscription"]);
+    expect(access[1].permissions.map((p) => acrhelper.describePullPermission(p, registry2))).to.deep.equal(["Contributor on resource group rg-shared", "Reader on subscription"]);
+  });
+});
+
+describe('Test listRoleAssignments', () => {
+  afterEach(() => {
+    sinon.restore();
+  });
+
+  it('should follow the next links of the role assignment list', async () => {
+    const target = { subscription: { subscriptionId: "00000000-0000-0000-0000-000000000000" } } as AksClusterTreeItem;
+    const roleAssignment = (name: string) => ({ id: `${subscription}/providers/Microsoft.Authorization/roleAssignments/${name}`, properties: { scope: subscription, roleDefinitionId: `${roleDefinitions}/r`, principalId } });
+    const request = sinon.stub(arm, 'sendArmRequest');
+    request.onFirstCall().resolves({ succeeded: true, result: { value: [roleAssignment("a1")], nextLink: `https://management.azure.com${subscription}/providers/Microsoft.Authorization/roleAssignments?api-version=2022-04-01&$skiptoken=next` } });
+    request.onSecondCall().resolves({ succeeded: true, result: { value: [roleAssignment("a2")] } });
+
+    const assignments = await acrhelper.listRoleAssignments(target, principalId);
+    expect((assignments as Succeeded<acrhelper.RoleAssignment[]>).result.map((a) => a.id.split("/").pop())).to.deep.equal(["a1", "a2"]);
+    expect(request.secondCall.args[2]).to.equal(`${subscription}/providers/Microsoft.Authorization/roleAssignments?%24skiptoken=next`);
+  });
+});
@@ -0,0 +1,46 @@
+import * as activityloghelper from '../../commands/aksActivityLog/helpers/activityloghelper';
+import * as amon from '@azure/arm-monitor';
+import { expect } from 'chai';
+
+function event(correlationId: string, time: string, status: string, caller?: string): amon.MonitorManagementModels.EventData {
+  return {
+    correlationId,
+    eventTimestamp: new Date(time),
+    caller,
+    operationName: { value: "Microsoft.ContainerService/managedClusters/write", localizedValue: "Create or Update Managed Cluster" },
+    status: { value: status, localizedValue: status }
+  } as amon.MonitorManagementModels.EventData;
+}
+
+const events = [
+  event("a", "2023-05-01T10:05:00Z", "Succeeded"),
+  event("b", "2023-05-02T08:00:00Z", "Started", "someone@contoso.com"),
+  event("a", "2023-05-01T10:00:00Z", "Started", "admin@contoso.com"),
+  event("b", "2023-05-02T08:10:00Z", "Failed")
+];
+
+describe('Test getActivityLogFilter', () => {
+  it('should filter by time range and resource', () => {
+    const filter = activityloghelper.getActivityLogFilter("/subscriptions/s/x", new Date("2023-05-01T00:00:00Z"), new Date("2023-05-02T00:00:00Z"));
+    expect(filter).to.equal("eventTimestamp ge '2023-05-01T00:00:00.000Z' and eventTimestamp le '2023-05-02T00:00:00.000Z' and resourceUri eq '/subscriptions/s/x'");
+  });
+});
+
+describe('Test groupActivityLogEvents', () => {
+  it('should group events by correlation ID, most recent operation first', () => {
+    const operations = activityloghelper.groupActivityLogEvents(events);
+    expect(operations.map((o) => o.correlationId)).to.deep.equal(["b", "a"]);
+
+    const [failedOperation, succeededOperation] = operations;
+    expect(failedOperation.status).to.equal("Failed");
+    expect(failedOperation.caller).to.equal("someone@contoso.com");
+    expect(succeededOperation.operationName).to.equal("Create or Update Managed Cluster");
+    expect(succeededOperation.startTime.toISOString()).to.equal("2023-05-01T10:00:00.000Z");
+    expect(succeededOperation.events.map((e) => e.status)).to.deep.equal(["Started", "Succeeded"]);
+  });
+
+  it('should filter operations by their latest status', () => {
+    expect(activityloghelper.groupActivityLogEvents(events, "Failed").map((o) => o.correlationId)).to.deep.equal(["b"]);
+    expect(activityloghelper.groupActivityLogEvents(events, "Started")).to.be.empty;
+  });
+});
@@ -0,0 +1,54 @@
+import * as addonhelper from '../../commands/aksAddons/helpers/addonhelper';
+import { expect } from 'chai';
+
+function getAddon(id: string): addonhelper.AddonDefinition {
+  return addonhelper.addonDefinitions.find((d) => d.id === id)!;
+}
+
+describe('Test getAddonStates', () => {
+  it('should read add-on profiles case-insensitively', () => {
+    const states = addonhelper.getAddonStates({
+      location: "eastus",
+      addonProfiles: {
+        omsAgent: { enabled: true, config: { logAnalyticsWorkspaceResourceID: "/w" } },
+        azurepolicy: { enabled: false }
+      }
+    });
+
+    const monitoring = states.find((s) => s.definition.id === "monitoring")!;
+    expect(monitoring.isEnabled).to.be.true;
+    expect(monitoring.configuration).to.deep.equal({ logAnalyticsWorkspaceResourceID: "/w" });
+    expect(states.find((s) => s.definition.id === "azure-policy")!.isEnabled).to.be.false;
+  });
+
+  it('should read feature profiles', () => {
+    const states = addonhelper.getAddonStates({ location: "eastus", workloadAutoScalerProfile: { keda: { enabled: true } } });
+    expect(states.filter((s) => s.isEnabled).map((s) => s.definition.id)).to.deep.equal(["keda"]);
+  });
+
+  it('should treat missing profiles as disabled', () => {
+    expect(addonhelper.getAddonStates({ location: "eastus" }).some((s) => s.isEnabled)).to.be.false;
+  });
+});
+
+describe('Test setEnabled', () => {
+  it('should update the existing add-on profile with its parameters', () => {
+    const properties: any = { addonProfiles: { omsAgent: { enabled: false } } };
+    getAddon("monitoring").setEnabled(properties, true, { logAnalyticsWorkspaceResourceID: "/w" });
+    expect(properties.addonProfiles).to.deep.equal({ omsAgent: { enabled: true, config: { logAnalyticsWorkspaceResourceID: "/w" } } });
+  });
+
+  it('should add missing add-on profiles', () => {
+    const properties: any = {};
+    getAddon("azure-keyvault-secrets-provider").setEnabled(properties, true, { enableSecretRotation: "false" });
+    expect(properties.addonProfiles.azureKeyvaultSecretsProvider).to.deep.equal({ enabled: true, config: { enableSecretRotation: "false" } });
+  });
+
+  it('should create feature profiles and keep their other settings', () => {
+    const properties: any = { ingressProfile: { webAppRouting: { dnsZoneResourceIds: ["/z"] } } };
+    getAddon("web_application_routing").setEnabled(properties, true, {});
+    getAddon("keda").setEnabled(properties, false, {});
+    expect(properties.ingressProfile.webAppRouting).to.deep.equal({ dnsZoneResourceIds: ["/z"], enabled: true });
+    expect(properties.workloadAutoScalerProfile).to.deep.equal({ keda: { enabled: false } });
+  });
+});
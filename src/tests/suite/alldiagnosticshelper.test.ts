@@ -0,0 +1,60 @@
+import * as alldiagnosticshelper from '../../commands/aksRunAllDiagnostics/helpers/alldiagnosticshelper';
+import { AppLensARMResponse, InsightStatus } from '../../commands/utils/detectors';
+import { expect } from 'chai';
+
+const category = { detectorName: "aks-category-node-health", displayName: "Node Health" };
+
+function detector(name: string, rows: any[][]): AppLensARMResponse {
+  return {
+    id: `/subscriptions/sub/resourceGroups/rg/providers/Microsoft.ContainerService/managedClusters/cluster1/detectors/${name}`,
+    name,
+    location: "eastus",
+    type: "Microsoft.ContainerService/managedClusters/detectors",
+    properties: {
+      metadata: { name: `${name} check`, description: "test" },
+      dataset: [{ table: { rows } }]
+    }
+  };
+}
+
+describe('Test getCategoryDetectorIds', () => {
+  it('should read the detectors of a category', () => {
+    const categoryResponse = detector("aks-category-node-health", []);
+    categoryResponse.properties.dataset[0].renderingProperties = { detectorIds: ["node-cpu", "node-disk"] };
+    expect(alldiagnosticshelper.getCategoryDetectorIds(categoryResponse)).to.deep.equal(["node-cpu", "node-disk"]);
+  });
+
+  it('should return undefined for detectors without a detector list', () => {
+    const networkResponse = detector("networkconnectivity", []);
+    networkResponse.properties.dataset[0].renderingProperties = "";
+    expect(alldiagnosticshelper.getCategoryDetectorIds(networkResponse)).to.be.undefined;
+  });
+});
+
+describe('Test getCategoryReport', () => {
+  it('should rate detectors by their most severe insight', () => {
+    const report = alldiagnosticshelper.getCategoryReport(category, [
+      detector("node-cpu", [["Success", "CPU", "k", "v"], ["Critical", "Memory", "k", "v"]]),
+      detector("node-disk", [["Success", "Disk", "k", "v"]]),
+      detector("node-info", [["Info", "Versions", "k", "v"]]),
+      detector("node-empty", [])
+    ]);
+
+    expect(report.detectors.map((d) => d.status)).to.deep.equal([InsightStatus.Critical, InsightStatus.Success, InsightStatus.Info, InsightStatus.None]);
+    expect(report.status).to.equal(InsightStatus.Critical);
+    expect(report.counts).to.deep.equal({ critical: 1, warning: 0, success: 1, info: 2 });
+    expect(report.detectors[0].name).to.equal("node-cpu check");
+  });
+});
+
+describe('Test getDiagnosticsSummary', () => {
+  it('should count detectors across categories and ignore failed categories', () => {
+    const summary = alldiagnosticshelper.getDiagnosticsSummary([
+      alldiagnosticshelper.getCategoryReport(category, [detector("node-cpu", [["Warning", "CPU", "k", "v"]]), detector("node-disk", [["Success", "Disk", "k", "v"]])]),
+      alldiagnosticshelper.getCategoryReport(category, [detector("crud", [["Critical", "Failed upgrade", "k", "v"]])]),
+      alldiagnosticshelper.getFailedCategoryReport(category, "Error invoking detector")
+    ]);
+
+    expect(summary).to.deep.equal({ critical: 1, warning: 1, success: 1, info: 0 });
+  });
+});
@@ -0,0 +1,31 @@
+import * as clouds from '../../commands/utils/clouds';
+import { Environment } from '@azure/ms-rest-azure-env';
+import { ISubscriptionContext } from '@microsoft/vscode-azext-utils';
+import { expect } from 'chai';
+
+function subscriptionIn(environment: Environment): ISubscriptionContext {
+  return { environment } as ISubscriptionContext;
+}
+
+describe('Test getCloudEnvironment', () => {
+  it('should use the endpoints of the subscription environment', () => {
+    const environment = clouds.getCloudEnvironment(subscriptionIn(Environment.USGovernment));
+    expect(environment.resourceManagerEndpointUrl).to.equal("https://management.usgovcloudapi.net");
+    expect(environment.portalUrl).to.equal("https://portal.azure.us");
+  });
+
+  it('should support Azure China', () => {
+    const environment = clouds.getCloudEnvironment(subscriptionIn(Environment.ChinaCloud));
+    expect(environment.resourceManagerEndpointUrl).to.equal("https://management.chinacloudapi.cn");
+    expect(environment.portalUrl).to.equal("https://portal.azure.cn");
+    expect(environment.activeDirectoryEndpointUrl).to.equal("https://login.chinacloudapi.cn");
+  });
+});
+
+describe('Test getPortalResourceUrl', () => {
+  it('should build portal links for the subscription cloud', () => {
+    const environment = clouds.getCloudEnvironment(subscriptionIn(Environment.GermanCloud));
+    const url = clouds.getPortalResourceUrl(environment, "/subscriptions/s/resourceGroups/rg/providers/Microsoft.ContainerService/managedClusters/c", "overview");
+    expect(url).to.match(/^https:\/\/portal\.microsoftazure\.de\/#resource\/subscriptions\/s\/.*\/managedClusters\/c\/overview\?referrer_source=vscode/);
+  });
+});
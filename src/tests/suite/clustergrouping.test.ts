@@ -0,0 +1,89 @@
+import * as clustergrouping from '../../commands/utils/clustergrouping';
+import { expect } from 'chai';
+
+const subscriptionId = "/subscriptions/00000000-0000-0000-0000-000000000000";
+
+function cluster(name: string, resourceGroup: string, location: string, tags?: { [key: string]: string }) {
+  return {
+    id: `${subscriptionId}/resourceGroups/${resourceGroup}/providers/Microsoft.ContainerService/managedClusters/${name}`,
+    name,
+    location,
+    tags
+  };
+}
+
+const clusters = [
+  cluster("prod-eu", "rg-prod", "westeurope", { env: "prod" }),
+  cluster("dev-us", "rg-dev", "eastus", { Env: "dev" }),
+  cluster("Prod-us", "rg-prod", "eastus", { env: "prod" }),
+  cluster("scratch", "rg-dev", "eastus")
+];
+
+describe('Test matchesClusterFilter', () => {
+  it('should match everything with an empty filter', () => {
+    expect(clusters.filter((c) => clustergrouping.matchesClusterFilter(c, {})).length).to.equal(4);
+  });
+
+  it('should match part of the name case-insensitively', () => {
+    const matches = clusters.filter((c) => clustergrouping.matchesClusterFilter(c, { namePattern: "prod" }));
+    expect(matches.map((c) => c.name)).to.deep.equal(["prod-eu", "Prod-us"]);
+  });
+
+  it('should match whole names against wildcard patterns', () => {
+    expect(clusters.filter((c) => clustergrouping.matchesClusterFilter(c, { namePattern: "*-us" })).map((c) => c.name)).to.deep.equal(["dev-us", "Prod-us"]);
+    expect(clusters.filter((c) => clustergrouping.matchesClusterFilter(c, { namePattern: "prod?eu" })).map((c) => c.name)).to.deep.equal(["prod-eu"]);
+    expect(clusters.filter((c) => clustergrouping.matchesClusterFilter(c, { namePattern: "prod*." })).length).to.equal(0);
+  });
+
+  it('should match tag names case-insensitively and tag values exactly', () => {
+    expect(clusters.filter((c) => clustergrouping.matchesClusterFilter(c, { tagName: "ENV" })).length).to.equal(3);
+    expect(clusters.filter((c) => clustergrouping.matchesClusterFilter(c, { tagName: "env", tagValue: "dev" })).map((c) => c.name)).to.deep.equal(["dev-us"]);
+    expect(clusters.filter((c) => clustergrouping.matchesClusterFilter(c, { tagName: "env", tagValue: "Prod" })).length).to.equal(0);
+  });
+
+  it('should combine name and tag filters', () => {
+    const matches = clusters.filter((c) => clustergrouping.matchesClusterFilter(c, { namePattern: "us", tagName: "env", tagValue: "prod" }));
+    expect(matches.map((c) => c.name)).to.deep.equal(["Prod-us"]);
+  });
+});
+
+describe('Test parseTagFilter', () => {
+  it('should parse tag names with and without values', () => {
+    expect(clustergrouping.parseTagFilter(" env ")).to.deep.equal({ tagName: "env" });
+    expect(clustergrouping.parseTagFilter("env = prod")).to.deep.equal({ tagName: "env", tagValue: "prod" });
+    expect(clustergrouping.parseTagFilter("env=")).to.deep.equal({ tagName: "env", tagValue: "" });
+  });
+});
+
+describe('Test describeClusterFilter', () => {
+  it('should describe the parts of the filter that are set', () => {
+    expect(clustergrouping.isClusterFilterEmpty({})).to.be.true;
+    expect(clustergrouping.describeClusterFilter({ namePattern: "prod*", tagName: "env", tagValue: "prod" })).to.equal("name: prod*, tag: env=prod");
+    expect(clustergrouping.describeClusterFilter({ tagName: "env" })).to.equal("tag: env");
+  });
+});
+
+describe('Test groupClusters', () => {
+  it('should group by resource group and sort groups and clusters by name', () => {
+    const groups = clustergrouping.groupClusters(clusters, clustergrouping.ClusterGrouping.ResourceGroup, "");
+    expect(groups.map((g) => ({ name: g.name, clusters: g.clusters.map((c) => c.name) }))).to.deep.equal([
+      { name: "rg-dev", clusters: ["dev-us", "scratch"] },
+      { name: "rg-prod", clusters: ["prod-eu", "Prod-us"] }
+    ]);
+  });
+
+  it('should group by location', () => {
+    const groups = clustergrouping.groupClusters(clusters, clustergrouping.ClusterGrouping.Location, "");
+    expect(groups.map((g) => g.name)).to.deep.equal(["eastus", "westeurope"]);
+    expect(groups[0].clusters.length).to.equal(3);
+  });
+
+  it('should group by tag value, with a group for clusters without the tag', () => {
+    const groups = clustergrouping.groupClusters(clusters, clustergrouping.ClusterGrouping.Tag, "env");
+    expect(groups.map((g) => ({ name: g.name, clusters: g.clusters.map((c) => c.name) }))).to.deep.equal([
+      { name: "(no env tag)", clusters: ["scratch"] },
+      { name: "dev", clusters: ["dev-us"] },
+      { name: "prod", clusters: ["prod-eu", "Prod-us"] }
+    ]);
+  });
+});
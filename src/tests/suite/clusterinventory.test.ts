@@ -0,0 +1,134 @@
+import * as clusterinventory from '../../commands/utils/clusterinventory';
+import * as arm from '../../commands/utils/arm';
+import * as config from '../../commands/utils/config';
+import * as state from '../../commands/utils/state';
+import { ISubscriptionContext } from '@microsoft/vscode-azext-utils';
+import { expect } from 'chai';
+import sinon = require('sinon');
+
+const subscription1 = "00000000-0000-0000-0000-000000000001";
+const subscription2 = "00000000-0000-0000-0000-000000000002";
+
+function clusterId(subscriptionId: string, name: string): string {
+  return `/subscriptions/${subscriptionId}/resourceGroups/rg/providers/Microsoft.ContainerService/managedClusters/${name}`;
+}
+
+describe('Test isInventoryEntryFresh', () => {
+  it('should be fresh within the cache duration', () => {
+    const entry = { clusters: [], retrievedAt: 1000000 };
+    expect(clusterinventory.isInventoryEntryFresh(entry, 1000000 + 9 * 60 * 1000, 10)).to.be.true;
+    expect(clusterinventory.isInventoryEntryFresh(entry, 1000000 + 10 * 60 * 1000, 10)).to.be.false;
+  });
+
+  it('should never be fresh with a cache duration of zero', () => {
+    expect(clusterinventory.isInventoryEntryFresh({ clusters: [], retrievedAt: 1000000 }, 1000000, 0)).to.be.false;
+  });
+});
+
+describe('Test getResourceGraphClusters', () => {
+  it('should assign clusters to their subscriptions', () => {
+    const rows = [
+      { id: clusterId(subscription1, "cluster1"), name: "cluster1", location: "eastus", tags: { env: "dev" }, subscriptionId: subscription1, provisioningState: "Succeeded", powerState: "Running", kubernetesVersion: "1.24.6" },
+      { id: clusterId(subscription1, "cluster2"), name: "cluster2", location: "westus", tags: null, subscriptionId: subscription1.toUpperCase(), provisioningState: "", powerState: "", kubernetesVersion: "" }
+    ];
+
+    const clusters = clusterinventory.getResourceGraphClusters(rows, [subscription1, subscription2]);
+    expect(clusters.get(subscription1)).to.deep.equal([
+      {
+        id: clusterId(subscription1, "cluster1"),
+        name: "cluster1",
+        type: "Microsoft.ContainerService/managedClusters",
+        location: "eastus",
+        tags: { env: "dev" },
+        properties: { provisioningState: "Succeeded", powerState: { code: "Running" }, kubernetesVersion: "1.24.6" }
+      },
+      {
+        id: clusterId(subscription1, "cluster2"),
+        name: "cluster2",
+        type: "Microsoft.ContainerService/managedClusters",
+        location: "westus",
+        tags: undefined,
+        properties: { provisioningState: undefined, powerState: undefined, kubernetesVersion: undefined }
+      }
+    ]);
+    expect(clusters.get(subscription2)).to.deep.equal([]);
+  });
+
+  it('should ignore rows from other subscriptions', () => {
+    const rows = [{ id: clusterId(subscription2, "cluster3"), name: "cluster3", location: "eastus", subscriptionId: subscription2 }];
+    const clusters = clusterinventory.getResourceGraphClusters(rows, [subscription1]);
+    expect([...clusters.keys()]).to.deep.equal([subscription1]);
+    expect(clusters.get(subscription1)).to.deep.equal([]);
+  });
+});
+
+describe('Test haveSameClusters', () => {
+  const cluster1 = { id: clusterId(subscription1, "cluster1"), name: "cluster1", location: "eastus", tags: { env: "dev" } };
+  const cluster2 = { id: clusterId(subscription1, "cluster2"), name: "cluster2", location: "westus" };
+
+  it('should ignore order and the case of IDs', () => {
+    expect(clusterinventory.haveSameClusters([cluster1, cluster2], [{ ...cluster2, id: cluster2.id.toLowerCase() }, cluster1])).to.be.true;
+  });
+
+  it('should detect added, removed and changed clusters', () => {
+    expect(clusterinventory.haveSameClusters([cluster1], [cluster1, cluster2])).to.be.false;
+    expect(clusterinventory.haveSameClusters([cluster1, cluster2], [cluster2])).to.be.false;
+    expect(clusterinventory.haveSameClusters([cluster1], [{ ...cluster1, tags: { env: "prod" } }])).to.be.false;
+    expect(clusterinventory.haveSameClusters([cluster1], [{ ...cluster1, properties: { provisioningState: "Succeeded", powerState: { code: "Stopped" } } }])).to.be.false;
+  });
+});
+
+describe('Test withClusterTags', () => {
+  it('should replace the tags of the matching cluster only', () => {
+    const cluster1 = { id: clusterId(subscription1, "cluster1"), name: "cluster1", tags: { env: "dev" } };
+    const cluster2 = { id: clusterId(subscription1, "cluster2"), name: "cluster2", tags: { env: "dev" } };
+
+    const clusters = clusterinventory.withClusterTags([cluster1, cluster2], cluster1.id.toUpperCase(), { env: "prod", owner: "team" });
+    expect(clusters).to.deep.equal([{ ...cluster1, tags: { env: "prod", owner: "team" } }, cluster2]);
+    expect(clusterinventory.withClusterTags([cluster1], cluster1.id, undefined)[0].tags).to.be.undefined;
+  });
+});
+
+describe('Test getSubscriptionClusters', () => {
+  const subscription = { subscriptionId: subscription1, tenantId: "t", subscriptionDisplayName: "Subscription 1" } as ISubscriptionContext;
+  const row = { id: clusterId(subscription1, "cluster1"), name: "cluster1", location: "eastus", subscriptionId: subscription1, provisioningState: "Succeeded", powerState: "Running", kubernetesVersion: "1.24.6" };
+  const graphCluster = clusterinventory.getResourceGraphClusters([row], [subscription1]).get(subscription1)![0];
+
+  function whenReloaded(): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, 0));
+  }
+
+  beforeEach(() => {
+    sinon.stub(config, 'getClusterInventoryConfig').returns({ cacheDurationMinutes: 10, useResourceGraph: true });
+  });
+
+  afterEach(() => {
+    sinon.restore();
+  });
+
+  it('should reload the clusters of a subscription with their status from Resource Graph', async () => {
+    const query = sinon.stub(arm, 'sendArmRequest').resolves({ succeeded: true, result: { data: [row] } });
+
+    const clusters = await clusterinventory.getSubscriptionClusters(subscription, () => undefined);
+    expect(clusters).to.deep.equal({ succeeded: true, result: [graphCluster] });
+    expect(query.calledOnce).to.be.true;
+    expect(query.firstCall.args.slice(0, 3)).to.deep.equal([subscription, "POST", "/providers/Microsoft.ResourceGraph/resources"]);
+    expect(query.firstCall.args[4].subscriptions).to.deep.equal([subscription1]);
+  });
+
+  it('should only report changes when reloading an expired inventory entry', async () => {
+    sinon.stub(state, 'getClusterInventoryEntry').returns({ clusters: [graphCluster], retrievedAt: 0 });
+    const query = sinon.stub(arm, 'sendArmRequest').resolves({ succeeded: true, result: { data: [row] } });
+    const onUpdated = sinon.spy();
+
+    const clusters = await clusterinventory.getSubscriptionClusters(subscription, onUpdated);
+    await whenReloaded();
+    expect(clusters).to.deep.equal({ succeeded: true, result: [graphCluster] });
+    expect(onUpdated.called).to.be.false;
+
+    query.resolves({ succeeded: true, result: { data: [{ ...row, powerState: "Stopped" }] } });
+    await clusterinventory.getSubscriptionClusters(subscription, onUpdated);
+    await whenReloaded();
+    expect(onUpdated.calledOnce).to.be.true;
+  });
+});
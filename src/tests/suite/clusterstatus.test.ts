@@ -0,0 +1,73 @@
+import * as clusterstatus from '../../commands/utils/clusterstatus';
+import { expect } from 'chai';
+
+describe('Test getClusterStatus', () => {
+  it('should use the power state of settled clusters', () => {
+    expect(clusterstatus.getClusterStatus({ location: "eastus", provisioningState: "Succeeded", powerState: { code: "Running" } })).to.equal(clusterstatus.ClusterStatus.Running);
+    expect(clusterstatus.getClusterStatus({ location: "eastus", provisioningState: "Succeeded", powerState: { code: "Stopped" } })).to.equal(clusterstatus.ClusterStatus.Stopped);
+    expect(clusterstatus.getClusterStatus({ location: "eastus", provisioningState: "Canceled", powerState: { code: "Running" } })).to.equal(clusterstatus.ClusterStatus.Running);
+  });
+
+  it('should report failed clusters regardless of power state', () => {
+    expect(clusterstatus.getClusterStatus({ location: "eastus", provisioningState: "Failed", powerState: { code: "Running" } })).to.equal(clusterstatus.ClusterStatus.Failed);
+  });
+
+  it('should report clusters with an operation in progress as updating', () => {
+    for (const provisioningState of ["Creating", "Updating", "Upgrading", "Starting", "Stopping"]) {
+      expect(clusterstatus.getClusterStatus({ location: "eastus", provisioningState, powerState: { code: "Running" } })).to.equal(clusterstatus.ClusterStatus.Updating);
+    }
+  });
+});
+
+describe('Test getClusterDescription', () => {
+  it('should show the Kubernetes version and location', () => {
+    const description = clusterstatus.getClusterDescription({ location: "eastus", kubernetesVersion: "1.23", currentKubernetesVersion: "1.23.5", provisioningState: "Succeeded" });
+    expect(description).to.equal("v1.23.5 · eastus");
+  });
+
+  it('should include the provisioning state of clusters that are updating', () => {
+    const description = clusterstatus.getClusterDescription({ location: "westeurope", kubernetesVersion: "1.24.0", provisioningState: "Upgrading" });
+    expect(description).to.equal("v1.24.0 · westeurope · Upgrading");
+  });
+});
+
+describe('Test getListedCluster', () => {
+  it('should use the status properties of listed clusters', () => {
+    const cluster = clusterstatus.getListedCluster({
+      name: "cluster1",
+      location: "eastus",
+      properties: { provisioningState: "Succeeded", powerState: { code: "Stopped" }, kubernetesVersion: "1.24.6" }
+    });
+
+    expect(cluster).to.deep.equal({ name: "cluster1", location: "eastus", provisioningState: "Succeeded", powerState: { code: "Stopped" }, kubernetesVersion: "1.24.6" });
+    expect(clusterstatus.getClusterStatus(cluster!)).to.equal(clusterstatus.ClusterStatus.Stopped);
+  });
+
+  it('should return undefined for clusters listed without their status', () => {
+    expect(clusterstatus.getListedCluster({ name: "cluster1", location: "eastus" })).to.be.undefined;
+  });
+});
+
+describe('Test getClusterTooltip', () => {
+  it('should show the private FQDN of private clusters', () => {
+    const tooltip = clusterstatus.getClusterTooltip({
+      name: "cluster1",
+      location: "eastus",
+      fqdn: "cluster1.hcp.eastus.azmk8s.io",
+      privateFqdn: "cluster1.privatelink.eastus.azmk8s.io",
+      apiServerAccessProfile: { enablePrivateCluster: true },
+      agentPoolProfiles: [{ name: "nodepool1" }]
+    });
+
+    expect(tooltip).to.contain("Private FQDN: cluster1.privatelink.eastus.azmk8s.io");
+    expect(tooltip).to.not.contain("cluster1.hcp.eastus.azmk8s.io");
+    expect(tooltip).to.contain("Node Pools: 1");
+  });
+
+  it('should leave out the details that listed clusters lack', () => {
+    const tooltip = clusterstatus.getClusterTooltip({ name: "cluster1", location: "eastus", provisioningState: "Succeeded", kubernetesVersion: "1.24.6" });
+    expect(tooltip).to.contain("Kubernetes Version: 1.24.6");
+    expect(tooltip).to.not.contain("Node Pools");
+    expect(tooltip).to.not.contain("Pricing Tier");
+  });
+});
@@ -0,0 +1,53 @@
+import * as comparehelper from '../../commands/aksCompareClusters/helpers/comparehelper';
+import { ClusterARMResponse } from '../../commands/utils/clusters';
+import { expect } from 'chai';
+
+function clusterWith(properties: any): ClusterARMResponse {
+  return {
+    id: "/subscriptions/s/resourceGroups/rg/providers/Microsoft.ContainerService/managedClusters/c",
+    name: "c",
+    location: "westeurope",
+    type: "Microsoft.ContainerService/ManagedClusters",
+    properties: {
+      kubernetesVersion: "1.26.3",
+      networkProfile: { networkPlugin: "azure", serviceCidr: "10.0.0.0/16" },
+      agentPoolProfiles: [
+        { name: "system", count: 3, vmSize: "Standard_DS2_v2" },
+        { name: "user", count: 2, vmSize: "Standard_D4s_v3" }
+      ],
+      ...properties
+    }
+  };
+}
+
+describe('Test getComparableConfiguration', () => {
+  it('should group properties into sections and key agent pools by name', () => {
+    const configuration = comparehelper.getComparableConfiguration(clusterWith({ provisioningState: "Succeeded", dnsPrefix: "c-dns" }));
+    expect(Object.keys(configuration)).to.deep.equal(comparehelper.comparisonSections.map((s) => s.key));
+    expect(configuration.version.kubernetesVersion).to.equal("1.26.3");
+    expect(configuration.networking.networkProfile).to.deep.equal({ networkPlugin: "azure", serviceCidr: "10.0.0.0/16" });
+    expect(configuration.nodePools.user).to.deep.equal({ count: 2, vmSize: "Standard_D4s_v3" });
+    expect(configuration.other).to.deep.equal({ dnsPrefix: "c-dns" });
+  });
+
+  it('should not depend on property or agent pool order', () => {
+    const left = comparehelper.getComparableConfiguration(clusterWith({}));
+    const right = comparehelper.getComparableConfiguration(clusterWith({
+      networkProfile: { serviceCidr: "10.0.0.0/16", networkPlugin: "azure" },
+      agentPoolProfiles: [
+        { name: "user", vmSize: "Standard_D4s_v3", count: 2 },
+        { name: "system", vmSize: "Standard_DS2_v2", count: 3 }
+      ]
+    }));
+    expect(JSON.stringify(left)).to.equal(JSON.stringify(right));
+  });
+});
+
+describe('Test getDifferentSections', () => {
+  it('should report the sections that differ', () => {
+    const left = comparehelper.getComparableConfiguration(clusterWith({}));
+    const right = comparehelper.getComparableConfiguration(clusterWith({ kubernetesVersion: "1.27.1", powerState: { code: "Stopped" } }));
+    expect(comparehelper.getDifferentSections(left, right).map((s) => s.key)).to.deep.equal(["version"]);
+    expect(comparehelper.getDifferentSections(left, left)).to.be.empty;
+  });
+});
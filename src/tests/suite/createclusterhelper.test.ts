@@ -0,0 +1,71 @@
+import * as createclusterhelper from '../../commands/aksCreateCluster/helpers/createclusterhelper';
+import { expect } from 'chai';
+
+const baseOptions = {
+  name: "my_test-cluster",
+  location: "eastus",
+  kubernetesVersion: "1.23.5",
+  vmSize: "Standard_DS2_v2",
+  nodeCount: 2,
+  networkPlugin: "kubenet"
+};
+
+describe('Test getManagedClusterSpec', () => {
+  it('should build a dev/test cluster without autoscaling or uptime SLA', () => {
+    const spec = createclusterhelper.getManagedClusterSpec({ ...baseOptions, preset: createclusterhelper.ClusterPreset.DevTest });
+    expect(spec.location).to.equal("eastus");
+    expect(spec.kubernetesVersion).to.equal("1.23.5");
+    expect(spec.dnsPrefix).to.equal("my-test-cluster-dns");
+    expect(spec.sku!.tier).to.equal("Free");
+    expect(spec.agentPoolProfiles![0].count).to.equal(2);
+    expect(spec.agentPoolProfiles![0].enableAutoScaling).to.be.undefined;
+    expect(spec.networkProfile!.networkPlugin).to.equal("kubenet");
+  });
+
+  it('should build a production cluster with autoscaling and uptime SLA', () => {
+    const spec = createclusterhelper.getManagedClusterSpec({ ...baseOptions, preset: createclusterhelper.ClusterPreset.Production });
+    expect(spec.sku).to.deep.equal({ name: "Base", tier: "Standard" });
+    expect(spec.agentPoolProfiles![0].enableAutoScaling).to.be.true;
+    expect(spec.agentPoolProfiles![0].minCount).to.equal(2);
+    expect(spec.agentPoolProfiles![0].maxCount).to.equal(6);
+    expect(spec.autoUpgradeProfile!.upgradeChannel).to.equal("stable");
+  });
+
+  it('should keep the DNS prefix within 54 characters', () => {
+    const spec = createclusterhelper.getManagedClusterSpec({ ...baseOptions, name: "a".repeat(63), preset: createclusterhelper.ClusterPreset.DevTest });
+    expect(spec.dnsPrefix!.length).to.be.at.most(54);
+  });
+});
+
+describe('Test getPatchVersions', () => {
+  it('should list the patch versions, newest first, with the latest patch of the default minor version as default', () => {
+    const versions = createclusterhelper.getPatchVersions([
+      { version: "1.29", isDefault: true, patchVersions: { "1.29.2": {}, "1.29.7": {} } },
+      { version: "1.30", isPreview: true, patchVersions: { "1.30.1": {} } },
+      { version: "1.28", patchVersions: { "1.28.10": {} } }
+    ]);
+    expect(versions).to.deep.equal([
+      { version: "1.30.1", isDefault: false, isPreview: true },
+      { version: "1.29.7", isDefault: true, isPreview: false },
+      { version: "1.29.2", isDefault: false, isPreview: false },
+      { version: "1.28.10", isDefault: false, isPreview: false }
+    ]);
+  });
+});
+
+describe('Test validateClusterName', () => {
+  it('should accept valid names and reject invalid ones', () => {
+    expect(createclusterhelper.validateClusterName("my-cluster_1")).to.be.undefined;
+    expect(createclusterhelper.validateClusterName("-cluster")).to.not.be.undefined;
+    expect(createclusterhelper.validateClusterName("cluster-")).to.not.be.undefined;
+    expect(createclusterhelper.validateClusterName("a".repeat(64))).to.not.be.undefined;
+  });
+});
+
+describe('Test validateResourceGroupName', () => {
+  it('should accept valid names and reject invalid ones', () => {
+    expect(createclusterhelper.validateResourceGroupName("my-rg.(test)_1")).to.be.undefined;
+    expect(createclusterhelper.validateResourceGroupName("my-rg.")).to.not.be.undefined;
+    expect(createclusterhelper.validateResourceGroupName("my rg")).to.not.be.undefined;
+  });
+});
@@ -0,0 +1,91 @@
+import * as detectorexport from '../../commands/utils/detectorexport';
+import { DetectorExportFormat } from '../../commands/utils/detectorexport';
+import { AppLensARMResponse } from '../../commands/utils/detectors';
+import { expect } from 'chai';
+
+const clusterId = "/subscriptions/sub/resourceGroups/rg/providers/Microsoft.ContainerService/managedClusters/cluster1";
+const portalUrl = `https://portal.azure.com/#resource${clusterId}/aksDiagnostics`;
+const timestamp = new Date("2022-06-08T10:15:30.123Z");
+
+function detector(name: string, displayName: string, rows: any[][]): AppLensARMResponse {
+  return {
+    id: `${clusterId}/detectors/${name}`,
+    name,
+    location: "eastus",
+    type: "Microsoft.ContainerService/managedClusters/detectors",
+    properties: {
+      metadata: { name: displayName, description: "" },
+      dataset: [{ table: { rows } }]
+    }
+  };
+}
+
+const category = detector("aks-category-node-health", "Node Health", []);
+const nodeCpu = detector("node-cpu", "Node CPU", [
+  ["Warning", "High CPU usage", "Node", "aks-nodepool1-0"],
+  ["Warning", "High CPU usage", "Recommendation", "Scale | resize\nthe node pool"]
+]);
+const nodeDisk = detector("node-disk", "Node Disk", []);
+
+const categoryExport = {
+  clusterName: "cluster1",
+  portalUrl,
+  timestamp,
+  detector: category,
+  detectors: new Map([["node-cpu", nodeCpu], ["node-disk", nodeDisk]])
+};
+
+describe('Test getExportFileName', () => {
+  it('should name files after the cluster, detector and time', () => {
+    expect(detectorexport.getExportFileName(categoryExport, DetectorExportFormat.Markdown)).to.equal("cluster1-aks-category-node-health-20220608T101530.md");
+    expect(detectorexport.getExportFileName(categoryExport, DetectorExportFormat.Html)).to.equal("cluster1-aks-category-node-health-20220608T101530.html");
+    expect(detectorexport.getExportFileName(categoryExport, DetectorExportFormat.Json)).to.equal("cluster1-aks-category-node-health-20220608T101530.json");
+  });
+});
+
+describe('Test getJsonExport', () => {
+  it('should include the raw responses and export details', () => {
+    const json = JSON.parse(detectorexport.getJsonExport(categoryExport));
+    expect(json.clusterName).to.equal("cluster1");
+    expect(json.detector).to.equal("aks-category-node-health");
+    expect(json.timestamp).to.equal("2022-06-08T10:15:30.123Z");
+    expect(json.portalUrl).to.equal(portalUrl);
+    expect(json.response).to.deep.equal(category);
+    expect(Object.keys(json.detectors)).to.deep.equal(["node-cpu", "node-disk"]);
+    expect(json.detectors["node-cpu"]).to.deep.equal(nodeCpu);
+  });
+});
+
+describe('Test getMarkdownExport', () => {
+  it('should summarize the insights of each detector in a category', () => {
+    expect(detectorexport.getMarkdownExport(categoryExport).split("\n")).to.deep.equal([
+      "# Node Health: cluster1",
+      "",
+      "- **Cluster:** cluster1",
+      "- **Detector:** aks-category-node-health",
+      "- **Time:** 2022-06-08 10:15:30 UTC",
+      `- **AKS Diagnostics:** ${portalUrl}`,
+      "",
+      "## Node CPU",
+      "",
+      "**Warning:** High CPU usage",
+      "",
+      "| | |",
+      "|---|---|",
+      "| Node | aks-nodepool1-0 |",
+      "| Recommendation | Scale \\| resize<br>the node pool |",
+      "",
+      "## Node Disk",
+      "",
+      "No insights.",
+      ""
+    ]);
+  });
+
+  it('should summarize the insights of a detector without sub-detectors', () => {
+    const networkExport = { ...categoryExport, detector: detector("networkconnectivity", "Network Connectivity", [["Success", "Subnet has enough IPs", "", ""]]), detectors: new Map() };
+    const markdown = detectorexport.getMarkdownExport(networkExport);
+    expect(markdown).to.contain("## Network Connectivity\n\n**Success:** Subnet has enough IPs\n");
+    expect(markdown).not.to.contain("|---|");
+  });
+});
@@ -0,0 +1,46 @@
+import * as detectors from '../../commands/utils/detectors';
+import { AppLensARMResponse, InsightStatus } from '../../commands/utils/detectors';
+import { expect } from 'chai';
+
+function detector(name: string, rows: any[][]): AppLensARMResponse {
+  return {
+    id: `/subscriptions/sub/resourceGroups/rg/providers/Microsoft.ContainerService/managedClusters/cluster1/detectors/${name}`,
+    name,
+    location: "eastus",
+    type: "Microsoft.ContainerService/managedClusters/detectors",
+    properties: {
+      metadata: { name: `${name} check`, description: "test" },
+      dataset: [{ table: { rows } }]
+    }
+  };
+}
+
+describe('Test getInsightStatus', () => {
+  it('should recognize statuses case-insensitively', () => {
+    expect(detectors.getInsightStatus("Critical")).to.equal(InsightStatus.Critical);
+    expect(detectors.getInsightStatus("warning")).to.equal(InsightStatus.Warning);
+    expect(detectors.getInsightStatus("Subnet")).to.be.undefined;
+    expect(detectors.getInsightStatus(undefined)).to.be.undefined;
+  });
+});
+
+describe('Test getDetectorInsights', () => {
+  it('should group consecutive rows of the same status and message', () => {
+    const insights = detectors.getDetectorInsights(detector("node-cpu", [
+      ["Warning", "High CPU", "Node", "aks-nodepool1-0"],
+      ["Warning", "High CPU", "Node", "aks-nodepool1-1"],
+      ["Success", "Disk usage is normal", "Description", "No issues."]
+    ]));
+
+    expect(insights).to.deep.equal([
+      { status: InsightStatus.Warning, message: "High CPU", details: [{ key: "Node", value: "aks-nodepool1-0" }, { key: "Node", value: "aks-nodepool1-1" }] },
+      { status: InsightStatus.Success, message: "Disk usage is normal", details: [{ key: "Description", value: "No issues." }] }
+    ]);
+  });
+
+  it('should skip datasets that are not insight tables', () => {
+    const response = detector("networkconnectivity", [["Critical", "Subnet is full", "Subnet", "default"]]);
+    response.properties.dataset.unshift({ renderingProperties: "", table: { rows: [["Network plugin", "azure"]] } }, { type: 7 });
+    expect(detectors.getDetectorInsights(response).map((i) => i.message)).to.deep.equal(["Subnet is full"]);
+  });
+});
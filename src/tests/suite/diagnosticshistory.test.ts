@@ -0,0 +1,138 @@
+import * as diagnosticshistory from '../../commands/utils/diagnosticshistory';
+import { DiagnosticsRun } from '../../commands/utils/diagnosticshistory';
+import { InsightStatus } from '../../commands/utils/detectors';
+import { AppLensARMResponse } from '../../commands/utils/detectors';
+import { expect } from 'chai';
+
+const clusterId = "/subscriptions/sub/resourceGroups/rg/providers/Microsoft.ContainerService/managedClusters/cluster1";
+
+function detector(name: string, rows: any[][]): AppLensARMResponse {
+  return {
+    id: `${clusterId}/detectors/${name}`,
+    name,
+    location: "eastus",
+    type: "Microsoft.ContainerService/managedClusters/detectors",
+    properties: {
+      metadata: { name: `${name} check`, description: "" },
+      dataset: [{ table: { rows } }]
+    }
+  };
+}
+
+function run(detectorName: string, timestamp: number, detectors: AppLensARMResponse[], id = `${detectorName}-${timestamp}`): DiagnosticsRun {
+  return { ...diagnosticshistory.createDiagnosticsRun(clusterId, "cluster1", detector(detectorName, []), detectors, new Date(timestamp)), id };
+}
+
+describe('Test createDiagnosticsRun', () => {
+  it('should record the detectors of a category', () => {
+    const result = diagnosticshistory.createDiagnosticsRun(clusterId, "cluster1", detector("aks-category-node-health", []), [
+      detector("node-cpu", [["Success", "CPU is normal", "k", "v"]]),
+      detector("node-disk", [["Warning", "Disk is almost full", "k", "v"]])
+    ], new Date(1000));
+
+    expect(result.id).to.be.a("string").that.is.not.empty;
+    expect(result.detectorName).to.equal("aks-category-node-health");
+    expect(result.displayName).to.equal("aks-category-node-health check");
+    expect(result.timestamp).to.equal(1000);
+    expect(result.status).to.equal(InsightStatus.Warning);
+    expect(result.detectors.map((d) => d.name)).to.deep.equal(["node-cpu check", "node-disk check"]);
+  });
+
+  it('should record a detector without sub-detectors itself', () => {
+    const network = detector("networkconnectivity", [["Critical", "Subnet is full", "k", "v"]]);
+    const result = diagnosticshistory.createDiagnosticsRun(clusterId, "cluster1", network, [], new Date(1000));
+    expect(result.status).to.equal(InsightStatus.Critical);
+    expect(result.detectors.map((d) => d.name)).to.deep.equal(["networkconnectivity check"]);
+  });
+});
+
+describe('Test addDiagnosticsRun', () => {
+  it('should keep the newest runs first and drop the oldest', () => {
+    const runs = Array.from({ length: diagnosticshistory.maxRunsPerDetector }, (_, i) => run("crud", (i + 1) * 1000, []));
+    const result = diagnosticshistory.addDiagnosticsRun(runs.reverse(), run("crud", 100000, []));
+
+    expect(result).to.have.lengthOf(diagnosticshistory.maxRunsPerDetector);
+    expect(result[0].timestamp).to.equal(100000);
+    expect(result[result.length - 1].timestamp).to.equal(2000);
+  });
+});
+
+describe('Test sortDiagnosticsRuns', () => {
+  it('should order the runs by diagnostics and time', () => {
+    const result = diagnosticshistory.sortDiagnosticsRuns([run("node", 1000, []), run("crud", 2000, []), run("node", 3000, [])]);
+    expect(result.map((r) => r.id)).to.deep.equal(["crud-2000", "node-3000", "node-1000"]);
+  });
+});
+
+describe('Test getClusterHistoryDirName', () => {
+  it('should name the directory of a cluster regardless of the case of its ID', () => {
+    const dirName = diagnosticshistory.getClusterHistoryDirName(clusterId);
+    expect(dirName).to.match(/^[0-9a-f]{64}$/);
+    expect(diagnosticshistory.getClusterHistoryDirName(clusterId.toUpperCase())).to.equal(dirName);
+    expect(diagnosticshistory.getClusterHistoryDirName(clusterId.replace("cluster1", "cluster2"))).to.not.equal(dirName);
+  });
+});
+
+describe('Test getDetectorHistoryFileName', () => {
+  it('should replace characters that are not safe in file names', () => {
+    expect(diagnosticshistory.getDetectorHistoryFileName("aks-category-crud")).to.equal("aks-category-crud.json");
+    expect(diagnosticshistory.getDetectorHistoryFileName("../detector name")).to.equal("..-detector-name.json");
+  });
+});
+
+describe('Test isHistoryExpired', () => {
+  it('should expire the history of clusters that have not been diagnosed recently', () => {
+    const day = 24 * 60 * 60 * 1000;
+    const now = 1000 * day;
+    expect(diagnosticshistory.isHistoryExpired(now - 10 * day, now)).to.be.false;
+    expect(diagnosticshistory.isHistoryExpired(now - (diagnosticshistory.maxHistoryAgeDays + 1) * day, now)).to.be.true;
+  });
+});
+
+describe('Test compareDiagnosticsRuns', () => {
+  it('should list detectors whose status or insights changed', () => {
+    const previous = run("node", 1000, [
+      detector("node-ready", [["Success", "All nodes are ready", "k", "v"]]),
+      detector("node-cpu", [["Success", "CPU is normal", "k", "v"]]),
+      detector("node-disk", [["Warning", "Disk is almost full", "k", "v"]]),
+      detector("node-removed", [["Info", "Versions", "k", "v"]])
+    ]);
+    const current = run("node", 2000, [
+      detector("node-ready", [["Critical", "Node aks-nodepool1-0 is not ready", "k", "v"]]),
+      detector("node-cpu", [["Success", "CPU is normal", "k", "other value"]]),
+      detector("node-disk", [["Warning", "Disk is full on 2 nodes", "k", "v"]]),
+      detector("node-added", [["Success", "Memory is normal", "k", "v"]])
+    ]);
+
+    expect(diagnosticshistory.compareDiagnosticsRuns(previous, current)).to.deep.equal([
+      {
+        name: "node-ready check",
+        previousStatus: InsightStatus.Success,
+        currentStatus: InsightStatus.Critical,
+        previousInsights: ["Success: All nodes are ready"],
+        currentInsights: ["Critical: Node aks-nodepool1-0 is not ready"]
+      },
+      {
+        name: "node-disk check",
+        previousStatus: InsightStatus.Warning,
+        currentStatus: InsightStatus.Warning,
+        previousInsights: ["Warning: Disk is almost full"],
+        currentInsights: ["Warning: Disk is full on 2 nodes"]
+      },
+      {
+        name: "node-added check",
+        previousStatus: undefined,
+        currentStatus: InsightStatus.Success,
+        previousInsights: [],
+        currentInsights: ["Success: Memory is normal"]
+      },
+      {
+        name: "node-removed check",
+        previousStatus: InsightStatus.Info,
+        currentStatus: undefined,
+        previousInsights: ["Info: Versions"],
+        currentInsights: []
+      }
+    ]);
+  });
+});
@@ -0,0 +1,101 @@
+import * as kubeconfighelper from '../../commands/aksKubeconfig/helpers/kubeconfighelper';
+import { expect } from 'chai';
+
+function clusterKubeconfig(server: string, token: string): kubeconfighelper.Kubeconfig {
+  return {
+    apiVersion: "v1",
+    kind: "Config",
+    clusters: [{ name: "mycluster", cluster: { server } }],
+    users: [{ name: "clusterUser_rg_mycluster", user: { token } }],
+    contexts: [{ name: "mycluster", context: { cluster: "mycluster", user: "clusterUser_rg_mycluster" } }],
+    'current-context': "mycluster"
+  };
+}
+
+const existingKubeconfig: kubeconfighelper.Kubeconfig = {
+  apiVersion: "v1",
+  kind: "Config",
+  clusters: [{ name: "other", cluster: { server: "https://other.example.com:443" } }],
+  users: [{ name: "otheruser", user: { token: "abc" } }],
+  contexts: [{ name: "other", context: { cluster: "other", user: "otheruser" } }],
+  'current-context': "other"
+};
+
+describe('Test parseKubeconfig', () => {
+  it('should treat an empty file as an empty kubeconfig', () => {
+    const result = kubeconfighelper.parseKubeconfig("");
+    expect(result.succeeded).to.be.true;
+    if (result.succeeded) {
+      expect(result.result.contexts).to.be.empty;
+      expect(result.result.kind).to.equal("Config");
+    }
+  });
+
+  it('should fail for invalid YAML', () => {
+    expect(kubeconfighelper.parseKubeconfig("clusters: [").succeeded).to.be.false;
+  });
+});
+
+describe('Test mergeKubeconfig', () => {
+  it('should add new entries and keep the current context', () => {
+    const incoming = clusterKubeconfig("https://mycluster.hcp.eastus.azmk8s.io:443", "t1");
+    const result = kubeconfighelper.mergeKubeconfig(existingKubeconfig, incoming, kubeconfighelper.ConflictResolution.Rename);
+    expect(result.contextNames).to.deep.equal(["mycluster"]);
+    expect(result.kubeconfig.contexts.map((c) => c.name)).to.deep.equal(["other", "mycluster"]);
+    expect(result.kubeconfig['current-context']).to.equal("other");
+  });
+
+  it('should not report or duplicate identical entries', () => {
+    const incoming = clusterKubeconfig("https://mycluster.hcp.eastus.azmk8s.io:443", "t1");
+    const existing = kubeconfighelper.mergeKubeconfig(existingKubeconfig, incoming, kubeconfighelper.ConflictResolution.Rename).kubeconfig;
+    expect(kubeconfighelper.getConflicts(existing, incoming)).to.be.empty;
+    expect(kubeconfighelper.mergeKubeconfig(existing, incoming, kubeconfighelper.ConflictResolution.Rename).kubeconfig.contexts).to.have.length(2);
+  });
+
+  it('should rename conflicting entries and the references to them', () => {
+    const existing = kubeconfighelper.mergeKubeconfig(existingKubeconfig, clusterKubeconfig("https://a.azmk8s.io:443", "t1"), kubeconfighelper.ConflictResolution.Rename).kubeconfig;
+    const incoming = clusterKubeconfig("https://b.azmk8s.io:443", "t2");
+    expect(kubeconfighelper.getConflicts(existing, incoming)).to.deep.equal(["mycluster", "clusterUser_rg_mycluster"]);
+
+    const result = kubeconfighelper.mergeKubeconfig(existing, incoming, kubeconfighelper.ConflictResolution.Rename);
+    expect(result.contextNames).to.deep.equal(["mycluster-1"]);
+    const context = result.kubeconfig.contexts.find((c) => c.name === "mycluster-1")!;
+    expect(context.context.cluster).to.equal("mycluster-1");
+    expect(context.context.user).to.equal("clusterUser_rg_mycluster-1");
+  });
+
+  it('should overwrite conflicting entries when asked to', () => {
+    const existing = kubeconfighelper.mergeKubeconfig(existingKubeconfig, clusterKubeconfig("https://a.azmk8s.io:443", "t1"), kubeconfighelper.ConflictResolution.Rename).kubeconfig;
+    const result = kubeconfighelper.mergeKubeconfig(existing, clusterKubeconfig("https://b.azmk8s.io:443", "t2"), kubeconfighelper.ConflictResolution.Overwrite);
+    expect(result.contextNames).to.deep.equal(["mycluster"]);
+    expect(result.kubeconfig.clusters).to.have.length(2);
+    expect(result.kubeconfig.clusters[1].cluster.server).to.equal("https://b.azmk8s.io:443");
+  });
+});
+
+describe('Test removeContexts', () => {
+  it('should remove the cluster entries found by server host name', () => {
+    const merged = kubeconfighelper.mergeKubeconfig(existingKubeconfig, clusterKubeconfig("https://MyCluster.hcp.eastus.azmk8s.io:443", "t1"), kubeconfighelper.ConflictResolution.Rename).kubeconfig;
+    merged['current-context'] = "mycluster";
+
+    const contextNames = kubeconfighelper.findContextsForServer(merged, ["mycluster.hcp.eastus.azmk8s.io"]);
+    expect(contextNames).to.deep.equal(["mycluster"]);
+
+    const result = kubeconfighelper.removeContexts(merged, contextNames);
+    expect(result.contexts.map((c) => c.name)).to.deep.equal(["other"]);
+    expect(result.clusters.map((c) => c.name)).to.deep.equal(["other"]);
+    expect(result.users.map((u) => u.name)).to.deep.equal(["otheruser"]);
+    expect(result['current-context']).to.be.undefined;
+  });
+
+  it('should keep entries still used by other contexts', () => {
+    const kubeconfig: kubeconfighelper.Kubeconfig = {
+      ...existingKubeconfig,
+      contexts: [...existingKubeconfig.contexts, { name: "other-ns", context: { cluster: "other", user: "otheruser", namespace: "ns" } }]
+    };
+
+    const result = kubeconfighelper.removeContexts(kubeconfig, ["other"]);
+    expect(result.clusters).to.have.length(1);
+    expect(result.users).to.have.length(1);
+  });
+});
@@ -0,0 +1,85 @@
+import * as kubelogin from '../../commands/utils/kubelogin';
+import * as yaml from 'js-yaml';
+import { expect } from 'chai';
+
+const execKubeconfig = `
+apiVersion: v1
+kind: Config
+clusters:
+- name: mycluster
+  cluster:
+    server: https://mycluster.hcp.eastus.azmk8s.io:443
+users:
+- name: clusterUser_rg_mycluster
+  user:
+    exec:
+      apiVersion: client.authentication.k8s.io/v1beta1
+      command: kubelogin
+      args:
+      - get-token
+      - --environment
+      - AzurePublicCloud
+      - --server-id
+      - server-app-id
+      - --client-id
+      - client-app-id
+      - --tenant-id
+      - tenant-id
+      - --login
+      - devicecode
+contexts:
+- name: mycluster
+  context:
+    cluster: mycluster
+    user: clusterUser_rg_mycluster
+`;
+
+const authProviderUser = {
+  "auth-provider": {
+    name: "azure",
+    config: { "apiserver-id": "server-app-id", "client-id": "client-app-id", "tenant-id": "tenant-id", environment: "AzurePublicCloud" }
+  }
+};
+
+const getToken: kubelogin.AadTokenProvider = async (serverId) => ({ succeeded: true, result: `token-for-${serverId}` });
+
+async function convertUser(mode: kubelogin.AadAuthenticationMode, servicePrincipalClientId = ""): Promise<any> {
+  const result = await kubelogin.convertAadKubeconfig(execKubeconfig, { mode, servicePrincipalClientId }, getToken);
+  expect(result.succeeded).to.be.true;
+  return result.succeeded ? (yaml.safeLoad(result.result) as any).users[0].user : undefined;
+}
+
+describe('Test getAadServerInfo', () => {
+  it('should read the server details from kubelogin and auth-provider users', () => {
+    const execUser = (yaml.safeLoad(execKubeconfig) as any).users[0].user;
+    expect(kubelogin.getAadServerInfo(execUser)).to.deep.equal({ serverId: "server-app-id", tenantId: "tenant-id", environment: "AzurePublicCloud" });
+    expect(kubelogin.getAadServerInfo(authProviderUser)).to.deep.equal({ serverId: "server-app-id", tenantId: "tenant-id", environment: "AzurePublicCloud" });
+  });
+
+  it('should ignore users that do not use Azure AD', () => {
+    expect(kubelogin.getAadServerInfo({ token: "abc" })).to.be.undefined;
+  });
+});
+
+describe('Test convertAadKubeconfig', () => {
+  it('should use a VS Code account token', async () => {
+    const user = await convertUser(kubelogin.AadAuthenticationMode.VSCodeAccount);
+    expect(user).to.deep.equal({ token: "token-for-server-app-id" });
+  });
+
+  it('should use kubelogin with the Azure CLI login', async () => {
+    const user = await convertUser(kubelogin.AadAuthenticationMode.AzureCli);
+    expect(user.exec.args).to.deep.equal(["get-token", "--login", "azurecli", "--server-id", "server-app-id"]);
+  });
+
+  it('should use kubelogin with a service principal', async () => {
+    const user = await convertUser(kubelogin.AadAuthenticationMode.ServicePrincipal, "spn-id");
+    expect(user.exec.args).to.include.members(["spn", "spn-id", "tenant-id"]);
+    expect(user.exec.args).to.not.include("devicecode");
+  });
+
+  it('should fail for service principal mode without a client ID', async () => {
+    const result = await kubelogin.convertAadKubeconfig(execKubeconfig, { mode: kubelogin.AadAuthenticationMode.ServicePrincipal, servicePrincipalClientId: "" }, getToken);
+    expect(result.succeeded).to.be.false;
+  });
+});
@@ -0,0 +1,98 @@
+import * as maintenancehelper from '../../commands/aksMaintenanceWindows/helpers/maintenancehelper';
+import { expect } from 'chai';
+
+// Wednesday 2023-05-03 10:30 UTC.
+const now = new Date(Date.UTC(2023, 4, 3, 10, 30));
+
+function weeklyWindow(overrides: Partial<maintenancehelper.MaintenanceWindow> = {}): maintenancehelper.MaintenanceConfigurationProperties {
+  return {
+    maintenanceWindow: {
+      schedule: { weekly: { intervalWeeks: 1, dayOfWeek: "Sunday" } },
+      durationHours: 4,
+      startTime: "01:00",
+      utcOffset: "+00:00",
+      ...overrides
+    }
+  };
+}
+
+describe('Test validateMaintenanceConfiguration', () => {
+  it('should accept the sample configurations', () => {
+    for (const name of maintenancehelper.maintenanceConfigurationNames) {
+      expect(maintenancehelper.validateMaintenanceConfiguration(name, maintenancehelper.getSampleMaintenanceConfiguration(name))).to.be.undefined;
+    }
+  });
+
+  it('should reject invalid default configurations', () => {
+    const name = maintenancehelper.MaintenanceConfigurationName.Default;
+    expect(maintenancehelper.validateMaintenanceConfiguration(name, { timeInWeek: [] })).to.not.be.undefined;
+    expect(maintenancehelper.validateMaintenanceConfiguration(name, { timeInWeek: [{ day: "Someday", hourSlots: [1] }] })).to.not.be.undefined;
+    expect(maintenancehelper.validateMaintenanceConfiguration(name, { timeInWeek: [{ day: "Monday", hourSlots: [24] }] })).to.not.be.undefined;
+    expect(maintenancehelper.validateMaintenanceConfiguration(name, weeklyWindow())).to.not.be.undefined;
+  });
+
+  it('should reject invalid maintenance windows', () => {
+    const name = maintenancehelper.MaintenanceConfigurationName.AutoUpgrade;
+    expect(maintenancehelper.validateMaintenanceConfiguration(name, weeklyWindow({ durationHours: 3 }))).to.not.be.undefined;
+    expect(maintenancehelper.validateMaintenanceConfiguration(name, weeklyWindow({ startTime: "1:00" }))).to.not.be.undefined;
+    expect(maintenancehelper.validateMaintenanceConfiguration(name, weeklyWindow({ utcOffset: "05:30" }))).to.not.be.undefined;
+    expect(maintenancehelper.validateMaintenanceConfiguration(name, weeklyWindow({ schedule: {} }))).to.not.be.undefined;
+    expect(maintenancehelper.validateMaintenanceConfiguration(name, weeklyWindow({ schedule: { weekly: undefined, monthly: { intervalMonths: 1 } } as any }))).to.not.be.undefined;
+    expect(maintenancehelper.validateMaintenanceConfiguration(name, weeklyWindow({ notAllowedDates: [{ start: "2023-06-02", end: "2023-06-01" }] }))).to.not.be.undefined;
+    expect(maintenancehelper.validateMaintenanceConfiguration(name, { timeInWeek: [{ day: "Monday", hourSlots: [1] }] })).to.not.be.undefined;
+  });
+});
+
+describe('Test describeMaintenanceConfiguration', () => {
+  it('should describe weekly hour slots as time ranges', () => {
+    const lines = maintenancehelper.describeMaintenanceConfiguration({ timeInWeek: [{ day: "Monday", hourSlots: [4, 1, 2, 7] }] });
+    expect(lines).to.deep.equal(["Every Monday, 01:00-03:00, 04:00-05:00, 07:00-08:00 UTC"]);
+  });
+
+  it('should describe maintenance windows', () => {
+    const lines = maintenancehelper.describeMaintenanceConfiguration(weeklyWindow({
+      schedule: { relativeMonthly: { intervalMonths: 2, weekIndex: "Last", dayOfWeek: "Friday" } },
+      utcOffset: "+05:30"
+    }));
+    expect(lines[0]).to.equal("Every 2 months on the last Friday at 01:00 (UTC+05:30) for 4 hours");
+  });
+});
+
+describe('Test getNextOccurrences', () => {
+  it('should find the next weekly slot windows', () => {
+    const occurrences = maintenancehelper.getNextOccurrences({ timeInWeek: [{ day: "Thursday", hourSlots: [1, 2] }] }, now, 2);
+    expect(occurrences.map((o) => o.start.toISOString())).to.deep.equal(["2023-05-04T01:00:00.000Z", "2023-05-11T01:00:00.000Z"]);
+    expect(occurrences[0].end.toISOString()).to.equal("2023-05-04T03:00:00.000Z");
+  });
+
+  it('should skip weekly slots in not allowed time', () => {
+    const occurrences = maintenancehelper.getNextOccurrences({
+      timeInWeek: [{ day: "Thursday", hourSlots: [1] }],
+      notAllowedTime: [{ start: "2023-05-04T00:00:00Z", end: "2023-05-05T00:00:00Z" }]
+    }, now, 1);
+    expect(occurrences[0].start.toISOString()).to.equal("2023-05-11T01:00:00.000Z");
+  });
+
+  it('should apply the UTC offset and interval of weekly windows', () => {
+    const occurrences = maintenancehelper.getNextOccurrences(weeklyWindow({ utcOffset: "+02:00", schedule: { weekly: { intervalWeeks: 2, dayOfWeek: "Sunday" } } }), now, 2);
+    expect(occurrences.map((o) => o.start.toISOString())).to.deep.equal(["2023-05-06T23:00:00.000Z", "2023-05-20T23:00:00.000Z"]);
+  });
+
+  it('should skip months without the day for absolute monthly windows', () => {
+    const occurrences = maintenancehelper.getNextOccurrences(weeklyWindow({ schedule: { absoluteMonthly: { intervalMonths: 1, dayOfMonth: 31 } } }), now, 2);
+    expect(occurrences.map((o) => o.start.toISOString())).to.deep.equal(["2023-05-31T01:00:00.000Z", "2023-07-31T01:00:00.000Z"]);
+  });
+
+  it('should find relative monthly windows and skip not allowed dates', () => {
+    const occurrences = maintenancehelper.getNextOccurrences(weeklyWindow({
+      schedule: { relativeMonthly: { intervalMonths: 1, weekIndex: "Last", dayOfWeek: "Friday" } },
+      notAllowedDates: [{ start: "2023-05-20", end: "2023-05-31" }]
+    }), now, 2);
+    expect(occurrences.map((o) => o.start.toISOString())).to.deep.equal(["2023-06-30T01:00:00.000Z", "2023-07-28T01:00:00.000Z"]);
+  });
+
+  it('should honour the start date of daily windows', () => {
+    const occurrences = maintenancehelper.getNextOccurrences(weeklyWindow({ schedule: { daily: { intervalDays: 3 } }, startDate: "2023-05-10" }), now, 2);
+    expect(occurrences.map((o) => o.start.toISOString())).to.deep.equal(["2023-05-10T01:00:00.000Z", "2023-05-13T01:00:00.000Z"]);
+  });
+});
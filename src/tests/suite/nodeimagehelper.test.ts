@@ -0,0 +1,45 @@
+import * as nodeimagehelper from '../../commands/aksUpgradeNodeImage/helpers/nodeimagehelper';
+import { expect } from 'chai';
+
+describe('Test getNodeImageStatus', () => {
+  it('should compare the current and latest node image versions', () => {
+    const status = nodeimagehelper.getNodeImageStatus(
+      { name: "nodepool1", nodeImageVersion: "AKSUbuntu-1804gen2containerd-2022.05.10" },
+      { kubernetesVersion: "1.23.5", osType: "Linux", upgrades: [], latestNodeImageVersion: "AKSUbuntu-1804gen2containerd-2022.06.08" });
+
+    expect(status).to.deep.equal({
+      agentPoolName: "nodepool1",
+      currentVersion: "AKSUbuntu-1804gen2containerd-2022.05.10",
+      latestVersion: "AKSUbuntu-1804gen2containerd-2022.06.08",
+      isUpToDate: false
+    });
+  });
+
+  it('should treat a node pool without a newer image as up to date', () => {
+    const current = nodeimagehelper.getNodeImageStatus(
+      { name: "nodepool1", nodeImageVersion: "AKSUbuntu-1804gen2containerd-2022.06.08" },
+      { kubernetesVersion: "1.23.5", osType: "Linux", upgrades: [], latestNodeImageVersion: "AKSUbuntu-1804gen2containerd-2022.06.08" });
+    const unknownLatest = nodeimagehelper.getNodeImageStatus(
+      { name: "nodepool2", nodeImageVersion: "AKSWindows-2019-17763.2928.220505" },
+      { kubernetesVersion: "1.23.5", osType: "Windows", upgrades: [] });
+
+    expect(current.isUpToDate).to.be.true;
+    expect(unknownLatest.isUpToDate).to.be.true;
+    expect(unknownLatest.latestVersion).to.equal("AKSWindows-2019-17763.2928.220505");
+  });
+});
+
+describe('Test summarizeNodeImageUpgrades', () => {
+  it('should count the upgraded node pools and list each result', () => {
+    const summary = nodeimagehelper.summarizeNodeImageUpgrades("cluster1", [
+      { agentPoolName: "nodepool1", targetVersion: "v2" },
+      { agentPoolName: "nodepool2", targetVersion: "v3", error: "Operation failed." }
+    ]);
+
+    expect(summary.split("\n")).to.deep.equal([
+      "Node image upgrade of cluster1: 1 of 2 node pools upgraded.",
+      "nodepool1: upgraded to v2.",
+      "nodepool2: failed: Operation failed."
+    ]);
+  });
+});
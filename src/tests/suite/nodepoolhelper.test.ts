@@ -0,0 +1,47 @@
+import * as nodepoolhelper from '../../commands/aksNodePools/helpers/nodepoolhelper';
+import { expect } from 'chai';
+
+describe('Test validateNodePoolName', () => {
+  it('should accept lowercase alphanumeric names within the length limit', () => {
+    expect(nodepoolhelper.validateNodePoolName("userpool1", "Linux")).to.be.undefined;
+    expect(nodepoolhelper.validateNodePoolName("win1", "Windows")).to.be.undefined;
+  });
+
+  it('should reject names with invalid characters', () => {
+    expect(nodepoolhelper.validateNodePoolName("User-Pool", "Linux")).to.not.be.undefined;
+    expect(nodepoolhelper.validateNodePoolName("1pool", "Linux")).to.not.be.undefined;
+  });
+
+  it('should apply the shorter limit to Windows node pools', () => {
+    expect(nodepoolhelper.validateNodePoolName("linuxpool123", "Linux")).to.be.undefined;
+    expect(nodepoolhelper.validateNodePoolName("winpool", "Windows")).to.not.be.undefined;
+  });
+});
+
+describe('Test validateNodeCount', () => {
+  it('should allow empty user node pools but not system node pools', () => {
+    expect(nodepoolhelper.validateNodeCount("0", "User")).to.be.undefined;
+    expect(nodepoolhelper.validateNodeCount("0", "System")).to.not.be.undefined;
+  });
+
+  it('should reject values that are not whole numbers in range', () => {
+    ["", "abc", "1.5", "-1", "1001"].forEach((value) => {
+      expect(nodepoolhelper.validateNodeCount(value, "User"), `value ${value}`).to.not.be.undefined;
+    });
+  });
+});
+
+describe('Test validateAutoscalerSettings', () => {
+  it('should reject a minimum count above the maximum count', () => {
+    expect(nodepoolhelper.validateAutoscalerSettings({ minCount: 3, maxCount: 5 }, "User")).to.be.undefined;
+    expect(nodepoolhelper.validateAutoscalerSettings({ minCount: 5, maxCount: 3 }, "User")).to.not.be.undefined;
+  });
+});
+
+describe('Test validateManualScaling', () => {
+  it('should reject node pools managed by the cluster autoscaler', () => {
+    expect(nodepoolhelper.validateManualScaling({ name: "nodepool1", enableAutoScaling: false })).to.be.undefined;
+    expect(nodepoolhelper.validateManualScaling({ name: "nodepool1" })).to.be.undefined;
+    expect(nodepoolhelper.validateManualScaling({ name: "nodepool1", enableAutoScaling: true, minCount: 1, maxCount: 3 })).to.contain("autoscaler");
+  });
+});
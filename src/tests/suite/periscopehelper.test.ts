@@ -0,0 +1,65 @@
+import * as periscopehelper from '../../commands/periscope/helpers/periscopehelper';
+import { ClusterFeatures } from '../../commands/periscope/models/clusterFeatures';
+import { KustomizeConfig } from '../../commands/periscope/models/kustomizeConfig';
+import * as clouds from '../../commands/utils/clouds';
+import { Succeeded, succeeded } from '../../commands/utils/errorable';
+import { Environment } from '@azure/ms-rest-azure-env';
+import { ISubscriptionContext } from '@microsoft/vscode-azext-utils';
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as path from 'path';
+
+const storage = {
+  containerName: "cluster1-dns",
+  storageName: "mystorage",
+  storageKey: "key",
+  storageDeploymentSas: "?sv=2020&sig=deployment",
+  sevenDaysSasKey: "?sv=2020&sig=shareable"
+};
+
+async function getKustomization(config: KustomizeConfig, features: ClusterFeatures, runId: string): Promise<string> {
+  const overlayDir = await periscopehelper.prepareAKSPeriscopeKustomizeOverlay(storage, config, features, runId);
+  expect(succeeded(overlayDir)).to.be.true;
+  return fs.readFileSync(path.join((overlayDir as Succeeded<string>).result, "kustomization.yaml"), "utf8");
+}
+
+const kustomizeConfig = { repoOrg: "Azure", containerRegistry: "mcr.microsoft.com", releaseTag: "0.0.10", imageVersion: "0.0.10" };
+
+function environmentOf(environment: Environment): clouds.CloudEnvironment {
+  return clouds.getCloudEnvironment({ environment } as ISubscriptionContext);
+}
+
+describe('Test isPeriscopeSupported', () => {
+  it('should only support the Azure public cloud', () => {
+    expect(periscopehelper.isPeriscopeSupported(environmentOf(Environment.AzureCloud))).to.be.true;
+    expect(periscopehelper.isPeriscopeSupported(environmentOf(Environment.ChinaCloud))).to.be.false;
+    expect(periscopehelper.isPeriscopeSupported(environmentOf(Environment.USGovernment))).to.be.false;
+  });
+});
+
+describe('Test prepareAKSPeriscopeKustomizeOverlay', () => {
+  it('should generate a kustomization for the release with the storage secret and run ID', async () => {
+    const kustomization = await getKustomization(kustomizeConfig, ClusterFeatures.None, "2022-06-08T10-15-30Z");
+    expect(kustomization).to.contain("- https://github.com/Azure/aks-periscope//deployment/base?ref=0.0.10\n");
+    expect(kustomization).to.contain("  newName: mcr.microsoft.com/aks/periscope\n  newTag: \"0.0.10\"\n");
+    expect(kustomization).to.contain([
+      "- name: azureblob-secret",
+      "  behavior: replace",
+      "  literals:",
+      "  - AZURE_BLOB_ACCOUNT_NAME=mystorage",
+      "  - AZURE_BLOB_SAS_KEY=?sv=2020&sig=deployment",
+      "  - AZURE_BLOB_CONTAINER_NAME=cluster1-dns",
+      ""
+    ].join("\n"));
+    expect(kustomization).to.contain("  - DIAGNOSTIC_RUN_ID=2022-06-08T10-15-30Z\n");
+    expect(kustomization).not.to.contain("win-hpc");
+  });
+
+  it('should include the Windows HPC component from Periscope 0.0.10', async () => {
+    const kustomization = await getKustomization(kustomizeConfig, ClusterFeatures.WindowsHpc, "run");
+    expect(kustomization).to.contain("- https://github.com/Azure/aks-periscope//deployment/components/win-hpc?ref=0.0.10\n");
+
+    const olderKustomization = await getKustomization({ ...kustomizeConfig, releaseTag: "0.0.9", imageVersion: "0.0.9" }, ClusterFeatures.WindowsHpc, "run");
+    expect(olderKustomization).not.to.contain("win-hpc");
+  });
+});
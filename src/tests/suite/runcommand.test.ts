@@ -0,0 +1,54 @@
+import * as runcommand from '../../commands/utils/runcommand';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { expect } from 'chai';
+
+describe('Test prepareRunCommand', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "runcommand-test-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should run kubectl without files when there are no attachments', () => {
+    const payload = runcommand.prepareRunCommand("get pods --all-namespaces", []);
+    expect(payload).to.deep.equal({ command: "kubectl get pods --all-namespaces", files: [] });
+  });
+
+  it('should refer to attached files relative to the working directory', () => {
+    const manifest = path.join(tempDir, "settings.yaml");
+    fs.writeFileSync(manifest, "kind: ConfigMap");
+
+    const payload = runcommand.prepareRunCommand(`apply -f ${manifest}`, [manifest]);
+    expect(payload.command).to.equal("kubectl apply -f settings.yaml");
+    expect(payload.files.map((f) => ({ name: f.name, content: f.content.toString() }))).to.deep.equal([{ name: "settings.yaml", content: "kind: ConfigMap" }]);
+  });
+
+  it('should attach directories recursively', () => {
+    const overlay = path.join(tempDir, "overlay");
+    fs.mkdirSync(path.join(overlay, "patches"), { recursive: true });
+    fs.writeFileSync(path.join(overlay, "kustomization.yaml"), "resources: []");
+    fs.writeFileSync(path.join(overlay, "patches", "patch.yaml"), "{}");
+
+    const payload = runcommand.prepareRunCommand(`apply -k ${overlay}`, [overlay]);
+    expect(payload.command).to.equal("kubectl apply -k overlay");
+    expect(payload.files.map((f) => f.name).sort()).to.deep.equal(["overlay/kustomization.yaml", "overlay/patches/patch.yaml"]);
+  });
+
+  it('should keep attachments with the same name apart', () => {
+    const first = path.join(tempDir, "a", "x.yaml");
+    const second = path.join(tempDir, "b", "x.yaml");
+    fs.mkdirSync(path.dirname(first));
+    fs.mkdirSync(path.dirname(second));
+    fs.writeFileSync(first, "1");
+    fs.writeFileSync(second, "2");
+
+    const payload = runcommand.prepareRunCommand(`apply -f ${first} -f ${second}`, [first, second]);
+    expect(payload.command).to.equal("kubectl apply -f x.yaml -f 1-x.yaml");
+  });
+});
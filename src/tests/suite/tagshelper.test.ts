@@ -0,0 +1,45 @@
+import * as tagshelper from '../../commands/aksEditTags/helpers/tagshelper';
+import { expect } from 'chai';
+
+describe('Test validateTags', () => {
+  it('should accept valid tags', () => {
+    expect(tagshelper.validateTags({})).to.be.undefined;
+    expect(tagshelper.validateTags({ "cost-center": "1234", owner: "team@contoso.com", empty: "" })).to.be.undefined;
+    expect(tagshelper.validateTags({ "azure-devops-project": "aks", "Microsoft.Owner": "team" })).to.be.undefined;
+  });
+
+  it('should reject values that are not tag objects', () => {
+    expect(tagshelper.validateTags(null)).to.not.be.undefined;
+    expect(tagshelper.validateTags(["owner"])).to.not.be.undefined;
+    expect(tagshelper.validateTags({ count: 3 })).to.not.be.undefined;
+  });
+
+  it('should reject more than 50 tags', () => {
+    const tags: tagshelper.Tags = {};
+    for (let i = 0; i < 51; i++) {
+      tags[`tag${i}`] = "value";
+    }
+
+    expect(tagshelper.validateTags(tags)).to.contain("at most 50 tags");
+  });
+
+  it('should reject invalid tag names', () => {
+    expect(tagshelper.validateTags({ "": "value" })).to.not.be.undefined;
+    expect(tagshelper.validateTags({ ["a".repeat(513)]: "value" })).to.not.be.undefined;
+    expect(tagshelper.validateTags({ "team/owner": "value" })).to.contain("'/'");
+    expect(tagshelper.validateTags({ Owner: "a", owner: "b" })).to.contain("more than once");
+  });
+
+  it('should reject values longer than 256 characters', () => {
+    expect(tagshelper.validateTags({ owner: "a".repeat(256) })).to.be.undefined;
+    expect(tagshelper.validateTags({ owner: "a".repeat(257) })).to.not.be.undefined;
+  });
+});
+
+describe('Test parseTags', () => {
+  it('should parse and validate JSON tags', () => {
+    expect(tagshelper.parseTags('{ "owner": "me" }')).to.deep.equal({ succeeded: true, result: { owner: "me" } });
+    expect(tagshelper.parseTags('{ "owner": ').succeeded).to.be.false;
+    expect(tagshelper.parseTags('{ "a<b": "c" }').succeeded).to.be.false;
+  });
+});
@@ -0,0 +1,77 @@
+import * as templatehelper from '../../commands/aksExportTemplate/helpers/templatehelper';
+import { ClusterARMResponse } from '../../commands/utils/clusters';
+import { ContainerServiceClient } from '@azure/arm-containerservice';
+import { expect } from 'chai';
+
+const cluster: ClusterARMResponse = {
+  id: "/subscriptions/s/resourceGroups/rg/providers/Microsoft.ContainerService/managedClusters/mycluster",
+  name: "mycluster",
+  location: "westeurope",
+  type: "Microsoft.ContainerService/ManagedClusters",
+  tags: { "cost-center": "it's mine" },
+  sku: { name: "Base", tier: "Free" },
+  identity: { type: "SystemAssigned", principalId: "p", tenantId: "t" },
+  properties: {
+    provisioningState: "Succeeded",
+    powerState: { code: "Running" },
+    kubernetesVersion: "1.26.3",
+    currentKubernetesVersion: "1.26.3",
+    dnsPrefix: "mycluster-dns",
+    fqdn: "mycluster-dns.hcp.westeurope.azmk8s.io",
+    agentPoolProfiles: [{
+      name: "nodepool1",
+      count: 3,
+      vmSize: "Standard_DS2_v2",
+      mode: "System",
+      eTag: "e",
+      provisioningState: "Succeeded",
+      powerState: { code: "Running" },
+      nodeImageVersion: "AKSUbuntu-2204gen2containerd-2023.05.10"
+    }],
+    servicePrincipalProfile: { clientId: "msi" },
+    addonProfiles: { omsagent: { enabled: true, config: { logAnalyticsWorkspaceResourceID: "/w" }, identity: { clientId: "c" } } },
+    identityProfile: { kubeletidentity: { clientId: "k" } }
+  }
+};
+
+describe('Test getClusterTemplateResource', () => {
+  it('should remove read-only cluster and agent pool properties', () => {
+    const resource = templatehelper.getClusterTemplateResource(cluster);
+    expect(resource.type).to.equal("Microsoft.ContainerService/managedClusters");
+    expect(resource.properties).to.not.have.any.keys("provisioningState", "powerState", "currentKubernetesVersion", "fqdn", "servicePrincipalProfile", "identityProfile");
+    expect(resource.properties.agentPoolProfiles[0]).to.deep.equal({ name: "nodepool1", count: 3, vmSize: "Standard_DS2_v2", mode: "System" });
+    expect(resource.properties.addonProfiles.omsagent).to.deep.equal({ enabled: true, config: { logAnalyticsWorkspaceResourceID: "/w" } });
+    expect(resource.identity).to.deep.equal({ type: "SystemAssigned" });
+  });
+
+  it('should use the API version of the container service SDK', () => {
+    const containerClient = new ContainerServiceClient({ getToken: async () => null }, "s");
+    expect(templatehelper.getClusterTemplateResource(cluster).apiVersion).to.equal(containerClient.apiVersion);
+  });
+
+  it('should not modify the cluster data', () => {
+    templatehelper.getClusterTemplateResource(cluster);
+    expect(cluster.properties.agentPoolProfiles[0].provisioningState).to.equal("Succeeded");
+    expect(cluster.properties.addonProfiles.omsagent.identity).to.exist;
+  });
+});
+
+describe('Test getArmTemplate', () => {
+  it('should produce a deployment template with the cluster resource', () => {
+    const resource = templatehelper.getClusterTemplateResource(cluster);
+    const template = JSON.parse(templatehelper.getArmTemplate(resource));
+    expect(template.$schema).to.contain("deploymentTemplate.json");
+    expect(template.resources).to.deep.equal([resource]);
+  });
+});
+
+describe('Test getBicepTemplate', () => {
+  it('should declare the cluster resource', () => {
+    const bicep = templatehelper.getBicepTemplate(templatehelper.getClusterTemplateResource(cluster));
+    expect(bicep).to.match(/^resource managedCluster 'Microsoft\.ContainerService\/managedClusters@[0-9-]+' = \{\n/);
+    expect(bicep).to.contain("\n  name: 'mycluster'\n");
+    expect(bicep).to.contain("\n        count: 3\n");
+    expect(bicep).to.contain("\n    'cost-center': 'it\\'s mine'\n");
+    expect(bicep).to.not.contain("apiVersion");
+  });
+});
@@ -0,0 +1,30 @@
+import * as upgradechannelhelper from '../../commands/aksClusterProperties/helpers/upgradechannelhelper';
+import { expect } from 'chai';
+
+describe('Test getUpgradeChannels', () => {
+  it('should read the channels of the auto-upgrade profile', () => {
+    const channels = upgradechannelhelper.getUpgradeChannels({ autoUpgradeProfile: { upgradeChannel: "stable", nodeOSUpgradeChannel: "NodeImage" } });
+    expect(channels).to.deep.equal({ upgradeChannel: "stable", nodeOSUpgradeChannel: "NodeImage" });
+  });
+
+  it('should use the service defaults when the channels are not set', () => {
+    expect(upgradechannelhelper.getUpgradeChannels({})).to.deep.equal({ upgradeChannel: "none", nodeOSUpgradeChannel: "Unmanaged" });
+    expect(upgradechannelhelper.getUpgradeChannels(undefined)).to.deep.equal({ upgradeChannel: "none", nodeOSUpgradeChannel: "Unmanaged" });
+  });
+});
+
+describe('Test validateUpgradeChannels', () => {
+  it('should accept supported channel combinations', () => {
+    expect(upgradechannelhelper.validateUpgradeChannels({ upgradeChannel: "patch", nodeOSUpgradeChannel: "None" })).to.be.undefined;
+    expect(upgradechannelhelper.validateUpgradeChannels({ upgradeChannel: "node-image", nodeOSUpgradeChannel: "NodeImage" })).to.be.undefined;
+  });
+
+  it('should reject unknown channels', () => {
+    expect(upgradechannelhelper.validateUpgradeChannels({ upgradeChannel: "latest", nodeOSUpgradeChannel: "None" })).to.not.be.undefined;
+    expect(upgradechannelhelper.validateUpgradeChannels({ upgradeChannel: "none", nodeOSUpgradeChannel: "nodeimage" })).to.not.be.undefined;
+  });
+
+  it('should require the NodeImage node OS channel for the node-image auto-upgrade channel', () => {
+    expect(upgradechannelhelper.validateUpgradeChannels({ upgradeChannel: "node-image", nodeOSUpgradeChannel: "Unmanaged" })).to.not.be.undefined;
+  });
+});
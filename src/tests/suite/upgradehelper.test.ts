@@ -0,0 +1,47 @@
+import * as upgradehelper from '../../commands/aksUpgradeKubernetesVersion/helpers/upgradehelper';
+import { expect } from 'chai';
+import { ManagedCluster, ManagedClusterUpgradeProfile } from '@azure/arm-containerservice';
+
+const mockUpgradeProfile = <ManagedClusterUpgradeProfile> {
+  controlPlaneProfile: {
+    kubernetesVersion: "1.22.6",
+    osType: "Linux",
+    upgrades: [
+      { kubernetesVersion: "1.23.5" },
+      { kubernetesVersion: "1.22.11" },
+      { kubernetesVersion: "1.24.0", isPreview: true }
+    ]
+  },
+  agentPoolProfiles: []
+};
+
+const mockCluster = <ManagedCluster> {
+  location: "eastus",
+  kubernetesVersion: "1.22.6",
+  agentPoolProfiles: [
+    { name: "system", orchestratorVersion: "1.22.6" },
+    { name: "user", orchestratorVersion: "1.22.4" }
+  ]
+};
+
+describe('Test getAvailableUpgradeVersions', () => {
+  it('should return versions newest first with preview flags', () => {
+    const result = upgradehelper.getAvailableUpgradeVersions(mockUpgradeProfile);
+    expect(result.map((v) => v.kubernetesVersion)).to.deep.equal(["1.24.0", "1.23.5", "1.22.11"]);
+    expect(result.map((v) => v.isPreview)).to.deep.equal([true, false, false]);
+  });
+});
+
+describe('Test getUpgradedCluster', () => {
+  it('should keep node pool versions for control plane only upgrades', () => {
+    const result = upgradehelper.getUpgradedCluster(mockCluster, "1.23.5", upgradehelper.UpgradeScope.ControlPlaneOnly);
+    expect(result.kubernetesVersion).to.equal("1.23.5");
+    expect(result.agentPoolProfiles!.map((p) => p.orchestratorVersion)).to.deep.equal(["1.22.6", "1.22.4"]);
+  });
+
+  it('should upgrade all node pools for full upgrades', () => {
+    const result = upgradehelper.getUpgradedCluster(mockCluster, "1.23.5", upgradehelper.UpgradeScope.ControlPlaneAndNodePools);
+    expect(result.agentPoolProfiles!.map((p) => p.orchestratorVersion)).to.deep.equal(["1.23.5", "1.23.5"]);
+    expect(mockCluster.agentPoolProfiles![0].orchestratorVersion).to.equal("1.22.6");
+  });
+});
@@ -0,0 +1,103 @@
+import * as workloadidentityhelper from '../../commands/aksWorkloadIdentity/helpers/workloadidentityhelper';
+import { expect } from 'chai';
+
+const identity = {
+  id: "/subscriptions/00000000-0000-0000-0000-000000000000/resourceGroups/rg/providers/Microsoft.ManagedIdentity/userAssignedIdentities/app-identity",
+  name: "app-identity",
+  resourceGroup: "rg",
+  location: "eastus",
+  clientId: "11111111-1111-1111-1111-111111111111",
+  tenantId: "22222222-2222-2222-2222-222222222222"
+};
+
+describe('Test getWorkloadIdentityState', () => {
+  it('should report the OIDC issuer and workload identity settings', () => {
+    const state = workloadidentityhelper.getWorkloadIdentityState({
+      location: "eastus",
+      oidcIssuerProfile: { enabled: true, issuerURL: "https://eastus.oic.prod-aks.azure.com/tenant/cluster/" },
+      securityProfile: { workloadIdentity: { enabled: true } }
+    });
+
+    expect(state).to.deep.equal({
+      oidcIssuerEnabled: true,
+      oidcIssuerUrl: "https://eastus.oic.prod-aks.azure.com/tenant/cluster/",
+      workloadIdentityEnabled: true
+    });
+  });
+
+  it('should treat missing profiles as disabled', () => {
+    expect(workloadidentityhelper.getWorkloadIdentityState({ location: "eastus" })).to.deep.equal({
+      oidcIssuerEnabled: false,
+      oidcIssuerUrl: undefined,
+      workloadIdentityEnabled: false
+    });
+  });
+});
+
+describe('Test enableWorkloadIdentity', () => {
+  it('should enable the OIDC issuer and workload identity, keeping other security settings', () => {
+    const properties: any = { securityProfile: { defender: { logAnalyticsWorkspaceResourceId: "workspace" } } };
+    workloadidentityhelper.enableWorkloadIdentity(properties);
+
+    expect(properties.oidcIssuerProfile).to.deep.equal({ enabled: true });
+    expect(properties.securityProfile).to.deep.equal({
+      defender: { logAnalyticsWorkspaceResourceId: "workspace" },
+      workloadIdentity: { enabled: true }
+    });
+  });
+});
+
+describe('Test getFederatedCredentialName', () => {
+  it('should combine the cluster, namespace and service account', () => {
+    expect(workloadidentityhelper.getFederatedCredentialName("cluster1", "apps", "my.service-account")).to.equal("cluster1-apps-my-service-account");
+  });
+
+  it('should keep names within the allowed length', () => {
+    const name = workloadidentityhelper.getFederatedCredentialName("c".repeat(63), "n".repeat(63), "s".repeat(100));
+    expect(name.length).to.equal(120);
+  });
+});
+
+describe('Test validateKubernetesName', () => {
+  it('should accept DNS names', () => {
+    expect(workloadidentityhelper.validateKubernetesName("apps", true)).to.be.undefined;
+    expect(workloadidentityhelper.validateKubernetesName("my.service-account", false)).to.be.undefined;
+  });
+
+  it('should reject invalid names', () => {
+    expect(workloadidentityhelper.validateKubernetesName("", false)).to.not.be.undefined;
+    expect(workloadidentityhelper.validateKubernetesName("Apps", true)).to.not.be.undefined;
+    expect(workloadidentityhelper.validateKubernetesName("my.namespace", true)).to.not.be.undefined;
+    expect(workloadidentityhelper.validateKubernetesName("-sa", false)).to.not.be.undefined;
+  });
+});
+
+describe('Test validateManagedIdentityName', () => {
+  it('should accept valid names and reject invalid ones', () => {
+    expect(workloadidentityhelper.validateManagedIdentityName("app_identity-1")).to.be.undefined;
+    expect(workloadidentityhelper.validateManagedIdentityName("ab")).to.not.be.undefined;
+    expect(workloadidentityhelper.validateManagedIdentityName("-identity")).to.not.be.undefined;
+    expect(workloadidentityhelper.validateManagedIdentityName("app.identity")).to.not.be.undefined;
+  });
+});
+
+describe('Test getServiceAccountYaml', () => {
+  it('should annotate the service account with the identity', () => {
+    const yaml = workloadidentityhelper.getServiceAccountYaml("apps", "app-sa", identity);
+    expect(yaml.split("\n")).to.deep.equal([
+      "apiVersion: v1",
+      "kind: ServiceAccount",
+      "metadata:",
+      "  name: app-sa",
+      "  namespace: apps",
+      "  annotations:",
+      "    azure.workload.identity/client-id: \"11111111-1111-1111-1111-111111111111\"",
+      "    azure.workload.identity/tenant-id: \"22222222-2222-2222-2222-222222222222\"",
+      ""
+    ]);
+  });
+
+  it('should use the service account subject for federated credentials', () => {
+    expect(workloadidentityhelper.getServiceAccountSubject("apps", "app-sa")).to.equal("system:serviceaccount:apps:app-sa");
+  });
+});
@@ -0,0 +1,29 @@
+import * as zip from '../../commands/utils/zip';
+import { expect } from 'chai';
+
+describe('Test createZip', () => {
+  it('should write stored entries with their CRC-32', () => {
+    const archive = zip.createZip([{ name: "dir/hello.txt", content: Buffer.from("hello") }]);
+    expect(archive.readUInt32LE(0)).to.equal(0x04034b50);
+    expect(archive.readUInt16LE(8)).to.equal(0);
+    expect(archive.readUInt32LE(14)).to.equal(0x3610a686);
+    expect(archive.readUInt32LE(18)).to.equal(5);
+    expect(archive.toString("utf8", 30, 43)).to.equal("dir/hello.txt");
+    expect(archive.toString("utf8", 43, 48)).to.equal("hello");
+  });
+
+  it('should end with a central directory listing all entries', () => {
+    const archive = zip.createZip([
+      { name: "a", content: Buffer.from("1") },
+      { name: "b", content: Buffer.alloc(0) }
+    ]);
+
+    const end = archive.length - 22;
+    expect(archive.readUInt32LE(end)).to.equal(0x06054b50);
+    expect(archive.readUInt16LE(end + 10)).to.equal(2);
+
+    const centralDirectoryOffset = archive.readUInt32LE(end + 16);
+    expect(archive.readUInt32LE(centralDirectoryOffset)).to.equal(0x02014b50);
+    expect(centralDirectoryOffset + archive.readUInt32LE(end + 12)).to.equal(end);
+  });
+});
@@ -0,0 +1,52 @@
+import { AzExtTreeItem } from "@microsoft/vscode-azext-utils";
+import { AgentPool } from "@azure/arm-containerservice";
+import AksClusterTreeItem from "./aksClusterTreeItem";
+
+// The de facto API of tree nodes that represent individual AKS agent pools (node pools).
+export interface AgentPoolTreeNode {
+    readonly nodeType: 'agentPool';
+    readonly name: string;
+    readonly cluster: AksClusterTreeItem;
+    readonly agentPool: AgentPool;
+}
+
+export default class AgentPoolTreeItem extends AzExtTreeItem implements AgentPoolTreeNode {
+    constructor(
+        readonly cluster: AksClusterTreeItem,
+        readonly agentPool: AgentPool) {
+        super(cluster);
+
+        this.id = this.agentPool.id;
+        this.description = getDescription(this.agentPool);
+        this.tooltip = getTooltip(this.agentPool);
+    }
+
+    public readonly contextValue: string = 'aks.agentPool';
+
+    public get label(): string {
+        return this.name;
+    }
+
+    public get name(): string {
+        return this.agentPool.name!;
+    }
+
+    public readonly nodeType = 'agentPool';
+}
+
+function getDescription(agentPool: AgentPool): string {
+    return `${agentPool.vmSize} x ${agentPool.count} (${agentPool.powerState?.code || agentPool.provisioningState})`;
+}
+
+function getTooltip(agentPool: AgentPool): string {
+    const scaling = agentPool.enableAutoScaling ? `Autoscaling ${agentPool.minCount}-${agentPool.maxCount}` : "Manual scaling";
+    return [
+        `VM Size: ${agentPool.vmSize}`,
+        `Node Count: ${agentPool.count}`,
+        `O/S Type: ${agentPool.osType}`,
+        `Mode: ${agentPool.mode}`,
+        `Power State: ${agentPool.powerState?.code}`,
+        `Provisioning State: ${agentPool.provisioningState}`,
+        `Scaling: ${scaling}`
+    ].join('\n');
+}
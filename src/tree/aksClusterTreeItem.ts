@@ -1,9 +1,17 @@
-import { AzExtParentTreeItem, AzExtTreeItem , ISubscriptionContext } from "@microsoft/vscode-azext-utils";
+import * as vscode from 'vscode';
+import * as k8s from 'vscode-kubernetes-tools-api';
+import { AzExtParentTreeItem, AzExtTreeItem , ISubscriptionContext, IActionContext } from "@microsoft/vscode-azext-utils";
 import { CloudExplorerV1 } from "vscode-kubernetes-tools-api";
 import { Subscription } from '@azure/arm-subscriptions';
-import { Resource } from "@azure/arm-resources/esm/models";
+import { GenericResource } from "@azure/arm-resources/esm/models";
 import { assetUri } from "../assets";
 import { parseResource } from "../azure-api-utils";
+import { getAgentPools, getManagedCluster } from "../commands/utils/clusters";
+import { ManagedCluster } from "@azure/arm-containerservice";
+import { ClusterStatus, getClusterDescription, getClusterStatus, getClusterTooltip, getListedCluster } from "../commands/utils/clusterstatus";
+import { failed } from "../commands/utils/errorable";
+import AgentPoolTreeItem from "./agentPoolTreeItem";
+import { clusterGroupContextValue } from "./clusterGroupTreeItem";
 
 // The de facto API of tree nodes that represent individual AKS clusters.
 // Tree items should implement this interface to maintain backward compatibility with previous versions of the extension.
@@ -16,24 +24,86 @@ export interface AksClusterTreeNode {
     readonly resourceGroupName: string;
 }
 
-export default class AksClusterTreeItem extends AzExtTreeItem implements AksClusterTreeNode {
+export default class AksClusterTreeItem extends AzExtParentTreeItem implements AksClusterTreeNode {
     constructor(
         parent: AzExtParentTreeItem,
-        readonly resource: Resource) {
+        readonly resource: GenericResource) {
         super(parent);
 
         this.iconPath = assetUri("resources/aks-tools.png");
         this.id = this.resource.id;
+
+        // Show the status from the cluster listing, if it has it. The cluster itself is only read when the node is
+        // expanded or refreshed, since the tree is rebuilt often and reading every cluster each time is costly.
+        const listedCluster = getListedCluster(this.resource);
+        if (listedCluster) {
+            this.showStatus(listedCluster);
+        }
     }
 
+    private hasReadCluster = false;
+
     public readonly contextValue: string = `aks.cluster ${CloudExplorerV1.SHOW_KUBECONFIG_COMMANDS_CONTEXT}`;
 
+    public hasMoreChildrenImpl(): boolean {
+        return false;
+    }
+
+    public async loadMoreChildrenImpl(clearCache: boolean, context: IActionContext): Promise<AzExtTreeItem[]> {
+        if (!this.hasReadCluster) {
+            this.updateStatus().then(scheduleCloudExplorerRefresh);
+        }
+
+        const agentPools = await getAgentPools(this);
+        if (failed(agentPools)) {
+            vscode.window.showErrorMessage(agentPools.error);
+            return [];
+        }
+
+        return agentPools.result.map((agentPool) => new AgentPoolTreeItem(this, agentPool));
+    }
+
+    public async refreshImpl?(): Promise<void> {
+        await this.updateStatus();
+
+        // NOTE: As with the account node, the Cloud Explorer wraps this node with its own and doesn't
+        //       listen for change events, so we must force it to refresh to re-enumerate the agent pools.
+        const cloudExplorer = await k8s.extension.cloudExplorer.v1;
+
+        if (cloudExplorer.available) {
+            cloudExplorer.api.refresh();
+        }
+    }
+
+    private async updateStatus(): Promise<void> {
+        this.hasReadCluster = true;
+        const cluster = await getManagedCluster(this);
+        if (failed(cluster)) {
+            // Keep the current status: the error is reported when the user acts on the cluster.
+            return;
+        }
+
+        this.showStatus(cluster.result);
+    }
+
+    private showStatus(cluster: ManagedCluster): void {
+        this.iconPath = getStatusIcon(getClusterStatus(cluster));
+        this.description = getClusterDescription(cluster);
+        this.tooltip = getClusterTooltip(cluster);
+    }
+
+    // Clusters are children of their subscription, or of a group within it when clusters are grouped.
+    public get subscriptionTreeItem(): AzExtParentTreeItem | undefined {
+        return this.parent?.contextValue === clusterGroupContextValue ? this.parent.parent : this.parent;
+    }
+
     public get label(): string {
         return this.name;
     }
 
     public get armId(): string {
-        return this.fullId;
+        // Not the fullId, which includes the group when clusters are grouped in the tree.
+        return this.resource.id!;
     }
 
     public get name(): string {
@@ -55,3 +125,30 @@ export default class AksClusterTreeItem extends AzExtTreeItem implements AksClus
 
     public readonly nodeType = 'cluster';
 }
+
+function getStatusIcon(status: ClusterStatus): vscode.ThemeIcon {
+    switch (status) {
+        case ClusterStatus.Running: return new vscode.ThemeIcon("vm-running", new vscode.ThemeColor("testing.iconPassed"));
+        case ClusterStatus.Stopped: return new vscode.ThemeIcon("vm-outline", new vscode.ThemeColor("descriptionForeground"));
+        case ClusterStatus.Failed: return new vscode.ThemeIcon("error", new vscode.ThemeColor("errorForeground"));
+        case ClusterStatus.Updating: return new vscode.ThemeIcon("sync~spin");
+    }
+}
+
+let cloudExplorerRefreshTimer: NodeJS.Timeout | undefined;
+
+// Expanded clusters load their status concurrently, so batch the resulting refreshes of the Cloud Explorer
+// (which, as noted above, has to be refreshed as a whole).
+function scheduleCloudExplorerRefresh(): void {
+    if (cloudExplorerRefreshTimer) {
+        return;
+    }
+
+    cloudExplorerRefreshTimer = setTimeout(async () => {
+        cloudExplorerRefreshTimer = undefined;
+        const cloudExplorer = await k8s.extension.cloudExplorer.v1;
+        if (cloudExplorer.available) {
+            cloudExplorer.api.refresh();
+        }
+    }, 1000);
+}
@@ -1,13 +1,24 @@
-import { ISubscriptionContext } from '@microsoft/vscode-azext-utils';
+import { AzExtTreeItem, IActionContext, ISubscriptionContext } from '@microsoft/vscode-azext-utils';
 import { AzureAccountTreeItemBase, SubscriptionTreeItemBase } from '@microsoft/vscode-azext-azureutils';
 import SubscriptionTreeItem from './subscriptionTreeItem';
 import * as k8s from 'vscode-kubernetes-tools-api';
+import { beginLoadClusterInventory } from '../commands/utils/clusterinventory';
 
 export default class AzureAccountTreeItem extends AzureAccountTreeItemBase {
     public createSubscriptionTreeItem(root: ISubscriptionContext): SubscriptionTreeItemBase {
         return new SubscriptionTreeItem(this, root);
     }
 
+    public async loadMoreChildrenImpl(clearCache: boolean, context: IActionContext): Promise<AzExtTreeItem[]> {
+        const children = await super.loadMoreChildrenImpl(clearCache, context);
+
+        // Load the clusters of all subscriptions together, rather than one subscription at a time as they are expanded.
+        const subscriptions = children.filter((c): c is SubscriptionTreeItem => c instanceof SubscriptionTreeItem);
+        beginLoadClusterInventory(subscriptions.map((s) => s.subscription));
+
+        return children;
+    }
+
     public async refreshImpl?(): Promise<void> {
         // NOTE: Updates to the subscription filter would normally refresh this node. However,
         //       the Cloud Explorer wraps this node with its own and doesn't listen for change
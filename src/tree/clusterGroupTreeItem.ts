@@ -0,0 +1,44 @@
+import * as vscode from 'vscode';
+import { AzExtParentTreeItem, AzExtTreeItem, IActionContext } from "@microsoft/vscode-azext-utils";
+import { ClusterGrouping, ClusterGroup } from "../commands/utils/clustergrouping";
+import AksClusterTreeItem from "./aksClusterTreeItem";
+
+export const clusterGroupContextValue = 'aks.clusterGroup';
+
+// A folder of the clusters in a subscription that share a resource group, location or tag value.
+export default class ClusterGroupTreeItem extends AzExtParentTreeItem {
+    constructor(
+        parent: AzExtParentTreeItem,
+        readonly group: ClusterGroup,
+        grouping: ClusterGrouping) {
+        super(parent);
+
+        this.id = `clusterGroups/${grouping}/${group.name}`;
+        this.iconPath = new vscode.ThemeIcon(getGroupIcon(grouping));
+        this.description = `${group.clusters.length}`;
+    }
+
+    public readonly contextValue: string = clusterGroupContextValue;
+
+    public hasMoreChildrenImpl(): boolean {
+        return false;
+    }
+
+    public async loadMoreChildrenImpl(clearCache: boolean, context: IActionContext): Promise<AzExtTreeItem[]> {
+        return this.group.clusters.map((cluster) => new AksClusterTreeItem(this, cluster));
+    }
+
+    public get label(): string {
+        return this.group.name;
+    }
+
+    public readonly nodeType = 'clusterGroup';
+}
+
+function getGroupIcon(grouping: ClusterGrouping): string {
+    switch (grouping) {
+        case ClusterGrouping.Location: return "globe";
+        case ClusterGrouping.Tag: return "tag";
+        default: return "folder";
+    }
+}
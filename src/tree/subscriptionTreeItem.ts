@@ -1,9 +1,15 @@
 import { SubscriptionTreeItemBase } from '@microsoft/vscode-azext-azureutils';
-import { IActionContext, AzExtTreeItem, AzExtParentTreeItem, ISubscriptionContext } from '@microsoft/vscode-azext-utils';
-import { listAll } from '../azure-api-utils';
+import * as vscode from 'vscode';
+import { IActionContext, AzExtTreeItem, AzExtParentTreeItem, ISubscriptionContext, callWithTelemetryAndErrorHandling } from '@microsoft/vscode-azext-utils';
 import AksClusterTreeItem from './aksClusterTreeItem';
 import { Subscription } from '@azure/arm-subscriptions';
-import { ResourceManagementClient } from '@azure/arm-resources';
+import * as k8s from 'vscode-kubernetes-tools-api';
+import { getSubscriptionClusters, invalidateClusterInventory } from '../commands/utils/clusterinventory';
+import { failed } from '../commands/utils/errorable';
+import { ClusterGrouping, describeClusterFilter, groupClusters, isClusterFilterEmpty, matchesClusterFilter, sortClusters } from '../commands/utils/clustergrouping';
+import { getClusterGroupingConfig } from '../commands/utils/config';
+import { getClusterFilter } from '../commands/utils/state';
+import ClusterGroupTreeItem from './clusterGroupTreeItem';
 
 // The de facto API of tree nodes that represent individual Azure subscriptions.
 // Tree items should implement this interface to maintain backward compatibility with previous versions of the extension.
@@ -19,6 +25,7 @@ export default class SubscriptionTreeItem extends SubscriptionTreeItemBase imple
         parent: AzExtParentTreeItem,
         root: ISubscriptionContext) {
         super(parent, root);
+        this.updateDescription();
     }
 
     public readonly contextValue: string = 'aks.subscription';
@@ -28,10 +35,62 @@ export default class SubscriptionTreeItem extends SubscriptionTreeItemBase imple
     }
 
     public async loadMoreChildrenImpl(clearCache: boolean, context: IActionContext): Promise<AzExtTreeItem[]> {
-        const client = new ResourceManagementClient(this.subscription.credentials, this.subscription.subscriptionId);
-        const aksClusterResources = await listAll(client.resources, client.resources.list({ filter: "resourceType eq 'Microsoft.ContainerService/managedClusters'" }));
+        const aksClusterResources = await getSubscriptionClusters(this.subscription, () => this.onInventoryUpdated());
+        if (failed(aksClusterResources)) {
+            vscode.window.showErrorMessage(aksClusterResources.error);
+            return [];
+        }
 
-        return aksClusterResources.map((aksClusterResource) => new AksClusterTreeItem(this, aksClusterResource));
+        const filter = getClusterFilter();
+        const clusters = aksClusterResources.result.filter((r) => matchesClusterFilter(r, filter));
+
+        const { grouping, tagName } = getClusterGroupingConfig();
+        if (grouping === ClusterGrouping.None) {
+            return sortClusters(clusters).map((aksClusterResource) => new AksClusterTreeItem(this, aksClusterResource));
+        }
+
+        return groupClusters(clusters, grouping, tagName).map((group) => new ClusterGroupTreeItem(this, group, grouping));
+    }
+
+    // The clusters shown under this subscription, whether or not they are grouped.
+    public async getClusterTreeItems(context: IActionContext): Promise<AksClusterTreeItem[]> {
+        const clusters: AksClusterTreeItem[] = [];
+        for (const child of await this.getCachedChildren(context)) {
+            if (child instanceof AksClusterTreeItem) {
+                clusters.push(child);
+            } else if (child instanceof ClusterGroupTreeItem) {
+                clusters.push(...(await child.getCachedChildren(context)).filter((c): c is AksClusterTreeItem => c instanceof AksClusterTreeItem));
+            }
+        }
+
+        return clusters;
+    }
+
+    public async refreshImpl?(): Promise<void> {
+        // An explicit refresh should show the current clusters rather than the inventory.
+        await invalidateClusterInventory(this.subscription.subscriptionId);
+        this.updateDescription();
+
+        // NOTE: The Cloud Explorer wraps this node with its own and doesn't listen for change events,
+        //       so we must force it to refresh to re-enumerate this subscription's clusters.
+        const cloudExplorer = await k8s.extension.cloudExplorer.v1;
+
+        if (cloudExplorer.available) {
+            cloudExplorer.api.refresh();
+        }
+    }
+
+    private onInventoryUpdated(): void {
+        // Refreshing the account node re-creates the subscription nodes, which then show the updated inventory.
+        // (Refreshing this node would discard the inventory.)
+        callWithTelemetryAndErrorHandling('aks.clusterInventoryUpdated', async (context) => {
+            await (this.parent || this).refresh(context);
+        });
+    }
+
+    private updateDescription(): void {
+        const filter = getClusterFilter();
+        this.description = isClusterFilterEmpty(filter) ? undefined : `Filtered by ${describeClusterFilter(filter)}`;
     }
 
     public get name(): string {